@@ -0,0 +1,290 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseArgs } from 'util';
+import { isMap, parse } from 'yaml';
+import { checkArazzoDocument } from './diagnostics';
+import { createReplayFetch, parseFixture } from './fixtures';
+import { WorkflowGraph, buildWorkflowGraph, toDot, toMermaid } from './graph';
+import { buildArazzoModel } from './model';
+import { REPORT_FORMATS, ReportFormat, RunReport, ValidationReport, formatRun, formatValidation } from './reporters';
+import { WorkflowResult, runWorkflow } from './runner';
+import { SourceDocumentCache } from './sources';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Command line
+// `arazzo validate`, `arazzo run` and `arazzo graph`, for CI and terminals outside VS Code
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export interface CliIO {
+    stdout(text: string): void;
+    stderr(text: string): void;
+    /** Directory relative paths are resolved from and reported against */
+    cwd: string;
+    fetch?: typeof fetch;
+}
+
+const USAGE = `Usage: arazzo <command> [options]
+
+Commands:
+  validate <paths...>   Check Arazzo documents, directories are searched for them
+  run <file>            Run the workflows of a document
+  graph <file>          Print the control flow of the workflows of a document
+
+Options:
+  -f, --format <format>     validate and run: stylish, json, sarif or junit (default stylish)
+                            graph: mermaid, dot or json (default mermaid)
+  -o, --output <file>       Write the report to a file instead of the standard output
+  -w, --workflow <id>       run and graph: only this workflow, repeatable
+      --inputs <file>       run: JSON or YAML file of workflow inputs
+      --input <name=value>  run: a workflow input, repeatable
+      --server <name=url>   run: base URL of a source description, repeatable
+      --header <name=value> run: header added to every request, repeatable
+      --fixture <file>      run: replay a recorded fixture instead of sending requests
+      --timeout <ms>        run: milliseconds before a request is abandoned
+  -h, --help                Show this help
+
+Exit codes: 0 on success, 1 on errors or failed workflows, 2 on invalid usage.`;
+
+const GRAPH_FORMATS = ['mermaid', 'dot', 'json'] as const;
+
+/** Reads the files of the file system, re-parsing them when they change */
+const fileReader = {
+    version(filePath: string) {
+        try {
+            const stat = fs.statSync(filePath);
+            return stat.isFile() ? stat.mtimeMs : undefined;
+        } catch {
+            return undefined;
+        }
+    },
+    read(filePath: string) {
+        try {
+            return fs.readFileSync(filePath, 'utf8');
+        } catch {
+            return undefined;
+        }
+    }
+};
+
+class UsageError extends Error {}
+
+function isArazzoFile(filePath: string): boolean {
+    const text = fileReader.read(filePath);
+    if (!text || !/arazzo/.test(text)) {
+        return false;
+    }
+    try {
+        const document = parse(text);
+        return document !== null && typeof document === 'object' && 'arazzo' in document;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Lists the files to validate: files as given, and the Arazzo documents found under directories.
+ */
+function collectFiles(paths: string[]): string[] {
+    const files: string[] = [];
+    const walk = (directory: string) => {
+        for (const entry of fs.readdirSync(directory, { withFileTypes: true })) {
+            const entryPath = path.join(directory, entry.name);
+            if (entry.isDirectory() && !entry.name.startsWith('.') && entry.name !== 'node_modules') {
+                walk(entryPath);
+            } else if (entry.isFile() && /\.(ya?ml|json)$/i.test(entry.name) && isArazzoFile(entryPath)) {
+                files.push(entryPath);
+            }
+        }
+    };
+    for (const target of paths) {
+        if (!fs.existsSync(target)) {
+            throw new UsageError(`No such file or directory: ${target}`);
+        }
+        if (fs.statSync(target).isDirectory()) {
+            walk(target);
+        } else {
+            files.push(target);
+        }
+    }
+    return files;
+}
+
+/**
+ * Parses repeated `name=value` options, values being read as YAML scalars when `typed`.
+ */
+function parsePairs(values: string[] | undefined, option: string, typed = false): Record<string, unknown> {
+    const pairs: Record<string, unknown> = {};
+    for (const value of values ?? []) {
+        const separator = value.indexOf('=');
+        if (separator <= 0) {
+            throw new UsageError(`--${option} expects name=value, got ${value}`);
+        }
+        const text = value.slice(separator + 1);
+        pairs[value.slice(0, separator)] = typed ? parse(text) ?? text : text;
+    }
+    return pairs;
+}
+
+function readObjectFile(filePath: string, description: string): Record<string, unknown> {
+    const value = parse(fs.readFileSync(filePath, 'utf8'));
+    if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+        throw new UsageError(`${filePath} does not contain an object of ${description}`);
+    }
+    return value;
+}
+
+function parseFormat<T extends string>(value: string | undefined, formats: readonly T[]): T {
+    const format = (value ?? formats[0]) as T;
+    if (!formats.includes(format)) {
+        throw new UsageError(`Unknown format ${value}, expected one of ${formats.join(', ')}`);
+    }
+    return format;
+}
+
+export async function main(args: string[], io: CliIO): Promise<number> {
+    let parsed;
+    try {
+        parsed = parseArgs({
+            args,
+            allowPositionals: true,
+            options: {
+                format: { type: 'string', short: 'f' },
+                output: { type: 'string', short: 'o' },
+                workflow: { type: 'string', short: 'w', multiple: true },
+                inputs: { type: 'string' },
+                input: { type: 'string', multiple: true },
+                server: { type: 'string', multiple: true },
+                header: { type: 'string', multiple: true },
+                fixture: { type: 'string' },
+                timeout: { type: 'string' },
+                help: { type: 'boolean', short: 'h' }
+            }
+        });
+    } catch (e) {
+        io.stderr(`${e instanceof Error ? e.message : String(e)}\n\n${USAGE}`);
+        return 2;
+    }
+
+    const { values, positionals } = parsed;
+    const [command, ...paths] = positionals;
+    if (values.help || !command) {
+        (values.help ? io.stdout : io.stderr)(USAGE);
+        return values.help ? 0 : 2;
+    }
+
+    const cache = new SourceDocumentCache(fileReader);
+    const resolve = (target: string) => path.resolve(io.cwd, target);
+    const display = (filePath: string) => path.relative(io.cwd, filePath) || filePath;
+    const write = (text: string) => {
+        if (values.output) {
+            fs.writeFileSync(resolve(values.output), text + '\n');
+        } else {
+            io.stdout(text);
+        }
+    };
+
+    try {
+        switch (command) {
+            case 'validate': {
+                if (paths.length === 0) {
+                    throw new UsageError('validate expects at least one file or directory');
+                }
+                const format = parseFormat<ReportFormat>(values.format, REPORT_FORMATS);
+                const reports: ValidationReport[] = collectFiles(paths.map(resolve)).map(filePath => {
+                    const text = fs.readFileSync(filePath, 'utf8');
+                    const problems = checkArazzoDocument({ path: filePath, text }, cache, [io.cwd], /\.json$/i.test(filePath) ? 'json' : 'yaml');
+                    return { path: display(filePath), text, problems };
+                });
+                write(formatValidation(reports, format));
+                return reports.some(report => report.problems.some(problem => problem.severity === 'error')) ? 1 : 0;
+            }
+
+            case 'run': {
+                const format = parseFormat<ReportFormat>(values.format, REPORT_FORMATS);
+                const { document, workflowIds } = loadDocument(paths, values.workflow, cache, resolve);
+                const fixture = values.fixture ? parseFixture(fs.readFileSync(resolve(values.fixture), 'utf8')) : undefined;
+                const inputs = {
+                    ...fixture?.inputs,
+                    ...(values.inputs ? readObjectFile(resolve(values.inputs), 'inputs') : {}),
+                    ...parsePairs(values.input, 'input', true)
+                };
+                const timeout = values.timeout !== undefined ? Number(values.timeout) : undefined;
+                if (timeout !== undefined && !(timeout > 0)) {
+                    throw new UsageError(`--timeout expects a number of milliseconds, got ${values.timeout}`);
+                }
+
+                const results: WorkflowResult[] = [];
+                for (const workflowId of fixture ? [fixture.workflowId] : workflowIds) {
+                    results.push(await runWorkflow({
+                        document,
+                        cache,
+                        workspaceRoots: [io.cwd],
+                        workflowId,
+                        inputs,
+                        servers: { ...fixture?.servers, ...parsePairs(values.server, 'server') as Record<string, string> },
+                        headers: parsePairs(values.header, 'header') as Record<string, string>,
+                        timeout,
+                        fetch: fixture ? createReplayFetch(fixture) : io.fetch
+                    }));
+                }
+                const reports: RunReport[] = [{ path: display(document.path), text: document.text, results }];
+                write(formatRun(reports, format));
+                return results.every(result => result.status === 'passed') ? 0 : 1;
+            }
+
+            case 'graph': {
+                const format = parseFormat(values.format, GRAPH_FORMATS);
+                const { document, workflowIds } = loadDocument(paths, values.workflow, cache, resolve);
+                const model = buildArazzoModel(document.yamlDoc);
+                const graphs: WorkflowGraph[] = model.workflows
+                    .filter(workflow => workflowIds.includes(workflow.name))
+                    .map(workflow => buildWorkflowGraph(model, workflow));
+                write(format === 'mermaid' ? toMermaid(graphs) : format === 'dot' ? toDot(graphs) : JSON.stringify(graphs, null, 2));
+                return 0;
+            }
+
+            default:
+                throw new UsageError(`Unknown command: ${command}`);
+        }
+    } catch (e) {
+        if (e instanceof UsageError) {
+            io.stderr(`${e.message}\n\n${USAGE}`);
+            return 2;
+        }
+        io.stderr(`arazzo ${command}: ${e instanceof Error ? e.message : String(e)}`);
+        return 1;
+    }
+}
+
+/**
+ * Loads the single document `run` and `graph` take, with the workflows to consider: those asked
+ * for, or all of them.
+ */
+function loadDocument(paths: string[], workflows: string[] | undefined, cache: SourceDocumentCache, resolve: (target: string) => string) {
+    if (paths.length !== 1) {
+        throw new UsageError('Expected a single Arazzo document');
+    }
+    const document = cache.get(resolve(paths[0]));
+    if (!document) {
+        throw new UsageError(`No such file: ${paths[0]}`);
+    }
+    if (!isMap(document.yamlDoc.contents) || !document.yamlDoc.contents.has('arazzo')) {
+        throw new Error(`${paths[0]} is not an Arazzo document`);
+    }
+    const declared = buildArazzoModel(document.yamlDoc).workflows.map(workflow => workflow.name);
+    const unknown = workflows?.find(workflowId => !declared.includes(workflowId));
+    if (unknown) {
+        throw new Error(`Unknown workflow: ${unknown}`);
+    }
+    return { document, workflowIds: workflows ?? declared };
+}
+
+if (require.main === module) {
+    main(process.argv.slice(2), {
+        stdout: text => process.stdout.write(text + '\n'),
+        stderr: text => process.stderr.write(text + '\n'),
+        cwd: process.cwd()
+    }).then(code => {
+        process.exitCode = code;
+    });
+}
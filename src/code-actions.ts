@@ -0,0 +1,343 @@
+import { Document, Node, Scalar, YAMLMap, YAMLSeq, isMap, isNode, isScalar, isSeq, stringify } from 'yaml';
+import { ArazzoFormat, getNodeAtPath } from './document';
+import { ArazzoModel, ComponentSection } from './model';
+import { getOperationParameters, parseJsonPointer } from './openapi';
+import { resolveStepOperation } from './operations';
+import { enumValues, getPropertySchema, resolveSchemaPath } from './schema-lookup';
+import { LoadedSource } from './sources';
+import { findClosestMatch } from './suggestions';
+import { ArazzoProblem } from './validation';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Code actions
+// Quick fixes for common mistakes, and extraction of inline actions to components
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export interface TextEdit {
+    start: number;
+    end: number;
+    newText: string;
+}
+
+export interface ArazzoCodeAction {
+    title: string;
+    kind: 'quickfix' | 'refactor.extract';
+    edits: TextEdit[];
+    /** Problem the action fixes */
+    problem?: ArazzoProblem;
+    preferred?: boolean;
+}
+
+export interface CodeActionDocument {
+    text: string;
+    yamlDoc: Document;
+    model: ArazzoModel;
+    sources: LoadedSource[];
+    format: ArazzoFormat;
+}
+
+/**
+ * Code actions for the `start`–`end` selection: fixes for the problems it touches, and refactorings
+ * of the object under it.
+ */
+export function getCodeActions(document: CodeActionDocument, start: number, end: number, problems: ArazzoProblem[]): ArazzoCodeAction[] {
+    const actions: ArazzoCodeAction[] = [];
+    for (const problem of problems) {
+        if (problem.end < start || problem.start > end) {
+            continue;
+        }
+        if (problem.code === 'schema/required' && problem.data?.property) {
+            actions.push(...fixMissingProperty(document, problem));
+        } else if (problem.code === 'unknown-step') {
+            actions.push(...fixUnknownStep(document, problem));
+        }
+    }
+    actions.push(...addSourceType(document, start), ...extractAction(document, start));
+    return actions;
+}
+
+function fixMissingProperty(document: CodeActionDocument, problem: ArazzoProblem): ArazzoCodeAction[] {
+    const { pointer = '', property = '' } = problem.data ?? {};
+    const path = parseJsonPointer(pointer);
+    const map = getNodeAtPath(document.yamlDoc, path);
+    if (!isMap(map)) {
+        return [];
+    }
+    const siblings = new Map<string, string>();
+    map.items.forEach(pair => isScalar(pair.key) && isScalar(pair.value) && siblings.set(String(pair.key.value), String(pair.value.value)));
+    const container = resolveSchemaPath(path.map(segment => /^\d+$/.test(segment) ? '[]' : segment));
+    const schema = container && getPropertySchema(container, property, siblings);
+
+    const values = schema ? enumValues(schema) : [];
+    if (values.length > 0) {
+        // e.g. the `in` of a parameter, preferring the location the operation declares
+        const expected = property === 'in' ? findParameterLocation(document, path, map) : undefined;
+        return values.map(value => ({
+            title: `Add "${property}: ${value}"`,
+            kind: 'quickfix',
+            edits: [insertMapEntry(document.text, map, property, value, document.format)],
+            problem,
+            preferred: value === expected
+        }));
+    }
+
+    let placeholder: unknown = '';
+    if (schema?.type === 'array') {
+        placeholder = [];
+    } else if (schema?.type === 'object') {
+        placeholder = {};
+    } else if (schema?.type === 'integer' || schema?.type === 'number') {
+        placeholder = 0;
+    }
+    return [{
+        title: `Add missing "${property}"`,
+        kind: 'quickfix',
+        edits: [insertMapEntry(document.text, map, property, placeholder, document.format)],
+        problem,
+        preferred: true
+    }];
+}
+
+/**
+ * Where the OpenAPI operation of the step holding the parameter at `path` expects it.
+ */
+function findParameterLocation(document: CodeActionDocument, path: string[], parameter: YAMLMap): string | undefined {
+    const stepNode = getNodeAtPath(document.yamlDoc, path.slice(0, -2));
+    const step = document.model.workflows.flatMap(w => w.steps).find(s => s.node === stepNode);
+    const resolution = step && resolveStepOperation(step, document.sources);
+    if (resolution?.status !== 'resolved' || !resolution.source.document) {
+        return undefined;
+    }
+    const name = parameter.get('name');
+    return getOperationParameters(resolution.source.document, resolution.operation).find(p => p.name === name)?.in;
+}
+
+function fixUnknownStep(document: CodeActionDocument, problem: ArazzoProblem): ArazzoCodeAction[] {
+    const scalar = findScalarAt(document.yamlDoc.contents, problem.start);
+    const workflow = document.model.workflows.find(w => containsOffset(w.node, problem.start));
+    const steps = workflow?.node.get('steps', true);
+    if (!scalar || !workflow || typeof scalar.value !== 'string') {
+        return [];
+    }
+    const stepId = scalar.value;
+    const actions: ArazzoCodeAction[] = [];
+
+    const closest = findClosestMatch(stepId, workflow.steps.map(s => s.name));
+    if (closest) {
+        actions.push({
+            title: `Change to "${closest}"`,
+            kind: 'quickfix',
+            edits: [replaceScalar(document.text, scalar, closest)],
+            problem,
+            preferred: true
+        });
+    }
+    if (isSeq(steps)) {
+        actions.push({
+            title: `Create step "${stepId}"`,
+            kind: 'quickfix',
+            edits: [appendSeqItem(document.text, steps, { stepId, operationId: '' }, document.format)],
+            problem
+        });
+    }
+    return actions;
+}
+
+function addSourceType(document: CodeActionDocument, offset: number): ArazzoCodeAction[] {
+    const source = document.model.sourceDescriptions.find(s => containsOffset(s.node, offset));
+    if (!source || source.node.has('type')) {
+        return [];
+    }
+    const root = document.sources.find(s => s.description === source)?.document?.yamlDoc.contents;
+    const type = isMap(root) && root.has('arazzo') ? 'arazzo' : 'openapi';
+    return [{
+        title: `Add "type: ${type}"`,
+        kind: 'quickfix',
+        edits: [insertMapEntry(document.text, source.node, 'type', type, document.format)]
+    }];
+}
+
+const ACTION_LISTS: Record<string, ComponentSection> = {
+    successActions: 'successActions',
+    onSuccess: 'successActions',
+    failureActions: 'failureActions',
+    onFailure: 'failureActions'
+};
+
+/**
+ * Moves the inline action under the cursor to `components` and references it instead.
+ */
+function extractAction(document: CodeActionDocument, offset: number): ArazzoCodeAction[] {
+    const owners = document.model.workflows.flatMap(w => [w.node, ...w.steps.map(s => s.node)]);
+    for (const owner of owners) {
+        for (const [key, section] of Object.entries(ACTION_LISTS)) {
+            const list = owner.get(key, true);
+            const action = isSeq(list) ? list.items.find(item => containsOffset(item, offset)) : undefined;
+            if (!isMap(action) || action.has('reference')) {
+                continue;
+            }
+            return [{
+                title: `Extract action to components.${section}`,
+                kind: 'refactor.extract',
+                edits: extractionEdits(document, action, section)
+            }];
+        }
+    }
+    return [];
+}
+
+function extractionEdits(document: CodeActionDocument, action: YAMLMap, section: ComponentSection): TextEdit[] {
+    const { text, format } = document;
+    const existing = new Set(document.model.components[section].map(c => c.name));
+    // Component keys match ^[a-zA-Z0-9.\-_]+$, e.g. "pet sold" becomes "pet_sold"
+    const written = typeof action.get('name') === 'string' ? String(action.get('name')) : '';
+    const base = written.replace(/[^a-zA-Z0-9.\-_]+/g, '_').replace(/^_+|_+$/g, '') || 'action';
+    let name = base;
+    for (let i = 2; existing.has(name); i++) {
+        name = `${base}${i}`;
+    }
+
+    const reference = `$components.${section}.${name}`;
+    // block maps end after their trailing line break, which has to stay
+    const start = action.range![0];
+    const end = start + text.slice(start, action.range![1]).trimEnd().length;
+    let replacement: string;
+    if (format === 'json') {
+        replacement = `{ "reference": ${JSON.stringify(reference)} }`;
+    } else {
+        replacement = action.flow ? `{ reference: ${reference} }` : `reference: ${reference}`;
+    }
+    const edits: TextEdit[] = [{ start, end, newText: replacement }];
+
+    const value = action.toJSON();
+    const root = document.yamlDoc.contents;
+    const components = isMap(root) ? root.get('components', true) : undefined;
+    const sectionMap = isMap(components) ? components.get(section, true) : undefined;
+    if (isMap(sectionMap)) {
+        edits.push(insertMapEntry(text, sectionMap, name, value, format));
+    } else if (isMap(components)) {
+        edits.push(insertMapEntry(text, components, section, { [name]: value }, format));
+    } else if (isMap(root)) {
+        edits.push(insertMapEntry(text, root, 'components', { [section]: { [name]: value } }, format));
+    }
+    return edits;
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Edits
+// Insertions that follow the layout of the surrounding YAML or JSON
+// ───────────────────────────────────────────────────────────────────────────────
+
+function containsOffset(node: unknown, offset: number): boolean {
+    return isNode(node) && !!node.range && node.range[0] <= offset && offset <= node.range[1];
+}
+
+function findScalarAt(node: unknown, offset: number): Scalar | undefined {
+    if (isScalar(node)) {
+        return containsOffset(node, offset) ? node : undefined;
+    }
+    if (isMap(node)) {
+        for (const pair of node.items) {
+            const found = findScalarAt(pair.key, offset) ?? findScalarAt(pair.value, offset);
+            if (found) {
+                return found;
+            }
+        }
+    } else if (isSeq(node)) {
+        for (const item of node.items) {
+            const found = findScalarAt(item, offset);
+            if (found) {
+                return found;
+            }
+        }
+    }
+    return undefined;
+}
+
+function columnOf(text: string, offset: number): number {
+    return offset - (text.lastIndexOf('\n', offset - 1) + 1);
+}
+
+/**
+ * End of the line a node ends on, where a sibling line can be inserted.
+ */
+function lineEndAfter(text: string, node: Node): number {
+    let end = node.range![1];
+    if (text[end - 1] === '\n') {
+        end--;
+    }
+    const newline = text.indexOf('\n', end);
+    return newline < 0 ? text.length : (text[newline - 1] === '\r' ? newline - 1 : newline);
+}
+
+function indentLines(value: string, column: number): string {
+    return value.split('\n').map((line, i) => i === 0 || !line ? line : ' '.repeat(column) + line).join('\n');
+}
+
+function toYaml(value: unknown): string {
+    return stringify(value).trimEnd();
+}
+
+function isCollection(value: unknown): boolean {
+    return typeof value === 'object' && value !== null && Object.keys(value).length > 0;
+}
+
+function replaceScalar(text: string, scalar: Scalar, value: string): TextEdit {
+    const [start, end] = [scalar.range![0], scalar.range![1]];
+    const quote = text[start] === '"' || text[start] === "'" ? text[start] : '';
+    return { start, end, newText: `${quote}${value}${quote}` };
+}
+
+/**
+ * Adds `key: value` as the last entry of a map.
+ */
+export function insertMapEntry(text: string, map: YAMLMap, key: string, value: unknown, format: ArazzoFormat): TextEdit {
+    const first = map.items[0]?.key;
+    if (!map.flow && isNode(first) && first.range) {
+        const column = columnOf(text, first.range[0]);
+        const entry = isCollection(value)
+            ? `${toYaml(key)}:\n${' '.repeat(column + 2)}${indentLines(toYaml(value), column + 2)}`
+            : `${toYaml(key)}: ${toYaml(value)}`;
+        const at = lineEndAfter(text, map);
+        return { start: at, end: at, newText: `\n${' '.repeat(column)}${entry}` };
+    }
+
+    const jsonKey = format === 'json' ? JSON.stringify(key) : key;
+    const last = map.items[map.items.length - 1];
+    const lastNode = (last?.value ?? last?.key) as Node | undefined;
+    if (!isNode(first) || !first.range || !lastNode?.range) {
+        const at = map.range![0] + 1;
+        return { start: at, end: at, newText: ` ${jsonKey}: ${JSON.stringify(value)} ` };
+    }
+    const at = lastNode.range[1];
+    if (text.slice(map.range![0], map.range![1]).includes('\n')) {
+        const column = columnOf(text, first.range[0]);
+        return { start: at, end: at, newText: `,\n${' '.repeat(column)}${jsonKey}: ${indentLines(JSON.stringify(value, null, 2), column)}` };
+    }
+    return { start: at, end: at, newText: `, ${jsonKey}: ${JSON.stringify(value)}` };
+}
+
+/**
+ * Adds `value` as the last item of a sequence.
+ */
+export function appendSeqItem(text: string, seq: YAMLSeq, value: unknown, format: ArazzoFormat): TextEdit {
+    const first = seq.items[0];
+    if (!seq.flow && isNode(first) && first.range) {
+        const dash = text.lastIndexOf('-', first.range[0]);
+        const column = columnOf(text, dash);
+        const at = lineEndAfter(text, seq);
+        return { start: at, end: at, newText: `\n${' '.repeat(column)}- ${indentLines(toYaml(value), column + 2)}` };
+    }
+
+    const last = seq.items[seq.items.length - 1];
+    if (!isNode(first) || !first.range || !isNode(last) || !last.range) {
+        const at = seq.range![0] + 1;
+        return { start: at, end: at, newText: format === 'json' ? JSON.stringify(value) : ` ${JSON.stringify(value)} ` };
+    }
+    const at = last.range[1];
+    if (text.slice(seq.range![0], seq.range![1]).includes('\n')) {
+        const column = columnOf(text, first.range[0]);
+        return { start: at, end: at, newText: `,\n${' '.repeat(column)}${indentLines(JSON.stringify(value, null, 2), column)}` };
+    }
+    return { start: at, end: at, newText: `, ${JSON.stringify(value)}` };
+}
@@ -0,0 +1,471 @@
+import { isMap, isNode, isScalar } from 'yaml';
+import { getLineAndCharacter } from './document';
+import { COMPONENT_EXPRESSION_SECTIONS } from './expressions';
+import { ArazzoModel, ComponentSection, buildArazzoModel } from './model';
+import {
+    OpenApiOperation,
+    getOpenApiOperations,
+    getOperationParameters,
+    getOperationRequestBody,
+    getOperationResponses,
+    isJsonMediaType,
+    listSchemaPointers,
+    toJsonPointer
+} from './openapi';
+import { resolveStepOperation } from './operations';
+import {
+    JsonSchema,
+    deref,
+    enumValues,
+    getConditionalProperties,
+    getPropertySchema,
+    objectSchemas,
+    resolveSchemaPath,
+    schemaDefinitions
+} from './schema-lookup';
+import { LoadedSource, SourceDocument, isOpenApiSource } from './sources';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Completion
+// Keys, enum values and snippets for the Arazzo object under the cursor (YAML only),
+// and the runtime expressions valid where the cursor is
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export interface ArazzoCompletion {
+    label: string;
+    kind: 'property' | 'value' | 'snippet' | 'expression';
+    /** Snippet text; lines after the first are indented relative to the cursor line, as VS Code expects */
+    insertText: string;
+    /** Offset the completion replaces from, up to the cursor */
+    start: number;
+    detail?: string;
+    sortText?: string;
+}
+
+/**
+ * Where the cursor is: on a key or on the value of `key`, inside the object at `path`.
+ * `path` holds the keys leading to it, with "[]" for sequence items.
+ */
+export interface CompletionContext {
+    path: string[];
+    key?: string;
+    /** Text typed so far */
+    partial: string;
+    /** Column keys of the object under the cursor start at */
+    column: number;
+    /** Indentation of the cursor line */
+    indent: number;
+    /** Whether the cursor line opens a sequence item ("- ") */
+    itemStart: boolean;
+    /** Scalar values of the other keys of that object */
+    siblings: Map<string, string>;
+}
+
+const INDENT = 2;
+
+export function getCompletions(text: string, offset: number): ArazzoCompletion[] {
+    const context = getCompletionContext(text, offset);
+    if (!context) {
+        return [];
+    }
+    const start = offset - context.partial.length;
+    const lineIndent = `\n${' '.repeat(context.indent)}`;
+    return collectCompletions(context, start).map(c => ({ ...c, insertText: c.insertText.split(lineIndent).join('\n') }));
+}
+
+function collectCompletions(context: CompletionContext, start: number): ArazzoCompletion[] {
+    const container = resolveSchemaPath(context.path);
+    if (!container) {
+        return [];
+    }
+
+    if (context.key !== undefined) {
+        const schema = getPropertySchema(container, context.key, context.siblings);
+        return schema ? getValueCompletions(schema, start) : [];
+    }
+
+    if (container.type === 'array' && container.items) {
+        // A new item of the list, the "- " still has to be written
+        return getItemSnippets(container.items, context.column + INDENT)
+            .map(c => ({ ...c, insertText: `- ${c.insertText}`, start }));
+    }
+    const completions = getKeyCompletions(container, context, start);
+    if (context.itemStart) {
+        completions.push(...getItemSnippets(container, context.column).map(c => ({ ...c, start })));
+    }
+    return completions;
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Cursor context
+// ───────────────────────────────────────────────────────────────────────────────
+
+interface LineInfo {
+    /** Columns of the "- " markers opening sequence items */
+    dashes: number[];
+    /** Column the content after the markers starts at */
+    column: number;
+    key?: string;
+    value?: string;
+}
+
+const KEY_PATTERN = /^(?:"([^"]*)"|'([^']*)'|([^\s"'#][^:#]*?))\s*:(?:\s+(.*)|$)/;
+
+function parseLine(line: string): LineInfo | undefined {
+    let position = line.length - line.trimStart().length;
+    const dashes: number[] = [];
+    while (line[position] === '-' && (position + 1 === line.length || line[position + 1] === ' ')) {
+        dashes.push(position);
+        position++;
+        while (line[position] === ' ') {
+            position++;
+        }
+    }
+    const rest = line.slice(position);
+    if (rest.startsWith('#') || (rest.trim() === '' && dashes.length === 0)) {
+        return undefined;
+    }
+    const match = KEY_PATTERN.exec(rest);
+    const value = match?.[4]?.replace(/\s+#.*$/, '').trim() ?? '';
+    return { dashes, column: position, key: match ? match[1] ?? match[2] ?? match[3] : undefined, value };
+}
+
+/**
+ * Works out the completion context from the indentation of the lines above the cursor, since
+ * the document being typed is rarely valid YAML.
+ */
+export function getCompletionContext(text: string, offset: number): CompletionContext | undefined {
+    const lines = text.split('\n').map(line => line.replace(/\r$/, ''));
+    const { line: lineIndex, character } = getLineAndCharacter(text, offset);
+    const prefix = lines[lineIndex].slice(0, character);
+
+    let key: string | undefined;
+    let partial: string;
+    let lead: string;
+    const keyMatch = /^(\s*(?:-\s+)*)((?:[\w$.][\w$.-]*)?)$/.exec(prefix);
+    const valueMatch = /^(\s*(?:-\s+)*)(["']?)([\w$.-]+)\2:\s+["']?([^\s"']*)$/.exec(prefix);
+    if (keyMatch) {
+        [, lead, partial] = keyMatch;
+    } else if (valueMatch) {
+        [, lead, , key, partial] = valueMatch;
+    } else {
+        return undefined;
+    }
+
+    const current = parseLine(lead + 'x');
+    const itemStart = (current?.dashes.length ?? 0) > 0;
+    const column = lead.length;
+    const path: string[] = current?.dashes.map(() => '[]') ?? [];
+    let limit = itemStart ? current!.dashes[0] : column;
+    let limitIsDash = itemStart;
+
+    for (let i = lineIndex - 1; i >= 0 && limit > 0; i--) {
+        const info = parseLine(lines[i]);
+        if (!info) {
+            continue;
+        }
+        if (info.key !== undefined && (info.column < limit || (info.column === limit && limitIsDash))) {
+            if (info.value) {
+                // Inside a block scalar or a multi-line plain scalar
+                return undefined;
+            }
+            path.unshift(info.key);
+            limit = info.column;
+            limitIsDash = false;
+        }
+        for (const dash of [...info.dashes].reverse()) {
+            if (dash < limit) {
+                path.unshift('[]');
+                limit = dash;
+                limitIsDash = true;
+            }
+        }
+    }
+
+    const indent = lead.length - lead.trimStart().length;
+    return { path, key, partial, column, indent, itemStart, siblings: collectSiblings(lines, lineIndex, column, itemStart) };
+}
+
+/**
+ * Reads the `key: value` lines of the object whose keys start at `column`, around the cursor line.
+ */
+function collectSiblings(lines: string[], lineIndex: number, column: number, itemStart: boolean): Map<string, string> {
+    const siblings = new Map<string, string>();
+    const add = (info: LineInfo) => {
+        if (info.key !== undefined) {
+            siblings.set(info.key, info.value?.replace(/^(["'])(.*)\1$/, '$2') ?? '');
+        }
+    };
+    for (let i = lineIndex - 1; i >= 0 && !itemStart; i--) {
+        const info = parseLine(lines[i]);
+        if (!info || info.column > column) {
+            continue;
+        }
+        if (info.column < column) {
+            break;
+        }
+        add(info);
+        if (info.dashes.length > 0) {
+            // First key of the sequence item
+            break;
+        }
+    }
+    for (let i = lineIndex + 1; i < lines.length; i++) {
+        const info = parseLine(lines[i]);
+        if (!info || info.column > column) {
+            continue;
+        }
+        if (info.column < column || info.dashes.length > 0) {
+            break;
+        }
+        add(info);
+    }
+    return siblings;
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Completions
+// ───────────────────────────────────────────────────────────────────────────────
+
+function escapeSnippet(value: string): string {
+    return value.replace(/[$}\\]/g, '\\$&');
+}
+
+function getKeyCompletions(container: JsonSchema, context: CompletionContext, start: number): ArazzoCompletion[] {
+    const completions: ArazzoCompletion[] = [];
+    const seen = new Set(context.siblings.keys());
+    for (const schema of objectSchemas(container)) {
+        const narrowed = getConditionalProperties(schema, context.siblings);
+        for (const [key, property] of Object.entries(schema.properties ?? {})) {
+            if (seen.has(key) || narrowed.get(key)?.not) {
+                continue;
+            }
+            seen.add(key);
+            const required = schema.required?.includes(key) ?? false;
+            completions.push({
+                label: key,
+                kind: 'property',
+                insertText: `${escapeSnippet(key)}:${describeValue(narrowed.get(key) ?? deref(property), context.column)}`,
+                start,
+                detail: required ? 'required' : undefined,
+                sortText: `${required ? 0 : 1}${key}`
+            });
+        }
+    }
+    return completions;
+}
+
+/**
+ * What follows the colon of a key: a choice of the enum values, or the start of a nested block.
+ */
+function describeValue(schema: JsonSchema, column: number): string {
+    const values = enumValues(schema);
+    if (values.length > 0) {
+        return ` \${1|${values.map(v => String(v).replace(/[,|]/g, '\\$&')).join(',')}|}`;
+    }
+    const nested = ' '.repeat(column + INDENT);
+    if (schema.type === 'array' && schema.items && objectSchemas(schema.items).length > 0) {
+        return `\n${nested}- $0`;
+    }
+    if (schema.type === 'object' || objectSchemas(schema).length > 0) {
+        return `\n${nested}$0`;
+    }
+    return ' ';
+}
+
+function getValueCompletions(schema: JsonSchema, start: number): ArazzoCompletion[] {
+    let values = enumValues(schema);
+    if (values.length === 0 && Object.keys(schema).length === 0) {
+        // Any value, e.g. a parameter value
+        values = [true, false, null];
+    }
+    return values.map(value => ({
+        label: String(value),
+        kind: 'value',
+        insertText: escapeSnippet(String(value)),
+        start
+    }));
+}
+
+interface ItemSnippet {
+    label: string;
+    detail: string;
+    /** Lines of the snippet, indented relative to the item */
+    lines: string[];
+}
+
+const defs = schemaDefinitions;
+
+const ITEM_SNIPPETS = new Map<JsonSchema, ItemSnippet[]>([
+    [defs.sourceDescription, [
+        { label: 'source description', detail: 'Source Description', lines: ['name: ${1:name}', 'url: ${2:./openapi.yaml}', 'type: ${3|openapi,arazzo|}'] }
+    ]],
+    [defs.workflow, [
+        {
+            label: 'workflow',
+            detail: 'Workflow',
+            lines: ['workflowId: ${1:workflowId}', 'summary: ${2}', 'steps:', '  - stepId: ${3:stepId}', '    operationId: ${4:operationId}', '    successCriteria:', '      - condition: \\$statusCode == 200']
+        }
+    ]],
+    [defs.step, [
+        {
+            label: 'step',
+            detail: 'Step calling an operation',
+            lines: ['stepId: ${1:stepId}', 'operationId: ${2:operationId}', 'successCriteria:', '  - condition: \\$statusCode == ${3:200}']
+        },
+        { label: 'workflow step', detail: 'Step running another workflow', lines: ['stepId: ${1:stepId}', 'workflowId: ${2:workflowId}'] }
+    ]],
+    [defs.parameter, [
+        { label: 'parameter', detail: 'Parameter', lines: ['name: ${1:name}', 'in: ${2|path,query,header,cookie|}', 'value: ${3}'] }
+    ]],
+    [defs.successAction, [
+        { label: 'goto action', detail: 'Success Action', lines: ['name: ${1:name}', 'type: goto', 'stepId: ${2:stepId}'] },
+        { label: 'end action', detail: 'Success Action', lines: ['name: ${1:name}', 'type: end'] }
+    ]],
+    [defs.failureAction, [
+        { label: 'retry action', detail: 'Failure Action', lines: ['name: ${1:name}', 'type: retry', 'retryAfter: ${2:1}', 'retryLimit: ${3:3}'] },
+        { label: 'goto action', detail: 'Failure Action', lines: ['name: ${1:name}', 'type: goto', 'stepId: ${2:stepId}'] },
+        { label: 'end action', detail: 'Failure Action', lines: ['name: ${1:name}', 'type: end'] }
+    ]],
+    [defs.criterion, [
+        { label: 'status criterion', detail: 'Criterion', lines: ['condition: \\$statusCode == ${1:200}'] },
+        { label: 'regex criterion', detail: 'Criterion', lines: ['context: ${1:\\$response.body}', 'condition: ${2:pattern}', 'type: regex'] },
+        { label: 'jsonpath criterion', detail: 'Criterion', lines: ['context: \\$response.body', 'condition: ${1:\\$[?(@.status == \'available\')]}', 'type: jsonpath'] }
+    ]],
+    [defs.payloadReplacement, [
+        { label: 'replacement', detail: 'Payload Replacement', lines: ['target: ${1:/id}', 'value: ${2}'] }
+    ]]
+]);
+
+function getItemSnippets(item: JsonSchema, column: number): Omit<ArazzoCompletion, 'start'>[] {
+    return objectSchemas(item).flatMap(schema => ITEM_SNIPPETS.get(schema) ?? []).map(snippet => ({
+        label: snippet.label,
+        kind: 'snippet',
+        insertText: snippet.lines.map((line, i) => i === 0 ? line : ' '.repeat(column) + line).join('\n'),
+        detail: snippet.detail,
+        sortText: `2${snippet.label}`
+    }));
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Runtime expressions
+// ───────────────────────────────────────────────────────────────────────────────
+
+const EXPRESSION_PREFIX = /\$[\w.#/~-]*$/;
+
+/** Step fields evaluated after the step ran, where the step may use its own outputs */
+const AFTER_STEP_FIELDS = ['successCriteria', 'onSuccess', 'onFailure', 'outputs'];
+
+/**
+ * Offset of the runtime expression being typed before the cursor, undefined when the cursor is not in one.
+ */
+export function findExpressionStart(text: string, offset: number): number | undefined {
+    const lineStart = text.lastIndexOf('\n', offset - 1) + 1;
+    const prefix = text.slice(lineStart, offset);
+    const match = EXPRESSION_PREFIX.exec(prefix);
+    if (!match || /^\s*(?:-\s+)*$/.test(prefix.slice(0, match.index))) {
+        // Keys such as "$ref" are left to the schema completion
+        return undefined;
+    }
+    return lineStart + match.index;
+}
+
+function containsOffset(node: unknown, offset: number): boolean {
+    return isNode(node) && !!node.range && node.range[0] <= offset && offset <= node.range[1];
+}
+
+/**
+ * Runtime expressions valid where the cursor is: the inputs of its workflow, the outputs of the steps
+ * that ran before, components, source operations, and the request and response of the step's operation.
+ */
+export function getExpressionCompletions(text: string, offset: number, model: ArazzoModel, sources: LoadedSource[]): ArazzoCompletion[] {
+    const start = findExpressionStart(text, offset);
+    if (start === undefined) {
+        return [];
+    }
+    const workflow = model.workflows.find(w => containsOffset(w.node, offset));
+    const step = workflow?.steps.find(s => containsOffset(s.node, offset));
+    const afterStep = !step || step.node.items.some(pair =>
+        isScalar(pair.key) && AFTER_STEP_FIELDS.includes(String(pair.key.value)) && containsOffset(pair.value, offset));
+
+    const completions: ArazzoCompletion[] = [];
+    const add = (expression: string, detail: string) => {
+        if (!completions.some(c => c.label === expression)) {
+            completions.push({ label: expression, kind: 'expression', insertText: escapeSnippet(expression), start, detail });
+        }
+    };
+
+    add('$url', 'URL of the request');
+    add('$method', 'HTTP method of the request');
+    add('$statusCode', 'HTTP status code of the response');
+    add('$request.body', 'Request body');
+    add('$response.body', 'Response body');
+
+    for (const input of workflow?.inputs ?? []) {
+        add(`$inputs.${input.name}`, `Input of ${workflow!.name}`);
+    }
+    for (const previous of workflow?.steps ?? []) {
+        if (!step || previous.index < step.index || (afterStep && previous === step)) {
+            previous.outputs.forEach(output => add(`$steps.${previous.name}.outputs.${output.name}`, `Output of step ${previous.name}`));
+        }
+    }
+    for (const other of model.workflows) {
+        if (other !== workflow) {
+            other.outputs.forEach(output => add(`$workflows.${other.name}.outputs.${output.name}`, `Output of workflow ${other.name}`));
+        }
+    }
+    for (const section of COMPONENT_EXPRESSION_SECTIONS) {
+        model.components[section as ComponentSection].forEach(component => add(`$components.${section}.${component.name}`, 'Component'));
+    }
+
+    for (const source of sources) {
+        const name = source.description.name;
+        add(`$sourceDescriptions.${name}.url`, `URL of ${name}`);
+        if (!source.document) {
+            continue;
+        }
+        if (isOpenApiSource(source)) {
+            for (const operation of getOpenApiOperations(source.document)) {
+                if (operation.operationId) {
+                    add(`$sourceDescriptions.${name}.${operation.operationId}`, `${operation.method.toUpperCase()} ${operation.path}`);
+                }
+            }
+        } else {
+            buildArazzoModel(source.document.yamlDoc).workflows.forEach(w => add(`$sourceDescriptions.${name}.${w.name}`, 'Workflow'));
+        }
+    }
+
+    const resolution = step ? resolveStepOperation(step, sources) : undefined;
+    if (resolution?.status === 'resolved' && resolution.source.document) {
+        addOperationExpressions(resolution.source.document, resolution.operation, add);
+    }
+    return completions;
+}
+
+function addOperationExpressions(source: SourceDocument, operation: OpenApiOperation, add: (expression: string, detail: string) => void) {
+    const label = operation.operationId ?? `${operation.method.toUpperCase()} ${operation.path}`;
+    for (const parameter of getOperationParameters(source, operation)) {
+        if (parameter.in !== 'cookie') {
+            add(`$request.${parameter.in}.${parameter.name}`, `Parameter of ${label}`);
+        }
+    }
+    const requestBody = getOperationRequestBody(source, operation);
+    const requestType = requestBody?.contentTypes.find(isJsonMediaType);
+    if (requestBody && requestType) {
+        for (const pointer of listSchemaPointers(source, `${requestBody.pointer}/content${toJsonPointer([requestType])}/schema`)) {
+            add(`$request.body#${pointer}`, `Request body of ${label}`);
+        }
+    }
+    for (const response of getOperationResponses(source, operation)) {
+        const headers = response.node.get('headers', true);
+        if (isMap(headers)) {
+            headers.items.forEach(pair => isScalar(pair.key) && add(`$response.header.${pair.key.value}`, `${response.status} response of ${label}`));
+        }
+        const responseType = response.contentTypes.find(isJsonMediaType);
+        if (responseType) {
+            for (const pointer of listSchemaPointers(source, `${response.pointer}/content${toJsonPointer([responseType])}/schema`)) {
+                add(`$response.body#${pointer}`, `${response.status} response of ${label}`);
+            }
+        }
+    }
+}
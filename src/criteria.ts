@@ -0,0 +1,420 @@
+import { DOMParser } from '@xmldom/xmldom';
+import { JSONPath } from 'jsonpath-plus';
+import * as xpath from 'xpath';
+import { RuntimeState, evaluateExpressionText, stringifyValue } from './runtime';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Criteria
+// Evaluation of Criterion Objects: simple conditions, regular expressions, JSONPath and XPath
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export type CriterionType = 'simple' | 'regex' | 'jsonpath' | 'xpath';
+
+/**
+ * A Criterion Object as written in the document
+ */
+export interface Criterion {
+    condition: string;
+    context?: string;
+    /** A type name, or a Criterion Expression Type Object */
+    type?: string | { type: string; version?: string };
+}
+
+export interface CriterionResult {
+    condition: string;
+    type: CriterionType;
+    /** Version of the jsonpath and xpath types, the default one when the criterion names none */
+    version?: string;
+    passed: boolean;
+    /** Why the criterion passed or failed, e.g. "$statusCode == 200 is false: 404 == 200" */
+    explanation: string;
+    /** Value of the context expression, for the regex, jsonpath and xpath types */
+    context?: unknown;
+    /** Values a JSONPath selected, or the text of the nodes an XPath selected */
+    matches?: unknown[];
+    /** Why the criterion could not be evaluated */
+    error?: string;
+    /** Comparisons that did not hold, for a failed simple condition */
+    comparisons?: FailedComparison[];
+}
+
+/**
+ * A comparison of a simple condition that did not hold, e.g. "$statusCode == 200" with the status 404
+ */
+export interface FailedComparison {
+    /** The comparison as written */
+    text: string;
+    operator: string;
+    /** Value of the left operand */
+    actual: unknown;
+    /** Value of the right operand */
+    expected: unknown;
+}
+
+/** Supported versions of each type, the first being the default */
+const VERSIONS: Partial<Record<CriterionType, string[]>> = {
+    jsonpath: ['draft-goessner-dispatch-jsonpath-00'],
+    xpath: ['xpath-30', 'xpath-20', 'xpath-10']
+};
+
+/** How a jsonpath or xpath criterion evaluated */
+interface Evaluation {
+    passed: boolean;
+    explanation: string;
+    matches?: unknown[];
+}
+
+/** Values as shown in explanations, long ones cut */
+function describeValue(value: unknown): string {
+    const text = value === undefined ? 'undefined' : JSON.stringify(value) ?? String(value);
+    return text.length > 80 ? `${text.slice(0, 80)}…` : text;
+}
+
+function plural(count: number, word: string): string {
+    return `${count} ${word}${count === 1 ? '' : 's'}`;
+}
+
+/**
+ * Evaluates a criterion against the state of a run, explaining the outcome. Criteria that cannot
+ * be evaluated fail with an error rather than throwing.
+ */
+export function evaluateCriterion(criterion: Criterion, state: RuntimeState): CriterionResult {
+    const typeName = typeof criterion.type === 'object' ? criterion.type.type : criterion.type ?? 'simple';
+    const type = typeName as CriterionType;
+    const condition = criterion.condition;
+    const versions = VERSIONS[type];
+    const version = versions && (typeof criterion.type === 'object' ? criterion.type.version ?? versions[0] : versions[0]);
+    try {
+        if (type === 'simple') {
+            const comparisons: FailedComparison[] = [];
+            const value = evaluateCondition(condition, state, comparison => comparisons.push(comparison));
+            if (value) {
+                return { condition, type, passed: true, explanation: `${condition} is true` };
+            }
+            const explanation = comparisons.length > 0
+                ? comparisons.map(c => `${c.text} is false: ${describeValue(c.actual)} ${c.operator} ${describeValue(c.expected)}`).join('; ')
+                : `${condition} evaluates to ${describeValue(value)}`;
+            return { condition, type, passed: false, explanation, comparisons };
+        }
+        if (type !== 'regex' && type !== 'jsonpath' && type !== 'xpath') {
+            throw new Error(`Unsupported criterion type: ${typeName}`);
+        }
+        if (versions && !versions.includes(version!)) {
+            throw new Error(`Unsupported ${type} version: ${version}, expected one of ${versions.join(', ')}`);
+        }
+        if (!criterion.context) {
+            throw new Error(`A ${type} criterion requires a context`);
+        }
+        const context = evaluateExpressionText(criterion.context, state);
+        let evaluation: Evaluation;
+        switch (type) {
+            case 'regex': {
+                const passed = new RegExp(condition).test(stringifyValue(context));
+                evaluation = { passed, explanation: `${describeValue(stringifyValue(context))} ${passed ? 'matches' : 'does not match'} /${condition}/` };
+                break;
+            }
+            case 'jsonpath':
+                evaluation = evaluateJsonPath(condition, context);
+                break;
+            case 'xpath':
+                evaluation = evaluateXPath(condition, context, version!);
+                break;
+        }
+        return { condition, type, version, ...evaluation, context };
+    } catch (e) {
+        const error = e instanceof Error ? e.message : String(e);
+        return { condition, type, version, passed: false, explanation: error, error };
+    }
+}
+
+/**
+ * Whether every criterion passes; an empty list passes.
+ */
+export function evaluateCriteria(criteria: Criterion[], state: RuntimeState): { passed: boolean; results: CriterionResult[] } {
+    const results = criteria.map(criterion => evaluateCriterion(criterion, state));
+    return { passed: results.every(r => r.passed), results };
+}
+
+/**
+ * Goessner JSONPath (draft-goessner-dispatch-jsonpath-00): passes when the path selects a value.
+ */
+function evaluateJsonPath(path: string, context: unknown): Evaluation {
+    if (context === null || typeof context !== 'object') {
+        throw new Error('The context of a jsonpath criterion must be a JSON object or array');
+    }
+    const matches: unknown[] = JSONPath({ path, json: context, wrap: true });
+    return {
+        passed: matches.length > 0,
+        explanation: matches.length > 0 ? `${path} selects ${plural(matches.length, 'value')}` : `${path} selects nothing`,
+        matches
+    };
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// XPath
+// XPath 2.0 and 3.0 expressions are evaluated with the XPath 1.0 syntax, plus the functions
+// of the later versions conditions use the most.
+// ───────────────────────────────────────────────────────────────────────────────
+
+/** A value of the xpath module, which its typings leave out */
+interface XPathValue {
+    booleanValue(): boolean;
+    numberValue(): number;
+    stringValue(): string;
+    /** Only for node sets */
+    toArray?(): Node[];
+}
+
+type XPathFunction = (context: unknown, ...args: XPathValue[]) => string | number | boolean;
+
+const xpathEngine = xpath as unknown as {
+    parse(expression: string): { evaluate(options: { node: unknown; functions?: Record<string, XPathFunction> }): XPathValue };
+    XNumber: new (...args: never[]) => { num: number };
+    XBoolean: new (...args: never[]) => { b: boolean };
+};
+
+const XPATH_2_FUNCTIONS: Record<string, XPathFunction> = {
+    'lower-case': (_, value) => value.stringValue().toLowerCase(),
+    'upper-case': (_, value) => value.stringValue().toUpperCase(),
+    'ends-with': (_, value, suffix) => value.stringValue().endsWith(suffix.stringValue()),
+    'matches': (_, value, pattern, flags) => new RegExp(pattern.stringValue(), flags?.stringValue()).test(value.stringValue()),
+    'replace': (_, value, pattern, replacement, flags) =>
+        value.stringValue().replace(new RegExp(pattern.stringValue(), `g${flags?.stringValue() ?? ''}`), replacement.stringValue()),
+    'exists': (_, value) => value.toArray ? value.toArray().length > 0 : true,
+    'empty': (_, value) => value.toArray ? value.toArray().length === 0 : false,
+    'string-join': (_, values, separator) => (values.toArray?.() ?? []).map(node => node.textContent ?? '').join(separator?.stringValue() ?? ''),
+    'abs': (_, value) => Math.abs(value.numberValue())
+};
+
+function evaluateXPath(expression: string, context: unknown, version: string): Evaluation {
+    if (typeof context !== 'string') {
+        throw new Error('The context of an xpath criterion must be an XML document');
+    }
+    let error: string | undefined;
+    // Reported as the error of the criterion rather than logged to the console by the parser
+    const parser = new DOMParser({ onError: (level, message) => error ??= level === 'warning' ? undefined : message });
+    let document;
+    try {
+        document = parser.parseFromString(context, 'text/xml');
+    } catch {
+        error ??= 'unreadable document';
+    }
+    if (!document || error) {
+        throw new Error(`The context of an xpath criterion is not valid XML: ${error}`);
+    }
+    let parsed;
+    try {
+        parsed = xpathEngine.parse(expression);
+    } catch {
+        throw new Error(version === 'xpath-10'
+            ? `Invalid XPath expression: ${expression}`
+            : `Invalid XPath expression: ${expression}, ${version} conditions are limited to the XPath 1.0 syntax and the functions ${Object.keys(XPATH_2_FUNCTIONS).join(', ')}`);
+    }
+    const value = parsed.evaluate({ node: document, functions: version === 'xpath-10' ? undefined : XPATH_2_FUNCTIONS });
+    if (value.toArray) {
+        const matches = value.toArray().map(node => node.textContent ?? '');
+        return {
+            passed: matches.length > 0,
+            explanation: matches.length > 0 ? `${expression} selects ${plural(matches.length, 'node')}` : `${expression} selects nothing`,
+            matches
+        };
+    }
+    if (value instanceof xpathEngine.XNumber) {
+        const result = value.numberValue();
+        return { passed: result !== 0 && !Number.isNaN(result), explanation: `${expression} evaluates to ${result}` };
+    }
+    const passed = value.booleanValue();
+    return { passed, explanation: `${expression} evaluates to ${value instanceof xpathEngine.XBoolean ? passed : describeValue(value.stringValue())}` };
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Simple conditions
+//   condition  = or
+//   or         = and *( "||" and )
+//   and        = unary *( "&&" unary )
+//   unary      = "!" unary / comparison
+//   comparison = operand [ ( "==" / "!=" / "<" / "<=" / ">" / ">=" ) operand ]
+//   operand    = "(" or ")" / literal / runtime-expression
+// String comparisons are case insensitive, as the specification requires.
+// ───────────────────────────────────────────────────────────────────────────────
+
+const CONDITION_TOKEN = /\s*(?:('(?:[^']|'')*'|"[^"]*")|(==|!=|<=|>=|&&|\|\||[<>!()])|(\$[^\s=!<>()&|,]+)|([^\s=!<>()&|,'"]+))/y;
+
+type ConditionToken =
+    | { kind: 'string'; value: string }
+    | { kind: 'operator'; value: string }
+    | { kind: 'expression'; value: string }
+    | { kind: 'word'; value: string };
+
+/**
+ * Evaluates a simple condition, e.g. "$statusCode == 200 && $response.body#/status == 'available'".
+ * `onFailedComparison` is called for each comparison that does not hold.
+ */
+export function evaluateCondition(condition: string, state: RuntimeState, onFailedComparison?: (comparison: FailedComparison) => void): unknown {
+    const tokens = tokenizeCondition(condition);
+    let index = 0;
+    const peek = () => tokens[index];
+    const accept = (operator: string) => {
+        const token = tokens[index];
+        if (token?.kind === 'operator' && token.value === operator) {
+            index++;
+            return true;
+        }
+        return false;
+    };
+
+    const parseOr = (): unknown => {
+        let value = parseAnd();
+        while (accept('||')) {
+            const right = parseAnd();
+            value = Boolean(value) || Boolean(right);
+        }
+        return value;
+    };
+    const parseAnd = (): unknown => {
+        let value = parseUnary();
+        while (accept('&&')) {
+            const right = parseUnary();
+            value = Boolean(value) && Boolean(right);
+        }
+        return value;
+    };
+    const parseUnary = (): unknown => accept('!') ? !parseUnary() : parseComparison();
+    const parseComparison = (): unknown => {
+        const start = index;
+        const left = parseOperand();
+        const token = peek();
+        if (token?.kind === 'operator' && ['==', '!=', '<', '<=', '>', '>='].includes(token.value)) {
+            index++;
+            const right = parseOperand();
+            const holds = compare(left, token.value, right);
+            if (!holds) {
+                const text = tokens.slice(start, index).map(formatToken).join(' ');
+                onFailedComparison?.({ text, operator: token.value, actual: left, expected: right });
+            }
+            return holds;
+        }
+        return left;
+    };
+    const parseOperand = (): unknown => {
+        const token = tokens[index++];
+        if (!token) {
+            throw new Error(`Unexpected end of condition: ${condition}`);
+        }
+        switch (token.kind) {
+            case 'operator':
+                if (token.value === '(') {
+                    const value = parseOr();
+                    if (!accept(')')) {
+                        throw new Error(`Missing ")" in condition: ${condition}`);
+                    }
+                    return value;
+                }
+                throw new Error(`Unexpected "${token.value}" in condition: ${condition}`);
+            case 'string':
+                return token.value;
+            case 'expression':
+                return evaluateExpressionText(token.value, state);
+            case 'word':
+                return parseLiteral(token.value);
+        }
+    };
+
+    const value = parseOr();
+    if (index < tokens.length) {
+        throw new Error(`Unexpected "${tokens[index].value}" in condition: ${condition}`);
+    }
+    return value;
+}
+
+function tokenizeCondition(condition: string): ConditionToken[] {
+    const tokens: ConditionToken[] = [];
+    CONDITION_TOKEN.lastIndex = 0;
+    while (CONDITION_TOKEN.lastIndex < condition.length) {
+        if (condition.slice(CONDITION_TOKEN.lastIndex).trim() === '') {
+            break;
+        }
+        const match = CONDITION_TOKEN.exec(condition);
+        if (!match) {
+            throw new Error(`Invalid condition: ${condition}`);
+        }
+        if (match[1]) {
+            const value = match[1].slice(1, -1);
+            // Single quotes are escaped by doubling them
+            tokens.push({ kind: 'string', value: match[1].startsWith('\'') ? value.replace(/''/g, '\'') : value });
+        } else if (match[2]) {
+            tokens.push({ kind: 'operator', value: match[2] });
+        } else if (match[3]) {
+            tokens.push({ kind: 'expression', value: match[3] });
+        } else {
+            tokens.push({ kind: 'word', value: match[4] });
+        }
+    }
+    return tokens;
+}
+
+function formatToken(token: ConditionToken): string {
+    return token.kind === 'string' ? `'${token.value.replace(/'/g, '\'\'')}'` : token.value;
+}
+
+function parseLiteral(word: string): unknown {
+    switch (word) {
+        case 'true':
+            return true;
+        case 'false':
+            return false;
+        case 'null':
+            return null;
+    }
+    const number = Number(word);
+    // Unquoted words other than numbers are taken as strings
+    return Number.isNaN(number) ? word : number;
+}
+
+function compare(left: unknown, operator: string, right: unknown): boolean {
+    if (operator === '==' || operator === '!=') {
+        return looselyEqual(left, right) === (operator === '==');
+    }
+    const [a, b] = toComparable(left, right);
+    if (a === undefined || b === undefined) {
+        return false;
+    }
+    switch (operator) {
+        case '<':
+            return a < b;
+        case '<=':
+            return a <= b;
+        case '>':
+            return a > b;
+        default:
+            return a >= b;
+    }
+}
+
+/**
+ * Numbers when both sides are numeric, lower-case strings when both are strings
+ */
+function toComparable(left: unknown, right: unknown): [number, number] | [string, string] | [undefined, undefined] {
+    const numeric = (value: unknown) => typeof value === 'number' || (typeof value === 'string' && value.trim() !== '' && !Number.isNaN(Number(value)));
+    if (numeric(left) && numeric(right)) {
+        return [Number(left), Number(right)];
+    }
+    if (typeof left === 'string' && typeof right === 'string') {
+        return [left.toLowerCase(), right.toLowerCase()];
+    }
+    return [undefined, undefined];
+}
+
+function looselyEqual(left: unknown, right: unknown): boolean {
+    const [a, b] = toComparable(left, right);
+    if (a !== undefined) {
+        return a === b;
+    }
+    if (typeof left === 'boolean' || typeof right === 'boolean') {
+        return String(left).toLowerCase() === String(right).toLowerCase();
+    }
+    if ((left === undefined || left === null) && (right === undefined || right === null)) {
+        return true;
+    }
+    return JSON.stringify(left) === JSON.stringify(right);
+}
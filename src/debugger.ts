@@ -0,0 +1,440 @@
+import * as path from 'path';
+import { DebugProtocol } from '@vscode/debugprotocol';
+import { ArazzoModel, Declaration, buildArazzoModel, findStep, findWorkflow } from './model';
+import { getLineAndCharacter, getNodeOffsets } from './document';
+import { evaluateCondition } from './criteria';
+import { RuntimeState, evaluateExpressionText } from './runtime';
+import { RunListener, StepContext, runWorkflow } from './runner';
+import { SourceDocument, SourceDocumentCache } from './sources';
+import { EnvironmentProfile } from './environments';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Workflow debugger
+// A Debug Adapter Protocol session pausing a workflow run before its steps
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export interface ArazzoLaunchArguments extends DebugProtocol.LaunchRequestArguments {
+    /** Path of the Arazzo document */
+    document: string;
+    workflowId: string;
+    inputs?: Record<string, unknown>;
+    /** Base URLs by source description name, overriding the servers of the OpenAPI descriptions */
+    servers?: Record<string, string>;
+    stopOnEntry?: boolean;
+    /** Environment profile of the run, the active one by default */
+    environment?: string;
+}
+
+export interface DebugSessionOptions {
+    cache: SourceDocumentCache;
+    workspaceRoots?: string[];
+    /** Profile whose values apply under those of the launch configuration */
+    environment?: EnvironmentProfile;
+    fetch?: typeof fetch;
+}
+
+/** The run is single-threaded */
+const THREAD_ID = 1;
+
+/**
+ * A workflow on the call stack, with the step it is at once one has been reached
+ */
+interface Frame {
+    workflowId: string;
+    document?: SourceDocument;
+    stepId?: string;
+    state?: RuntimeState;
+}
+
+type StepMode = 'continue' | 'entry' | 'pause' | 'next' | 'in' | 'out';
+
+/** What a variablesReference expands to: the runtime state of a frame, or an object or array */
+type Handle = { frame: Frame } | { value: object };
+
+/**
+ * Handles the requests of a debug session over `send`, which receives its responses and events.
+ */
+export class ArazzoDebugSession {
+    private seq = 1;
+    private linesStartAt1 = true;
+    private columnsStartAt1 = true;
+    /** Zero-based lines of the steps holding a breakpoint, by document path */
+    private readonly breakpoints = new Map<string, Set<number>>();
+    private readonly models = new WeakMap<SourceDocument, ArazzoModel>();
+    private configured!: () => void;
+    private readonly configurationDone = new Promise<void>(resolve => this.configured = resolve);
+    private launch: ArazzoLaunchArguments | undefined;
+    private readonly abort = new AbortController();
+    private frames: Frame[] = [];
+    private mode: StepMode = 'continue';
+    /** Stack depth when stepping started */
+    private depth = 0;
+    private resume: (() => void) | undefined;
+    /** Values shown in the Variables view, by variablesReference, valid while paused */
+    private handles: Handle[] = [];
+
+    constructor(private readonly send: (message: DebugProtocol.ProtocolMessage) => void, private readonly options: DebugSessionOptions) {}
+
+    public handleMessage(message: DebugProtocol.ProtocolMessage) {
+        if (message.type !== 'request') {
+            return;
+        }
+        const request = message as DebugProtocol.Request;
+        try {
+            this.dispatch(request);
+        } catch (e) {
+            this.respond(request, undefined, e instanceof Error ? e.message : String(e));
+        }
+    }
+
+    public dispose() {
+        this.stop();
+    }
+
+    private dispatch(request: DebugProtocol.Request) {
+        const args = request.arguments ?? {};
+        switch (request.command) {
+            case 'initialize':
+                this.linesStartAt1 = args.linesStartAt1 !== false;
+                this.columnsStartAt1 = args.columnsStartAt1 !== false;
+                this.respond<DebugProtocol.Capabilities>(request, {
+                    supportsConfigurationDoneRequest: true,
+                    supportsEvaluateForHovers: true,
+                    supportsTerminateRequest: true
+                });
+                this.event('initialized');
+                return;
+            case 'setBreakpoints':
+                this.respond(request, this.setBreakpoints(args));
+                return;
+            case 'configurationDone':
+                this.configured();
+                this.respond(request);
+                return;
+            case 'launch':
+                this.start(request, args);
+                return;
+            case 'threads':
+                this.respond<DebugProtocol.ThreadsResponse['body']>(request, {
+                    threads: [{ id: THREAD_ID, name: this.launch?.workflowId ?? 'workflow' }]
+                });
+                return;
+            case 'stackTrace':
+                this.respond(request, this.stackTrace());
+                return;
+            case 'scopes':
+                this.respond<DebugProtocol.ScopesResponse['body']>(request, {
+                    scopes: [{ name: 'Runtime', variablesReference: this.handle({ frame: this.frameAt(args.frameId) }), expensive: false }]
+                });
+                return;
+            case 'variables':
+                this.respond(request, this.variables(args.variablesReference));
+                return;
+            case 'evaluate':
+                this.respond(request, this.evaluate(args));
+                return;
+            case 'continue':
+                this.continue('continue');
+                this.respond<DebugProtocol.ContinueResponse['body']>(request, { allThreadsContinued: true });
+                return;
+            case 'next':
+                this.continue('next');
+                this.respond(request);
+                return;
+            case 'stepIn':
+                this.continue('in');
+                this.respond(request);
+                return;
+            case 'stepOut':
+                this.continue('out');
+                this.respond(request);
+                return;
+            case 'pause':
+                this.mode = 'pause';
+                this.respond(request);
+                return;
+            case 'disconnect':
+            case 'terminate':
+                this.stop();
+                this.respond(request);
+                return;
+            default:
+                throw new Error(`Unsupported request: ${request.command}`);
+        }
+    }
+
+    // ─────────────────────────────────────────────────────────────────────────────
+    // Running
+    // ─────────────────────────────────────────────────────────────────────────────
+
+    private async start(request: DebugProtocol.Request, args: ArazzoLaunchArguments) {
+        const document = args.document ? this.options.cache.get(args.document) : undefined;
+        if (!document) {
+            this.respond(request, undefined, `Cannot read the Arazzo document ${args.document ?? ''}`);
+            return;
+        }
+        if (!args.workflowId) {
+            this.respond(request, undefined, 'The launch configuration has no workflowId');
+            return;
+        }
+        this.launch = args;
+        this.mode = args.stopOnEntry ? 'entry' : 'continue';
+        await this.configurationDone;
+        this.respond(request);
+
+        const listener: RunListener = {
+            onWorkflowStart: workflowId => this.frames.push({ workflowId, document: this.frames.length === 0 ? document : undefined }),
+            beforeStep: context => this.beforeStep(context),
+            onStepEnd: result => {
+                const response = result.response ? ` ${result.response.statusCode}` : '';
+                const error = result.error ? `: ${result.error}` : '';
+                this.output(`${result.workflowId} › ${result.stepId}${response} ${result.status}${error}\n`, result.status === 'passed' ? 'stdout' : 'stderr');
+            },
+            onWorkflowEnd: () => this.frames.pop()
+        };
+        const environment = this.options.environment;
+        try {
+            const result = await runWorkflow({
+                document,
+                cache: this.options.cache,
+                workspaceRoots: this.options.workspaceRoots,
+                workflowId: args.workflowId,
+                inputs: { ...environment?.inputs, ...args.inputs },
+                servers: { ...environment?.servers, ...args.servers },
+                headers: environment?.headers,
+                listener,
+                signal: this.abort.signal,
+                fetch: this.options.fetch
+            });
+            if (result.status === 'passed') {
+                this.output(`Workflow ${result.workflowId} passed, outputs: ${JSON.stringify(result.outputs, null, 2)}\n`, 'console');
+            } else {
+                this.output(`Workflow ${result.workflowId} failed: ${result.error ?? 'unknown error'}\n`, 'stderr');
+            }
+        } catch (e) {
+            this.output(`${e instanceof Error ? e.message : String(e)}\n`, 'stderr');
+        }
+        this.event('terminated');
+    }
+
+    private async beforeStep(context: StepContext) {
+        const frame = this.frames[this.frames.length - 1];
+        Object.assign(frame, { document: context.document, stepId: context.stepId, state: context.state });
+        if (this.abort.signal.aborted) {
+            return;
+        }
+        const reason = this.stopReason(context);
+        if (reason) {
+            await new Promise<void>(resolve => {
+                this.resume = resolve;
+                this.event<DebugProtocol.StoppedEvent['body']>('stopped', { reason, threadId: THREAD_ID, allThreadsStopped: true });
+            });
+        }
+    }
+
+    private stopReason(context: StepContext): string | undefined {
+        const line = this.stepLine(context.document, context.workflowId, context.stepId);
+        if (line !== undefined && this.breakpoints.get(context.document.path)?.has(line)) {
+            return 'breakpoint';
+        }
+        switch (this.mode) {
+            case 'entry':
+            case 'pause':
+                return this.mode;
+            case 'in':
+                return 'step';
+            case 'next':
+                return this.frames.length <= this.depth ? 'step' : undefined;
+            case 'out':
+                return this.frames.length < this.depth ? 'step' : undefined;
+            default:
+                return undefined;
+        }
+    }
+
+    private continue(mode: StepMode) {
+        this.mode = mode;
+        this.depth = this.frames.length;
+        this.handles = [];
+        const resume = this.resume;
+        this.resume = undefined;
+        resume?.();
+    }
+
+    private stop() {
+        this.abort.abort();
+        this.configured?.();
+        this.continue('continue');
+    }
+
+    // ─────────────────────────────────────────────────────────────────────────────
+    // Breakpoints and the call stack
+    // ─────────────────────────────────────────────────────────────────────────────
+
+    /**
+     * Breakpoints hold on steps: each one moves to the `stepId` of the step enclosing its line.
+     */
+    private setBreakpoints(args: DebugProtocol.SetBreakpointsArguments): DebugProtocol.SetBreakpointsResponse['body'] {
+        const filePath = args.source.path;
+        const document = filePath ? this.options.cache.get(filePath) : undefined;
+        const steps = document ? this.stepLines(document) : [];
+        const lines = new Set<number>();
+        const breakpoints = (args.breakpoints ?? []).map(breakpoint => {
+            const line = breakpoint.line - (this.linesStartAt1 ? 1 : 0);
+            const step = steps.find(s => line >= s.start && line <= s.end);
+            if (!step) {
+                return { verified: false, line: breakpoint.line, message: 'Breakpoints can only be set on steps' };
+            }
+            lines.add(step.line);
+            return { verified: true, line: step.line + (this.linesStartAt1 ? 1 : 0) };
+        });
+        if (filePath) {
+            this.breakpoints.set(filePath, lines);
+        }
+        return { breakpoints };
+    }
+
+    private stackTrace(): DebugProtocol.StackTraceResponse['body'] {
+        const stackFrames = this.frames.map((frame, index): DebugProtocol.StackFrame => {
+            const document = frame.document ?? this.options.cache.get(this.launch!.document);
+            const line = document && (frame.stepId
+                ? this.stepLine(document, frame.workflowId, frame.stepId)
+                : this.declarationLine(document, document && findWorkflow(this.model(document), frame.workflowId)));
+            return {
+                id: index + 1,
+                name: frame.stepId ? `${frame.workflowId} › ${frame.stepId}` : frame.workflowId,
+                source: document ? { name: path.basename(document.path), path: document.path } : undefined,
+                line: (line ?? 0) + (this.linesStartAt1 ? 1 : 0),
+                column: this.columnsStartAt1 ? 1 : 0
+            };
+        }).reverse();
+        return { stackFrames, totalFrames: stackFrames.length };
+    }
+
+    private frameAt(frameId: number): Frame {
+        const frame = this.frames[frameId - 1];
+        if (!frame) {
+            throw new Error(`Unknown frame: ${frameId}`);
+        }
+        return frame;
+    }
+
+    private model(document: SourceDocument): ArazzoModel {
+        let model = this.models.get(document);
+        if (!model) {
+            model = buildArazzoModel(document.yamlDoc);
+            this.models.set(document, model);
+        }
+        return model;
+    }
+
+    private stepLines(document: SourceDocument): { line: number; start: number; end: number }[] {
+        return this.model(document).workflows.flatMap(workflow => workflow.steps).map(step => {
+            const [start, , end] = step.node.range ?? [0, 0, 0];
+            // The range of a block map runs up to the next item, past its own line break
+            const text = document.text.slice(start, end).trimEnd();
+            return {
+                line: this.declarationLine(document, step)!,
+                start: getLineAndCharacter(document.text, start).line,
+                end: getLineAndCharacter(document.text, start + text.length).line
+            };
+        });
+    }
+
+    private stepLine(document: SourceDocument, workflowId: string, stepId: string): number | undefined {
+        const workflow = findWorkflow(this.model(document), workflowId);
+        return this.declarationLine(document, workflow && findStep(workflow, stepId));
+    }
+
+    private declarationLine(document: SourceDocument, declaration: Declaration | undefined): number | undefined {
+        return declaration && getLineAndCharacter(document.text, getNodeOffsets(declaration.nameNode)[0]).line;
+    }
+
+    // ─────────────────────────────────────────────────────────────────────────────
+    // Variables and the Debug Console
+    // ─────────────────────────────────────────────────────────────────────────────
+
+    private handle(handle: Handle): number {
+        this.handles.push(handle);
+        return this.handles.length;
+    }
+
+    private variables(reference: number): DebugProtocol.VariablesResponse['body'] {
+        const handle = this.handles[reference - 1];
+        let entries: [string, unknown][];
+        if (!handle) {
+            entries = [];
+        } else if ('frame' in handle) {
+            const state = handle.frame.state;
+            entries = state ? [
+                ['$inputs', state.inputs],
+                ['$steps', state.steps],
+                ['$workflows', state.workflows],
+                ['$statusCode', state.response?.statusCode],
+                ['$response', state.response && { header: state.response.headers, body: state.response.body }]
+            ] : [];
+        } else if (Array.isArray(handle.value)) {
+            entries = handle.value.map((item, index) => [String(index), item]);
+        } else {
+            entries = Object.entries(handle.value);
+        }
+        return { variables: entries.map(([name, item]) => ({ name, ...this.describe(item) })) };
+    }
+
+    private evaluate(args: DebugProtocol.EvaluateArguments): DebugProtocol.EvaluateResponse['body'] {
+        const state = args.frameId !== undefined ? this.frameAt(args.frameId).state : this.frames[this.frames.length - 1]?.state;
+        if (!state) {
+            throw new Error('Expressions can be evaluated once the run is paused on a step');
+        }
+        let value: unknown;
+        try {
+            value = evaluateExpressionText(args.expression, state);
+        } catch (e) {
+            // Also accept the conditions of simple criteria, e.g. "$statusCode == 200"
+            try {
+                value = evaluateCondition(args.expression, state);
+            } catch {
+                throw e;
+            }
+        }
+        const { value: result, variablesReference } = this.describe(value);
+        return { result, variablesReference };
+    }
+
+    private describe(value: unknown): { value: string; variablesReference: number } {
+        if (Array.isArray(value)) {
+            return { value: `Array(${value.length})`, variablesReference: value.length > 0 ? this.handle({ value }) : 0 };
+        }
+        if (value !== null && typeof value === 'object') {
+            const empty = Object.keys(value).length === 0;
+            return { value: empty ? '{}' : '{…}', variablesReference: empty ? 0 : this.handle({ value }) };
+        }
+        return { value: value === undefined ? 'undefined' : JSON.stringify(value), variablesReference: 0 };
+    }
+
+    // ─────────────────────────────────────────────────────────────────────────────
+    // Protocol messages
+    // ─────────────────────────────────────────────────────────────────────────────
+
+    private respond<T>(request: DebugProtocol.Request, body?: T, error?: string) {
+        const response: DebugProtocol.Response = {
+            seq: this.seq++,
+            type: 'response',
+            request_seq: request.seq,
+            command: request.command,
+            success: error === undefined,
+            message: error,
+            body
+        };
+        this.send(response);
+    }
+
+    private event<T>(event: string, body?: T) {
+        const message: DebugProtocol.Event = { seq: this.seq++, type: 'event', event, body };
+        this.send(message);
+    }
+
+    private output(output: string, category: 'console' | 'stdout' | 'stderr') {
+        this.event<DebugProtocol.OutputEvent['body']>('output', { category, output });
+    }
+}
@@ -0,0 +1,53 @@
+import { Document } from 'yaml';
+import { ArazzoFormat, ParsedArazzoDocument, parseArazzoDocument } from './document';
+import { validateExpressions } from './expression-validation';
+import { ArazzoModel, buildArazzoModel } from './model';
+import { validateOperations } from './operations';
+import { validateReferences } from './references';
+import { LoadedSource, SourceDocumentCache, loadSourceDescriptions } from './sources';
+import { ArazzoProblem, validateArazzo } from './validation';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Document checks
+// Every check of an Arazzo document, shared by the editor diagnostics and the CLI
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Problems of a parsed document: schema, references, runtime expressions and operations.
+ */
+export function collectProblems(text: string, yamlDoc: Document, model: ArazzoModel, sources: LoadedSource[]): ArazzoProblem[] {
+    return [
+        ...validateArazzo(yamlDoc),
+        ...validateReferences(yamlDoc, model),
+        ...validateExpressions(yamlDoc, text, model),
+        ...validateOperations(model, sources)
+    ];
+}
+
+/**
+ * Parses and checks a document, syntax errors included, loading its source descriptions through `cache`.
+ */
+export function checkArazzoDocument(
+    document: { path: string; text: string },
+    cache: SourceDocumentCache,
+    workspaceRoots: string[] = [],
+    format?: ArazzoFormat
+): ArazzoProblem[] {
+    const parsed = parseArazzoDocument(document.text, format);
+    const { yamlDoc, syntaxErrors } = parsed;
+    const problems: ArazzoProblem[] = syntaxErrors.map(error => ({ message: error.message, severity: 'error', start: error.start, end: error.end, code: 'syntax' }));
+    if (!hasStructure(parsed)) {
+        return problems;
+    }
+    const model = buildArazzoModel(yamlDoc);
+    const sources = loadSourceDescriptions(model, document.path, cache, workspaceRoots);
+    return [...problems, ...collectProblems(document.text, yamlDoc, model, sources)];
+}
+
+/**
+ * Whether the structure of a parsed document can be checked. Invalid JSON is still read by the YAML
+ * parser, e.g. with a trailing comma, and its checks would only repeat the syntax error as missing fields.
+ */
+export function hasStructure(parsed: ParsedArazzoDocument): boolean {
+    return parsed.format !== 'json' || parsed.syntaxErrors.length === 0;
+}
@@ -0,0 +1,127 @@
+import { parseDocument, Document, Node, Scalar, isMap, isNode, isScalar, isSeq } from 'yaml';
+
+/**
+ * Serialization formats an Arazzo description may use
+ */
+export type ArazzoFormat = 'yaml' | 'json';
+
+/**
+ * A syntax error located by character offsets in the source text
+ */
+export interface SyntaxProblem {
+    message: string;
+    start: number;
+    end: number;
+}
+
+export interface ParsedArazzoDocument {
+    format: ArazzoFormat;
+    /** YAML AST of the source. JSON is parsed as YAML too, so node ranges are JSON source offsets. */
+    yamlDoc: Document.Parsed;
+    syntaxErrors: SyntaxProblem[];
+}
+
+/**
+ * Guesses the format of an Arazzo source from its first significant character.
+ */
+export function detectFormat(text: string): ArazzoFormat {
+    return /^\s*[{[]/.test(text) ? 'json' : 'yaml';
+}
+
+/**
+ * Parses an Arazzo description written in YAML or JSON.
+ *
+ * JSON sources are parsed with the YAML parser as well (JSON being a subset of YAML 1.2), which keeps
+ * one AST shape for every provider. Syntax errors of JSON sources come from the JSON parser though,
+ * since YAML accepts things JSON does not (trailing commas, comments, unquoted strings).
+ */
+export function parseArazzoDocument(text: string, format: ArazzoFormat = detectFormat(text)): ParsedArazzoDocument {
+    const yamlDoc = parseDocument(text);
+
+    if (format === 'json') {
+        const jsonError = findJsonSyntaxError(text);
+        if (jsonError) {
+            return { format, yamlDoc, syntaxErrors: [jsonError] };
+        }
+    }
+
+    const syntaxErrors = yamlDoc.errors.map(error => ({
+        message: error.message,
+        start: error.pos[0],
+        end: error.pos[1]
+    }));
+    return { format, yamlDoc, syntaxErrors };
+}
+
+function findJsonSyntaxError(text: string): SyntaxProblem | undefined {
+    try {
+        JSON.parse(text);
+        return undefined;
+    } catch (e) {
+        const rawMessage = e instanceof Error ? e.message : String(e);
+        const match = /at position (\d+)/.exec(rawMessage);
+        const start = match ? Math.min(Number(match[1]), text.length) : text.length;
+        const message = rawMessage
+            .replace(/\s*\(line \d+ column \d+\)/, '')
+            .replace(/ in JSON at position \d+/, '');
+        return { message, start, end: Math.min(start + 1, text.length) };
+    }
+}
+
+/**
+ * Segment of a path into the document, a map key or a sequence index
+ */
+export type PathSegment = string | number;
+
+/**
+ * Returns the AST node found by following `path` from the document root.
+ */
+export function getNodeAtPath(yamlDoc: Document, path: PathSegment[]): Node | undefined {
+    let node: unknown = yamlDoc.contents;
+    for (const segment of path) {
+        if (isMap(node)) {
+            node = node.items.find(pair => isScalar(pair.key) && String(pair.key.value) === String(segment))?.value;
+        } else if (isSeq(node)) {
+            node = node.items[Number(segment)];
+        } else {
+            return undefined;
+        }
+    }
+    return isNode(node) ? node : undefined;
+}
+
+/**
+ * Returns the key node of the map entry found by following `path`, if the last segment is a map key.
+ */
+export function getKeyNodeAtPath(yamlDoc: Document, path: PathSegment[]): Scalar | undefined {
+    if (path.length === 0) {
+        return undefined;
+    }
+    const parent = getNodeAtPath(yamlDoc, path.slice(0, -1));
+    if (!isMap(parent)) {
+        return undefined;
+    }
+    const segment = String(path[path.length - 1]);
+    const pair = parent.items.find(p => isScalar(p.key) && String(p.key.value) === segment);
+    return pair && isScalar(pair.key) ? pair.key : undefined;
+}
+
+/**
+ * Source offsets of a node, excluding trailing comments and blank lines
+ */
+export function getNodeOffsets(node: Node | undefined): [number, number] {
+    const range = node?.range;
+    if (!range) {
+        return [0, 0];
+    }
+    return [range[0], range[1]];
+}
+
+/**
+ * Zero-based line and character of an offset, for texts that are not open in an editor
+ */
+export function getLineAndCharacter(text: string, offset: number): { line: number; character: number } {
+    const before = text.slice(0, offset);
+    const lineStart = before.lastIndexOf('\n') + 1;
+    return { line: before.split('\n').length - 1, character: offset - lineStart };
+}
@@ -0,0 +1,98 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// Environment profiles
+// Server URLs, headers and input defaults of workflow runs, kept out of the Arazzo documents
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export interface EnvironmentProfile {
+    /** Base URLs by source description name, overriding the servers of the OpenAPI descriptions */
+    servers: Record<string, string>;
+    /** Headers added to every request, e.g. for authentication */
+    headers: Record<string, string>;
+    /** Defaults of the workflow inputs */
+    inputs: Record<string, unknown>;
+    /** Values of the secrets a resolved profile holds, to keep them out of recordings */
+    secrets?: string[];
+}
+
+/** Placeholders replaced by the secrets of the profile, e.g. "Bearer ${secret:token}" */
+const SECRET_REFERENCE = /\$\{secret:([^}]+)\}/g;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function stringEntries(value: unknown): Record<string, string> {
+    const entries: Record<string, string> = {};
+    for (const [key, item] of Object.entries(isObject(value) ? value : {})) {
+        if (typeof item === 'string') {
+            entries[key] = item;
+        }
+    }
+    return entries;
+}
+
+/**
+ * Reads the profiles of a setting by name, ignoring the entries that do not have the expected shape.
+ */
+export function parseEnvironments(value: unknown): Record<string, EnvironmentProfile> {
+    const environments: Record<string, EnvironmentProfile> = {};
+    for (const [name, profile] of Object.entries(isObject(value) ? value : {})) {
+        if (isObject(profile)) {
+            environments[name] = {
+                servers: stringEntries(profile.servers),
+                headers: stringEntries(profile.headers),
+                inputs: isObject(profile.inputs) ? profile.inputs : {}
+            };
+        }
+    }
+    return environments;
+}
+
+/**
+ * Maps the strings of a value, recursing into arrays and objects.
+ */
+export function mapStrings(value: unknown, map: (text: string) => string): unknown {
+    if (typeof value === 'string') {
+        return map(value);
+    }
+    if (Array.isArray(value)) {
+        return value.map(item => mapStrings(item, map));
+    }
+    if (isObject(value)) {
+        return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, mapStrings(item, map)]));
+    }
+    return value;
+}
+
+/**
+ * Names of the secrets a profile references, in order of appearance.
+ */
+export function findSecretReferences(profile: EnvironmentProfile): string[] {
+    const names = new Set<string>();
+    mapStrings(profile, text => {
+        for (const match of text.matchAll(SECRET_REFERENCE)) {
+            names.add(match[1]);
+        }
+        return text;
+    });
+    return [...names];
+}
+
+/**
+ * Replaces the secret references of a profile with the secrets `getSecret` returns.
+ */
+export async function resolveEnvironment(
+    profile: EnvironmentProfile,
+    getSecret: (name: string) => PromiseLike<string | undefined> | string | undefined
+): Promise<EnvironmentProfile> {
+    const secrets = new Map<string, string>();
+    for (const name of findSecretReferences(profile)) {
+        const secret = await getSecret(name);
+        if (secret === undefined) {
+            throw new Error(`Secret ${name} is not set`);
+        }
+        secrets.set(name, secret);
+    }
+    const resolved = mapStrings(profile, text => text.replace(SECRET_REFERENCE, (_, name: string) => secrets.get(name)!)) as EnvironmentProfile;
+    return { ...resolved, secrets: [...secrets.values()] };
+}
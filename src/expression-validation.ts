@@ -0,0 +1,251 @@
+import { Document, Scalar, isMap, isScalar, isSeq } from 'yaml';
+import { ExpressionContext, ExpressionMatch, RuntimeExpression, scanExpressions } from './expressions';
+import { ArazzoModel, Declaration, StepModel, WorkflowModel, buildArazzoModel, findStep, findWorkflow, forEachMapItem } from './model';
+import { ArazzoProblem } from './validation';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Runtime expressions in a document
+// Locates every runtime expression of an Arazzo document and checks what it refers to
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * A runtime expression found in the document, with offsets into the source text
+ */
+export interface ExpressionOccurrence {
+    match: ExpressionMatch;
+    /** Scalar holding the expression */
+    node: Scalar;
+    /** Key of the field holding the expression, e.g. "value", "condition" or an output name */
+    field: string;
+    context: ExpressionContext;
+    workflow?: WorkflowModel;
+    /** Step the expression belongs to, if any */
+    step?: StepModel;
+    /** Whether the expression is evaluated after its step ran, so the step may refer to itself */
+    afterStep: boolean;
+}
+
+interface Scope {
+    workflow?: WorkflowModel;
+    step?: StepModel;
+    afterStep: boolean;
+}
+
+export function collectExpressions(yamlDoc: Document, text: string, model: ArazzoModel = buildArazzoModel(yamlDoc)): ExpressionOccurrence[] {
+    const occurrences: ExpressionOccurrence[] = [];
+
+    const visit = (node: unknown, field: string, context: ExpressionContext, scope: Scope) => {
+        if (!isScalar(node) || typeof node.value !== 'string' || !node.range) {
+            return;
+        }
+        const source = text.slice(node.range[0], node.range[1]);
+        let cursor = 0;
+        for (const match of scanExpressions(node.value, context)) {
+            // Quotes, escapes and folding shift the value against the source, so look the text up
+            const index = source.indexOf(match.text, cursor);
+            const start = index >= 0 ? node.range[0] + index : node.range[0];
+            const end = index >= 0 ? start + (match.end - match.start) : node.range[1];
+            if (index >= 0) {
+                cursor = index + match.text.length;
+            }
+            occurrences.push({ match: { ...match, start, end }, node, field, context, ...scope });
+        }
+    };
+
+    const visitPayload = (node: unknown, field: string, scope: Scope) => {
+        if (isMap(node)) {
+            node.items.forEach(pair => visitPayload(pair.value, isScalar(pair.key) ? String(pair.key.value) : field, scope));
+        } else if (isSeq(node)) {
+            node.items.forEach(item => visitPayload(item, field, scope));
+        } else {
+            visit(node, field, 'value', scope);
+        }
+    };
+
+    const visitMapValues = (node: unknown, context: ExpressionContext, scope: Scope) => {
+        if (isMap(node)) {
+            node.items.forEach(pair => visit(pair.value, isScalar(pair.key) ? String(pair.key.value) : '', context, scope));
+        }
+    };
+
+    const visitCriteria = (node: unknown, scope: Scope) => {
+        forEachMapItem(node, criterion => {
+            visit(criterion.get('context', true), 'context', 'expression', scope);
+            const type = criterion.get('type');
+            if (type === undefined || type === 'simple') {
+                visit(criterion.get('condition', true), 'condition', 'condition', scope);
+            }
+        });
+    };
+
+    const visitParameters = (node: unknown, scope: Scope) => {
+        forEachMapItem(node, parameter => {
+            visit(parameter.get('reference', true), 'reference', 'expression', scope);
+            visitPayload(parameter.get('value', true), 'value', scope);
+        });
+    };
+
+    const visitActions = (node: unknown, scope: Scope) => {
+        forEachMapItem(node, action => {
+            visit(action.get('reference', true), 'reference', 'expression', scope);
+            visitCriteria(action.get('criteria', true), scope);
+        });
+    };
+
+    for (const workflow of model.workflows) {
+        const workflowScope: Scope = { workflow, afterStep: true };
+        visitParameters(workflow.node.get('parameters', true), workflowScope);
+        visitActions(workflow.node.get('successActions', true), workflowScope);
+        visitActions(workflow.node.get('failureActions', true), workflowScope);
+        visitMapValues(workflow.node.get('outputs', true), 'expression', workflowScope);
+
+        for (const step of workflow.steps) {
+            const before: Scope = { workflow, step, afterStep: false };
+            const after: Scope = { workflow, step, afterStep: true };
+            visit(step.node.get('operationPath', true), 'operationPath', 'template', before);
+            visitParameters(step.node.get('parameters', true), before);
+            const requestBody = step.node.get('requestBody', true);
+            if (isMap(requestBody)) {
+                visitPayload(requestBody.get('payload', true), 'payload', before);
+                forEachMapItem(requestBody.get('replacements', true), replacement => {
+                    visitPayload(replacement.get('value', true), 'value', before);
+                });
+            }
+            visitCriteria(step.node.get('successCriteria', true), after);
+            visitActions(step.node.get('onSuccess', true), after);
+            visitActions(step.node.get('onFailure', true), after);
+            visitMapValues(step.node.get('outputs', true), 'expression', after);
+        }
+    }
+
+    const components = isMap(yamlDoc.contents) ? yamlDoc.contents.get('components', true) : undefined;
+    if (isMap(components)) {
+        const noScope: Scope = { afterStep: true };
+        const parameters = components.get('parameters', true);
+        if (isMap(parameters)) {
+            parameters.items.forEach(pair => {
+                if (isMap(pair.value)) {
+                    visitPayload(pair.value.get('value', true), 'value', noScope);
+                }
+            });
+        }
+        for (const section of ['successActions', 'failureActions']) {
+            const actions = components.get(section, true);
+            if (isMap(actions)) {
+                actions.items.forEach(pair => {
+                    if (isMap(pair.value)) {
+                        visitCriteria(pair.value.get('criteria', true), noScope);
+                    }
+                });
+            }
+        }
+    }
+
+    return occurrences.sort((a, b) => a.match.start - b.match.start);
+}
+
+/**
+ * Reports malformed runtime expressions and expressions referring to undeclared inputs,
+ * steps that do not run before the current one, and undeclared outputs.
+ */
+export function validateExpressions(yamlDoc: Document, text: string, model: ArazzoModel = buildArazzoModel(yamlDoc)): ArazzoProblem[] {
+    const problems: ArazzoProblem[] = [];
+
+    for (const occurrence of collectExpressions(yamlDoc, text, model)) {
+        const { match } = occurrence;
+        const report = (message: string, severity: ArazzoProblem['severity'], code: string) => {
+            problems.push({ message, severity, start: match.start, end: match.end, code });
+        };
+
+        if (match.issue) {
+            report(match.issue.message, match.issue.severity, 'invalid-expression');
+            if (match.issue.severity === 'error') {
+                continue;
+            }
+        }
+        if (match.expression) {
+            const message = checkExpressionTarget(match.expression, occurrence, model);
+            if (message) {
+                report(message, 'error', 'unresolved-expression');
+            }
+        }
+    }
+
+    return problems;
+}
+
+function checkExpressionTarget(expression: RuntimeExpression, occurrence: ExpressionOccurrence, model: ArazzoModel): string | undefined {
+    const { workflow, step } = occurrence;
+    const [first, , ...rest] = expression.path;
+    const memberName = rest.join('.');
+
+    switch (expression.source) {
+        case 'inputs': {
+            const inputs = workflow?.inputs;
+            if (workflow && inputs && !declares(inputs, expression.path.join('.'))) {
+                return `Input "${first}" is not declared in the inputs of workflow "${workflow.name}"`;
+            }
+            return undefined;
+        }
+
+        case 'steps': {
+            if (!workflow) {
+                return undefined;
+            }
+            const target = findStep(workflow, first);
+            if (!target) {
+                return `Unknown step: ${first}`;
+            }
+            if (step && (target.index > step.index || (target === step && !occurrence.afterStep))) {
+                return `Step "${first}" does not run before step "${step.name}"`;
+            }
+            if (memberName && !declares(target.outputs, memberName)) {
+                return `Step "${first}" does not declare output "${memberName}"`;
+            }
+            return undefined;
+        }
+
+        case 'workflows': {
+            const target = findWorkflow(model, first);
+            if (!target) {
+                return `Unknown workflow: ${first}`;
+            }
+            if (expression.path[1] === 'outputs' && memberName && !declares(target.outputs, memberName)) {
+                return `Workflow "${first}" does not declare output "${memberName}"`;
+            }
+            if (expression.path[1] === 'inputs' && memberName && target.inputs && !declares(target.inputs, memberName)) {
+                return `Input "${rest[0]}" is not declared in the inputs of workflow "${first}"`;
+            }
+            return undefined;
+        }
+
+        case 'sourceDescriptions':
+            if (!model.sourceDescriptions.some(s => s.name === first)) {
+                return `Unknown source description: ${first}`;
+            }
+            return undefined;
+
+        case 'components': {
+            // Reusable Object references are checked with the other cross-references
+            if (occurrence.field === 'reference') {
+                return undefined;
+            }
+            const section = model.components[first as keyof ArazzoModel['components']];
+            const name = expression.path.slice(1).join('.');
+            if (section && !declares(section, name)) {
+                return `Unknown component: ${expression.text}`;
+            }
+            return undefined;
+        }
+
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * Whether `name` ("a" or "a.b.c") starts with one of the declared names. Declared names may contain dots.
+ */
+function declares(declarations: Declaration[], name: string): boolean {
+    return declarations.some(d => name === d.name || name.startsWith(`${d.name}.`));
+}
@@ -0,0 +1,286 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// Runtime Expressions
+// Parser for the runtime expression ABNF of the Arazzo Specification (section 4.7)
+//
+//   expression = "$url" / "$method" / "$statusCode" / "$request." source / "$response." source
+//              / "$inputs." name / "$outputs." name / "$steps." name / "$workflows." name
+//              / "$sourceDescriptions." name / "$components." name
+//   source     = header-reference / query-reference / path-reference / body-reference
+//   body-reference = "body" ["#" json-pointer]
+//
+// Expressions may also be embedded in strings as "{$inputs.petId}".
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export const EXPRESSION_SOURCES = [
+    'url', 'method', 'statusCode', 'request', 'response', 'inputs', 'outputs',
+    'steps', 'workflows', 'sourceDescriptions', 'components'
+] as const;
+
+export type ExpressionSource = typeof EXPRESSION_SOURCES[number];
+
+export const MESSAGE_LOCATIONS = ['header', 'query', 'path', 'body'] as const;
+
+export type MessageLocation = typeof MESSAGE_LOCATIONS[number];
+
+export const COMPONENT_EXPRESSION_SECTIONS = ['inputs', 'parameters', 'successActions', 'failureActions'];
+
+export interface RuntimeExpression {
+    /** Expression text, e.g. "$steps.login.outputs.token" */
+    text: string;
+    source: ExpressionSource;
+    /** Dot-separated parts after the source, e.g. ["login", "outputs", "token"] */
+    path: string[];
+    /** JSON pointer following "#", e.g. "/id" */
+    pointer?: string;
+}
+
+export interface ExpressionIssue {
+    message: string;
+    severity: 'error' | 'warning';
+}
+
+export interface ParsedExpression {
+    expression?: RuntimeExpression;
+    issue?: ExpressionIssue;
+}
+
+/**
+ * A runtime expression found in a string, with offsets relative to that string
+ */
+export interface ExpressionMatch extends ParsedExpression {
+    text: string;
+    start: number;
+    end: number;
+    /** Whether the expression is embedded in surrounding text as "{$...}" */
+    embedded: boolean;
+}
+
+/**
+ * How a string holding runtime expressions is interpreted:
+ * - `expression`: the whole string must be a runtime expression (outputs, criterion context)
+ * - `value`: a literal, a runtime expression, or text with embedded "{$...}" expressions (parameter values, payloads)
+ * - `template`: text with embedded "{$...}" expressions (operationPath)
+ * - `condition`: a simple criterion condition, e.g. "$statusCode == 200 && $response.body#/ok == true"
+ */
+export type ExpressionContext = 'expression' | 'value' | 'template' | 'condition';
+
+const SOURCE_PATTERN = EXPRESSION_SOURCES.join('|');
+const BARE_EXPRESSION = new RegExp(`\\$(?:${SOURCE_PATTERN})(?![A-Za-z0-9_])[^\\s{}"']*`, 'g');
+const EMBEDDED_EXPRESSION = /\{(\$[^{}]*)\}/g;
+const TOKEN_CHARS = /^[!#$%&'*+\-.^_`|~0-9A-Za-z]+$/;
+
+export function isExpressionSource(value: string): value is ExpressionSource {
+    return (EXPRESSION_SOURCES as readonly string[]).includes(value);
+}
+
+/**
+ * Parses a single runtime expression such as "$response.body#/id".
+ */
+export function parseRuntimeExpression(text: string): ParsedExpression {
+    const error = (message: string): ParsedExpression => ({ issue: { message, severity: 'error' } });
+
+    const match = /^\$([A-Za-z]+)(.*)$/s.exec(text);
+    if (!match) {
+        return error(`Invalid runtime expression: ${text}`);
+    }
+    const source = match[1];
+    if (!isExpressionSource(source)) {
+        return error(`Unknown runtime expression: $${source}`);
+    }
+
+    let rest = match[2];
+    let pointer: string | undefined;
+    const hashIndex = rest.indexOf('#');
+    if (hashIndex >= 0) {
+        pointer = rest.slice(hashIndex + 1);
+        rest = rest.slice(0, hashIndex);
+        const pointerIssue = checkJsonPointer(pointer);
+        if (pointerIssue) {
+            return error(pointerIssue);
+        }
+    }
+
+    if (rest !== '' && !rest.startsWith('.')) {
+        return error(`Invalid runtime expression: ${text}`);
+    }
+    if ((source === 'request' || source === 'response') && /^\.body[.[]/.test(rest)) {
+        // Common shorthand, but not part of the ABNF: body members are addressed with a JSON pointer
+        const members = rest.slice('.body'.length).replace(/\[(\d+)\]/g, '.$1').split('.').filter(Boolean);
+        const expression: RuntimeExpression = { text, source, path: ['body', ...members], pointer };
+        const suggestion = `$${source}.body#/${members.join('/')}`;
+        return { expression, issue: { message: `Use a JSON pointer to address the body: ${suggestion}`, severity: 'warning' } };
+    }
+    const path = rest === '' ? [] : rest.slice(1).split('.');
+    const expression: RuntimeExpression = { text, source, path, pointer };
+    if (path.some(part => part === '')) {
+        return { expression, ...error(`Invalid runtime expression: ${text} contains an empty name`) };
+    }
+
+    switch (source) {
+        case 'url':
+        case 'method':
+        case 'statusCode':
+            if (path.length > 0 || pointer !== undefined) {
+                return { expression, ...error(`$${source} does not take a name or JSON pointer`) };
+            }
+            break;
+
+        case 'request':
+        case 'response': {
+            const location = path[0];
+            if (!location || !(MESSAGE_LOCATIONS as readonly string[]).includes(location)) {
+                return { expression, ...error(`$${source} must be followed by .header, .query, .path or .body`) };
+            }
+            if (location !== 'body') {
+                if (pointer !== undefined) {
+                    return { expression, ...error('A JSON pointer may only follow $request.body or $response.body') };
+                }
+                if (path.length < 2) {
+                    return { expression, ...error(`$${source}.${location} must be followed by a name`) };
+                }
+                if (location === 'header' && !TOKEN_CHARS.test(path.slice(1).join('.'))) {
+                    return { expression, ...error(`Invalid header name in ${text}`) };
+                }
+            }
+            break;
+        }
+
+        case 'inputs':
+        case 'outputs':
+            if (path.length === 0) {
+                return { expression, ...error(`$${source} must be followed by a name`) };
+            }
+            break;
+
+        case 'steps':
+            if (path.length < 2 || path[1] !== 'outputs') {
+                return { expression, ...error(`Expected $steps.<stepId>.outputs.<name>, got ${text}`) };
+            }
+            break;
+
+        case 'workflows':
+            if (path.length < 2 || (path[1] !== 'outputs' && path[1] !== 'inputs')) {
+                return { expression, ...error(`Expected $workflows.<workflowId>.outputs.<name>, got ${text}`) };
+            }
+            break;
+
+        case 'sourceDescriptions':
+            if (path.length === 0) {
+                return { expression, ...error('$sourceDescriptions must be followed by a source description name') };
+            }
+            break;
+
+        case 'components':
+            if (path.length < 2 || !COMPONENT_EXPRESSION_SECTIONS.includes(path[0])) {
+                return { expression, ...error(`Expected $components.<${COMPONENT_EXPRESSION_SECTIONS.join('|')}>.<name>, got ${text}`) };
+            }
+            break;
+    }
+
+    return { expression };
+}
+
+/**
+ * Finds the runtime expressions in a string, interpreted according to `context`.
+ */
+export function scanExpressions(text: string, context: ExpressionContext): ExpressionMatch[] {
+    switch (context) {
+        case 'expression':
+            return scanSingleExpression(text, true);
+        case 'value':
+            return /^\s*\$[A-Za-z]/.test(text) ? scanSingleExpression(text, false) : scanEmbeddedExpressions(text);
+        case 'template':
+            return scanEmbeddedExpressions(text);
+        case 'condition':
+            return scanConditionExpressions(text);
+    }
+}
+
+function scanSingleExpression(text: string, required: boolean): ExpressionMatch[] {
+    const start = text.length - text.trimStart().length;
+    const trimmed = text.trim();
+
+    const embedded = /^\{(\$[^{}]*)\}$/.exec(trimmed);
+    if (embedded) {
+        return [toMatch(embedded[1], start + 1, true)];
+    }
+    if (!trimmed.startsWith('$')) {
+        if (!required) {
+            return [];
+        }
+        return [{
+            text: trimmed, start, end: start + trimmed.length, embedded: false,
+            issue: { message: 'Expected a runtime expression, e.g. $response.body#/id', severity: 'error' }
+        }];
+    }
+
+    const tokenLength = /^\S*/.exec(trimmed)![0].length;
+    const match = toMatch(trimmed.slice(0, tokenLength), start, false);
+    if (tokenLength < trimmed.length && !match.issue) {
+        match.issue = {
+            message: 'A runtime expression value must not contain other text; embed it as "{$...}" instead',
+            severity: 'error'
+        };
+        match.end = start + trimmed.length;
+    }
+    return [match];
+}
+
+function scanEmbeddedExpressions(text: string): ExpressionMatch[] {
+    const matches: ExpressionMatch[] = [];
+    for (const m of text.matchAll(EMBEDDED_EXPRESSION)) {
+        matches.push(toMatch(m[1], m.index! + 1, true));
+    }
+    for (const m of text.matchAll(BARE_EXPRESSION)) {
+        const start = m.index!;
+        if (text[start - 1] === '{') {
+            continue;
+        }
+        const match = toMatch(m[0], start, false);
+        if (!match.issue) {
+            match.issue = { message: `Runtime expressions embedded in text must be wrapped in braces: {${m[0]}}`, severity: 'warning' };
+        }
+        matches.push(match);
+    }
+    return matches.sort((a, b) => a.start - b.start);
+}
+
+function scanConditionExpressions(text: string): ExpressionMatch[] {
+    const matches: ExpressionMatch[] = [];
+    let i = 0;
+    while (i < text.length) {
+        const char = text[i];
+        if (char === '\'' || char === '"') {
+            // Skip string literals
+            const close = text.indexOf(char, i + 1);
+            i = close < 0 ? text.length : close + 1;
+        } else if (char === '$' && /[A-Za-z]/.test(text[i + 1] ?? '')) {
+            const token = /^[^\s=!<>()&|,]+/.exec(text.slice(i))![0];
+            matches.push(toMatch(token, i, false));
+            i += token.length;
+        } else if (char === '{' && text[i + 1] === '$') {
+            const close = text.indexOf('}', i);
+            const end = close < 0 ? text.length : close;
+            matches.push(toMatch(text.slice(i + 1, end), i + 1, true));
+            i = end + 1;
+        } else {
+            i++;
+        }
+    }
+    return matches;
+}
+
+function toMatch(text: string, start: number, embedded: boolean): ExpressionMatch {
+    return { text, start, end: start + text.length, embedded, ...parseRuntimeExpression(text) };
+}
+
+function checkJsonPointer(pointer: string): string | undefined {
+    if (pointer !== '' && !pointer.startsWith('/')) {
+        return `JSON pointer must start with "/": #${pointer}`;
+    }
+    if (/~(?![01])/.test(pointer)) {
+        return `Invalid escape in JSON pointer: "~" must be followed by 0 or 1`;
+    }
+    return undefined;
+}
+
@@ -1,11 +1,38 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
-import { parseDocument, isMap, isSeq, isPair, isScalar, Scalar } from 'yaml';
+import { DebugProtocol } from '@vscode/debugprotocol';
+import { Document, isMap, isNode, isSeq, isPair, isScalar, parse, Scalar } from 'yaml';
+import { ARAZZO_SELECTOR, getDocumentFormat, isArazzoDocument, registerLanguageDetection } from './language';
+import { getLineAndCharacter, getNodeOffsets, parseArazzoDocument } from './document';
+import { ArazzoProblem } from './validation';
+import { collectProblems, hasStructure } from './diagnostics';
+import { ArazzoModel, Declaration, buildArazzoModel, findStep, findWorkflow } from './model';
+import { ArazzoCompletion, findExpressionStart, getCompletions, getExpressionCompletions } from './completion';
+import { getHover } from './hover';
+import { ArazzoCodeAction, getCodeActions } from './code-actions';
+import { SEMANTIC_TOKEN_MODIFIERS, SEMANTIC_TOKEN_TYPES, getSemanticTokens } from './semantic-tokens';
+import { resolveOperationId, resolveStepOperation } from './operations';
+import { SymbolOccurrence, checkNewName, collectSymbols, findDeclaration, findOccurrences, findSymbolAt } from './symbols';
+import { RunListener, WorkflowResult, runWorkflow } from './runner';
+import { ArazzoDebugSession } from './debugger';
+import { EnvironmentProfile } from './environments';
+import { Fixture, FixtureRecorder, createReplayFetch, getFixturePath, parseFixture } from './fixtures';
+import { collectMockRoutes } from './mock-server';
+import { resolveEnvironmentProfile, registerEnvironments } from './workspace-environments';
+import { applyMockServers, getRunningMocks, registerMockServers, startWorkspaceMock, stopWorkspaceMock } from './workspace-mocks';
+import { findReferencingDocuments, getWorkspaceRoots, loadDocumentSources, registerSourceWatcher, sourceCache, usesSourceDescriptions } from './workspace-sources';
+import { registerWorkflowTests } from './workspace-tests';
 
 export function activate(context: vscode.ExtensionContext) {
     console.log('Arazzo VSCode extension is active');
 
+    // Claim YAML/JSON documents that are Arazzo descriptions
+    registerLanguageDetection(context);
+
+    // Environment profiles of workflow runs, picked from the status bar
+    registerEnvironments(context);
+
     // Register the preview command
     context.subscriptions.push(
         vscode.commands.registerCommand('arazzo-vscode.openPreview', () => {
@@ -28,69 +55,195 @@ export function activate(context: vscode.ExtensionContext) {
         })
     );
 
+    // Targets of the CodeLens entries, taking the workflow (and step) to reveal
+    context.subscriptions.push(
+        vscode.commands.registerCommand('arazzo-vscode.openFlowchartAt', (uri: vscode.Uri, workflowId: string) => {
+            ArazzoFlowchartPanel.createOrShow(context.extensionUri, uri, workflowId);
+        }),
+        vscode.commands.registerCommand('arazzo-vscode.showInPreview', (uri: vscode.Uri, workflowId: string, stepId?: string) => {
+            ArazzoPreviewPanel.createOrShow(context.extensionUri, uri);
+            ArazzoPreviewPanel.scrollToStep(uri, stepId, workflowId);
+        }),
+        vscode.languages.registerCodeLensProvider(ARAZZO_SELECTOR, new ArazzoCodeLensProvider())
+    );
+
+    // Register the run commands, taking the document and workflow from the CodeLens entries
+    context.subscriptions.push(
+        vscode.commands.registerCommand('arazzo-vscode.runWorkflow', (uri?: vscode.Uri, workflowId?: string) =>
+            runWorkflowCommand(context.extensionUri, uri, workflowId)
+        ),
+        vscode.commands.registerCommand('arazzo-vscode.recordWorkflow', (uri?: vscode.Uri, workflowId?: string) =>
+            runWorkflowCommand(context.extensionUri, uri, workflowId, { kind: 'record' })
+        ),
+        vscode.commands.registerCommand('arazzo-vscode.replayWorkflow', (uri?: vscode.Uri, workflowId?: string) =>
+            replayWorkflowCommand(context.extensionUri, uri, workflowId)
+        )
+    );
+
+    // Mock servers answering the operations of a workflow, which its runs are then sent to
+    registerMockServers(context);
+    context.subscriptions.push(
+        vscode.commands.registerCommand('arazzo-vscode.startMockServer', startMockServerCommand),
+        vscode.commands.registerCommand('arazzo-vscode.stopMockServer', stopMockServerCommand)
+    );
+
+    // Debug workflows step by step, with breakpoints on steps
+    context.subscriptions.push(
+        vscode.debug.registerDebugConfigurationProvider('arazzo', new ArazzoDebugConfigurationProvider()),
+        vscode.debug.registerDebugAdapterDescriptorFactory('arazzo', {
+            createDebugAdapterDescriptor: async session => {
+                const environment = applyMockServers(
+                    session.configuration.document,
+                    await resolveEnvironmentProfile(session.configuration.environment)
+                );
+                return new vscode.DebugAdapterInlineImplementation(new ArazzoDebugAdapter(environment));
+            }
+        })
+    );
+
+    // Workflows and their steps in the Test Explorer
+    registerWorkflowTests(context);
+
     const symbolProvider = new YamlDocumentSymbolProvider();
     context.subscriptions.push(
-        vscode.languages.registerDocumentSymbolProvider({ language: 'yaml' }, symbolProvider)
+        vscode.languages.registerDocumentSymbolProvider(ARAZZO_SELECTOR, symbolProvider)
+    );
+
+    const definitionProvider = new ArazzoDefinitionProvider();
+    context.subscriptions.push(
+        vscode.languages.registerDefinitionProvider(ARAZZO_SELECTOR, definitionProvider)
+    );
+
+    context.subscriptions.push(
+        vscode.languages.registerReferenceProvider(ARAZZO_SELECTOR, new ArazzoReferenceProvider()),
+        vscode.languages.registerRenameProvider(ARAZZO_SELECTOR, new ArazzoRenameProvider())
+    );
+
+    context.subscriptions.push(
+        vscode.languages.registerHoverProvider(ARAZZO_SELECTOR, new ArazzoHoverProvider()),
+        vscode.languages.registerDocumentSemanticTokensProvider(ARAZZO_SELECTOR, new ArazzoSemanticTokensProvider(), SEMANTIC_TOKENS_LEGEND),
+        vscode.languages.registerCodeActionsProvider(ARAZZO_SELECTOR, new ArazzoCodeActionProvider(), {
+            providedCodeActionKinds: ArazzoCodeActionProvider.providedCodeActionKinds
+        })
     );
 
-    const completionProvider = new YamlCompletionItemProvider();
+    const completionProvider = new ArazzoCompletionItemProvider();
     context.subscriptions.push(
-        vscode.languages.registerCompletionItemProvider({ language: 'yaml' }, completionProvider, ':', ' ')
+        vscode.languages.registerCompletionItemProvider(ARAZZO_SELECTOR, completionProvider, ':', ' ', '$', '.', '#', '/')
     );
 
     const diagnosticCollection = vscode.languages.createDiagnosticCollection('arazzo-yaml');
     context.subscriptions.push(diagnosticCollection);
 
     const validate = (document: vscode.TextDocument) => {
-        if (document.languageId !== 'yaml') {
+        if (!isArazzoDocument(document)) {
             return;
         }
-        const yamlDoc = parseDocument(document.getText());
+        const text = document.getText();
+        const parsed = parseArazzoDocument(text, getDocumentFormat(document));
+        const { yamlDoc, syntaxErrors } = parsed;
         const diagnostics: vscode.Diagnostic[] = [];
         
-        for (const error of yamlDoc.errors) {
+        for (const error of syntaxErrors) {
             const range = new vscode.Range(
-                document.positionAt(error.pos[0]),
-                document.positionAt(error.pos[1])
+                document.positionAt(error.start),
+                document.positionAt(error.end)
             );
             diagnostics.push(new vscode.Diagnostic(range, error.message, vscode.DiagnosticSeverity.Error));
         }
 
-        if (yamlDoc.contents && isMap(yamlDoc.contents)) {
-            validateArazzo(yamlDoc.contents, document, diagnostics);
+        if (hasStructure(parsed)) {
+            const model = buildArazzoModel(yamlDoc);
+            const problems = collectProblems(text, yamlDoc, model, loadDocumentSources(document, model));
+            for (const problem of problems) {
+                diagnostics.push(toDiagnostic(problem, document));
+            }
         }
         
         diagnosticCollection.set(document.uri, diagnostics);
     };
 
     context.subscriptions.push(vscode.workspace.onDidOpenTextDocument(validate));
+    // Operations are resolved from the source descriptions, refresh when one of them changes
+    registerSourceWatcher(context, paths => vscode.workspace.textDocuments.forEach(document => {
+        if (isArazzoDocument(document) && usesSourceDescriptions(document, paths)) {
+            validate(document);
+            ArazzoPreviewPanel.update(document.uri);
+            ArazzoFlowchartPanel.update(document.uri);
+            ArazzoRunPanel.update(document.uri);
+        }
+    }));
+    context.subscriptions.push(vscode.workspace.onDidCloseTextDocument(document => {
+        // Also covers a document switching away from the Arazzo language
+        diagnosticCollection.delete(document.uri);
+    }));
     context.subscriptions.push(vscode.workspace.onDidChangeTextDocument(e => {
         validate(e.document);
-        if (e.document.languageId === 'yaml') {
+        if (isArazzoDocument(e.document)) {
             ArazzoPreviewPanel.update(e.document.uri);
             ArazzoFlowchartPanel.update(e.document.uri);
+            ArazzoRunPanel.update(e.document.uri);
         }
     }));
     
     // Listen for selection changes to auto-select workflow in flowchart
     context.subscriptions.push(vscode.window.onDidChangeTextEditorSelection(e => {
-        if (e.textEditor.document.languageId === 'yaml') {
+        if (isArazzoDocument(e.textEditor.document)) {
             detectAndSelectWorkflow(e.textEditor);
         }
     }));
 
     if (vscode.window.activeTextEditor) {
         validate(vscode.window.activeTextEditor.document);
-        if (vscode.window.activeTextEditor.document.languageId === 'yaml') {
+        if (isArazzoDocument(vscode.window.activeTextEditor.document)) {
             detectAndSelectWorkflow(vscode.window.activeTextEditor);
         }
     }
 }
 
+const SEVERITIES: Record<ArazzoProblem['severity'], vscode.DiagnosticSeverity> = {
+    error: vscode.DiagnosticSeverity.Error,
+    warning: vscode.DiagnosticSeverity.Warning,
+    information: vscode.DiagnosticSeverity.Information,
+    hint: vscode.DiagnosticSeverity.Hint
+};
+
+function toDiagnostic(problem: ArazzoProblem, document: vscode.TextDocument): vscode.Diagnostic {
+    const range = new vscode.Range(document.positionAt(problem.start), document.positionAt(problem.end));
+    const diagnostic = new vscode.Diagnostic(range, problem.message, SEVERITIES[problem.severity]);
+    diagnostic.code = problem.code;
+    diagnostic.source = 'arazzo';
+    return diagnostic;
+}
+
+/**
+ * Serializes a document for the webviews, adding to each step the OpenAPI operation it resolves to.
+ */
+function toWebviewSpec(document: vscode.TextDocument, yamlDoc: Document) {
+    const spec = yamlDoc.toJSON();
+    const model = buildArazzoModel(yamlDoc);
+    const sources = loadDocumentSources(document, model);
+    for (const workflow of Array.isArray(spec?.workflows) ? spec.workflows : []) {
+        const workflowModel = findWorkflow(model, workflow?.workflowId);
+        for (const step of Array.isArray(workflow?.steps) ? workflow.steps : []) {
+            const stepModel = workflowModel && findStep(workflowModel, step?.stepId);
+            const resolution = stepModel && resolveStepOperation(stepModel, sources);
+            if (resolution?.status === 'resolved') {
+                step.resolvedOperation = {
+                    method: resolution.operation.method.toUpperCase(),
+                    path: resolution.operation.path,
+                    sourceName: resolution.source.description.name,
+                    summary: resolution.operation.summary
+                };
+            }
+        }
+    }
+    return spec;
+}
+
 function detectAndSelectWorkflow(editor: vscode.TextEditor) {
     try {
-        const text = editor.document.getText();
-        const yamlDoc = parseDocument(text);
+        const { yamlDoc } = parseArazzoDocument(editor.document.getText(), getDocumentFormat(editor.document));
         const cursorLine = editor.selection.active.line;
         
         if (!yamlDoc.contents || !isMap(yamlDoc.contents)) {
@@ -133,6 +286,9 @@ class ArazzoPreviewPanel {
     private readonly _extensionUri: vscode.Uri;
     private readonly _resourceUri: vscode.Uri;
     private _disposables: vscode.Disposable[] = [];
+    private _ready = false;
+    // Scroll requested before the webview got its first spec
+    private _pendingScroll: { stepId?: string; workflowId: string } | undefined;
 
     private constructor(panel: vscode.WebviewPanel, extensionUri: vscode.Uri, resourceUri: vscode.Uri) {
         this._panel = panel;
@@ -151,7 +307,13 @@ class ArazzoPreviewPanel {
             message => {
                 switch (message.type) {
                     case 'ready':
-                        this._updateSpec();
+                        this._updateSpec().then(() => {
+                            this._ready = true;
+                            if (this._pendingScroll) {
+                                this._scrollTo(this._pendingScroll);
+                                this._pendingScroll = undefined;
+                            }
+                        });
                         return;
                     case 'alert':
                         vscode.window.showErrorMessage(message.text);
@@ -218,23 +380,32 @@ class ArazzoPreviewPanel {
         this._panel.webview.postMessage({ type: 'update', spec: spec });
     }
 
-    public static scrollToStep(resourceUri: vscode.Uri, stepId: string, workflowId: string) {
-        const key = resourceUri.toString();
-        if (ArazzoPreviewPanel.panels.has(key)) {
-            ArazzoPreviewPanel.panels.get(key)?._panel.webview.postMessage({ 
-                type: 'scroll-to-step', 
-                stepId: stepId, 
-                workflowId: workflowId 
-            });
+    /**
+     * Scrolls to a step, or to the workflow itself when `stepId` is undefined.
+     */
+    public static scrollToStep(resourceUri: vscode.Uri, stepId: string | undefined, workflowId: string) {
+        const panel = ArazzoPreviewPanel.panels.get(resourceUri.toString());
+        if (panel?._ready) {
+            panel._scrollTo({ stepId, workflowId });
+        } else if (panel) {
+            panel._pendingScroll = { stepId, workflowId };
         }
     }
 
+    private _scrollTo(target: { stepId?: string; workflowId: string }) {
+        this._panel.webview.postMessage({ 
+            type: 'scroll-to-step', 
+            stepId: target.stepId, 
+            workflowId: target.workflowId 
+        });
+    }
+
     private async _updateSpec() {
         try {
             const document = await vscode.workspace.openTextDocument(this._resourceUri);
-            const yamlDoc = parseDocument(document.getText());
+            const { yamlDoc } = parseArazzoDocument(document.getText(), getDocumentFormat(document));
             if (yamlDoc.contents && isMap(yamlDoc.contents)) {
-                this.sendSpec(yamlDoc.toJSON());
+                this.sendSpec(toWebviewSpec(document, yamlDoc));
             }
         } catch (e) {
             console.error('Error updating spec', e);
@@ -355,12 +526,16 @@ class ArazzoFlowchartPanel {
         );
     }
 
-    public static createOrShow(extensionUri: vscode.Uri, resourceUri: vscode.Uri) {
+    public static createOrShow(extensionUri: vscode.Uri, resourceUri: vscode.Uri, workflowId?: string) {
         const column = vscode.ViewColumn.Beside;
         const key = resourceUri.toString();
 
         if (ArazzoFlowchartPanel.panels.has(key)) {
-            ArazzoFlowchartPanel.panels.get(key)?._panel.reveal(column);
+            const existing = ArazzoFlowchartPanel.panels.get(key);
+            existing?._panel.reveal(column);
+            if (workflowId) {
+                existing?.selectWorkflow(workflowId);
+            }
             return;
         }
 
@@ -377,6 +552,8 @@ class ArazzoFlowchartPanel {
         );
 
         const flowchartPanel = new ArazzoFlowchartPanel(panel, extensionUri, resourceUri);
+        // Sent along with the first spec, once the webview is ready
+        flowchartPanel._currentWorkflowId = workflowId;
         ArazzoFlowchartPanel.panels.set(key, flowchartPanel);
     }
 
@@ -415,11 +592,11 @@ class ArazzoFlowchartPanel {
     private async _updateSpec() {
         try {
             const document = await vscode.workspace.openTextDocument(this._resourceUri);
-            const yamlDoc = parseDocument(document.getText());
+            const { yamlDoc } = parseArazzoDocument(document.getText(), getDocumentFormat(document));
             if (yamlDoc.contents && isMap(yamlDoc.contents)) {
                 this._panel.webview.postMessage({ 
                     type: 'update-flowchart', 
-                    spec: yamlDoc.toJSON(),
+                    spec: toWebviewSpec(document, yamlDoc),
                     workflowId: this._currentWorkflowId 
                 });
             }
@@ -429,41 +606,508 @@ class ArazzoFlowchartPanel {
     }
 
     private _update() {
-        const webview = this._panel.webview;
-        this._panel.webview.html = this._getHtmlForWebview(webview);
+        this._panel.webview.html = getWebviewHtml(this._panel.webview, this._extensionUri);
     }
+}
 
-    private _getHtmlForWebview(webview: vscode.Webview) {
-        // Reuse the same HTML generation logic as PreviewPanel
-        // We can refactor this to a shared helper function later
-        const buildPath = vscode.Uri.joinPath(this._extensionUri, 'webview-ui', 'build');
-        const indexHtmlPath = vscode.Uri.joinPath(buildPath, 'index.html');
+/**
+ * Where the requests of a run go: to the servers, to the servers while recording them in a fixture,
+ * or to the responses of a fixture
+ */
+type RunMode = { kind: 'run' } | { kind: 'record' } | { kind: 'replay'; fixture: Fixture };
 
-        let htmlContent = '';
+/**
+ * Manages the webview panels running a workflow, one per document and workflow
+ */
+class ArazzoRunPanel {
+    public static panels: Map<string, ArazzoRunPanel> = new Map();
+    private readonly _panel: vscode.WebviewPanel;
+    private readonly _resourceUri: vscode.Uri;
+    private readonly _workflowId: string;
+    private _disposables: vscode.Disposable[] = [];
+    /** Inputs loaded from a file, the run starts as soon as the webview is ready */
+    private _inputs: Record<string, unknown> | undefined;
+    private _mode: RunMode;
+    private _abort: AbortController | undefined;
+    private _disposed = false;
+
+    private constructor(panel: vscode.WebviewPanel, extensionUri: vscode.Uri, resourceUri: vscode.Uri, workflowId: string, inputs: Record<string, unknown> | undefined, mode: RunMode) {
+        this._panel = panel;
+        this._resourceUri = resourceUri;
+        this._workflowId = workflowId;
+        this._inputs = inputs;
+        this._mode = mode;
+
+        this._panel.webview.html = getWebviewHtml(this._panel.webview, extensionUri);
+        this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
+        this._panel.webview.onDidReceiveMessage(
+            message => {
+                switch (message.type) {
+                    case 'ready':
+                        this._init();
+                        return;
+                    case 'run':
+                        this._run(message.inputs ?? {});
+                        return;
+                    case 'cancel':
+                        this._abort?.abort();
+                        return;
+                    case 'alert':
+                        vscode.window.showErrorMessage(message.text);
+                        return;
+                }
+            },
+            null,
+            this._disposables
+        );
+    }
+
+    public static createOrShow(extensionUri: vscode.Uri, resourceUri: vscode.Uri, workflowId: string, inputs?: Record<string, unknown>, mode: RunMode = { kind: 'run' }) {
+        const column = vscode.ViewColumn.Beside;
+        const key = `${resourceUri.toString()}#${workflowId}`;
+
+        const existing = ArazzoRunPanel.panels.get(key);
+        if (existing) {
+            existing._panel.reveal(column);
+            if ((inputs || mode.kind !== existing._mode.kind || mode.kind === 'replay') && !existing._abort) {
+                existing._inputs = inputs;
+                existing._mode = mode;
+                existing._init();
+            }
+            return;
+        }
+
+        const panel = vscode.window.createWebviewPanel(
+            'arazzoRun',
+            `Run ${workflowId}`,
+            column,
+            {
+                enableScripts: true,
+                retainContextWhenHidden: true,
+                localResourceRoots: [
+                    vscode.Uri.joinPath(extensionUri, 'webview-ui', 'build')
+                ]
+            }
+        );
+        ArazzoRunPanel.panels.set(key, new ArazzoRunPanel(panel, extensionUri, resourceUri, workflowId, inputs, mode));
+    }
+
+    public static update(resourceUri: vscode.Uri) {
+        for (const panel of ArazzoRunPanel.panels.values()) {
+            if (panel._resourceUri.toString() === resourceUri.toString()) {
+                panel._updateSpec();
+            }
+        }
+    }
+
+    public dispose() {
+        this._disposed = true;
+        this._abort?.abort();
+        ArazzoRunPanel.panels.delete(`${this._resourceUri.toString()}#${this._workflowId}`);
+        this._panel.dispose();
+        while (this._disposables.length) {
+            const x = this._disposables.pop();
+            if (x) {
+                x.dispose();
+            }
+        }
+    }
+
+    private async _loadSpec() {
+        const document = await vscode.workspace.openTextDocument(this._resourceUri);
+        const { yamlDoc } = parseArazzoDocument(document.getText(), getDocumentFormat(document));
+        return yamlDoc.contents && isMap(yamlDoc.contents) ? toWebviewSpec(document, yamlDoc) : undefined;
+    }
+
+    private async _init() {
         try {
-            htmlContent = fs.readFileSync(indexHtmlPath.fsPath, 'utf8');
+            const spec = await this._loadSpec();
+            if (spec) {
+                this._post({
+                    type: 'run-init',
+                    spec,
+                    workflowId: this._workflowId,
+                    mode: this._mode.kind,
+                    inputs: this._inputs ?? {},
+                    autoStart: this._inputs !== undefined
+                });
+                this._inputs = undefined;
+            }
         } catch (e) {
-            return `Error loading webview`;
+            console.error('Error initializing run', e);
         }
+    }
 
-        const nonce = getNonce();
-        const cspMeta = `<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}' ${webview.cspSource}; font-src ${webview.cspSource}; img-src ${webview.cspSource} data:;">`;
-        htmlContent = htmlContent.replace('<head>', `<head>\n${cspMeta}`);
-        htmlContent = htmlContent.replace(/<script/g, `<script nonce="${nonce}"`);
+    private async _updateSpec() {
+        try {
+            const spec = await this._loadSpec();
+            if (spec) {
+                this._post({ type: 'update-run', spec });
+            }
+        } catch (e) {
+            console.error('Error updating spec', e);
+        }
+    }
 
-        const assetsUri = webview.asWebviewUri(buildPath);
-        htmlContent = htmlContent.replace(
-            /(src|href)="(?:\.|)\/assets\/([^"]+)"/g,
-            (match, attr, path) => {
-                const assetUri = vscode.Uri.joinPath(buildPath, 'assets', path);
-                return `${attr}="${webview.asWebviewUri(assetUri)}"`;
+    private async _run(inputs: Record<string, unknown>) {
+        if (this._abort) {
+            return;
+        }
+        const abort = this._abort = new AbortController();
+        const mode = this._mode;
+        const post = (event: object) => this._post({ type: 'run-event', event });
+        const listener: RunListener = {
+            onWorkflowStart: (workflowId, workflowInputs) => post({ kind: 'workflow-start', workflowId, inputs: workflowInputs }),
+            onStepStart: (workflowId, stepId) => post({ kind: 'step-start', workflowId, stepId }),
+            onStepEnd: result => post({ kind: 'step-end', result }),
+            onWorkflowEnd: result => post({ kind: 'workflow-end', result })
+        };
+
+        let result: WorkflowResult;
+        try {
+            const document = await vscode.workspace.openTextDocument(this._resourceUri);
+            const text = document.getText();
+            const { yamlDoc } = parseArazzoDocument(text, getDocumentFormat(document));
+            // Replays are offline and build their URLs from the servers of the recording
+            const environment = mode.kind === 'replay'
+                ? undefined
+                : applyMockServers(this._resourceUri.fsPath, await resolveEnvironmentProfile());
+            const servers = mode.kind === 'replay' ? mode.fixture.servers : environment?.servers;
+            const runInputs = { ...environment?.inputs, ...inputs };
+            const recorder = mode.kind === 'record'
+                ? new FixtureRecorder(undefined, { headers: Object.keys(environment?.headers ?? {}), secrets: environment?.secrets })
+                : undefined;
+            result = await runWorkflow({
+                document: { path: this._resourceUri.fsPath, text, yamlDoc },
+                cache: sourceCache,
+                workspaceRoots: getWorkspaceRoots(),
+                workflowId: this._workflowId,
+                inputs: runInputs,
+                servers,
+                headers: environment?.headers,
+                listener: recorder ? recorder.listen(listener) : listener,
+                signal: abort.signal,
+                fetch: recorder?.fetch ?? (mode.kind === 'replay' ? createReplayFetch(mode.fixture) : undefined)
+            });
+            if (recorder) {
+                this._saveFixture(recorder.toFixture({ workflowId: this._workflowId, inputs: runInputs, servers }, result));
             }
+        } catch (e) {
+            // The environment or the workflow could not be loaded, nothing ran
+            result = {
+                workflowId: this._workflowId,
+                status: 'failed',
+                inputs,
+                outputs: {},
+                steps: [],
+                skipped: [],
+                error: e instanceof Error ? e.message : String(e)
+            };
+        } finally {
+            this._abort = undefined;
+        }
+        post({ kind: 'run-end', result });
+    }
+
+    private async _saveFixture(fixture: Fixture) {
+        const fixturePath = getFixturePath(this._resourceUri.fsPath, this._workflowId);
+        try {
+            fs.writeFileSync(fixturePath, JSON.stringify(fixture, null, 2) + '\n');
+        } catch (e) {
+            vscode.window.showErrorMessage(`Cannot write ${path.basename(fixturePath)}: ${e instanceof Error ? e.message : String(e)}`);
+            return;
+        }
+        const open = 'Open';
+        const choice = await vscode.window.showInformationMessage(`Recorded ${fixture.exchanges.length} request(s) of ${this._workflowId} to ${path.basename(fixturePath)}`, open);
+        if (choice === open) {
+            vscode.window.showTextDocument(vscode.Uri.file(fixturePath));
+        }
+    }
+
+    private _post(message: object) {
+        if (!this._disposed) {
+            this._panel.webview.postMessage(message);
+        }
+    }
+}
+
+/**
+ * Runs a workflow of an Arazzo document, asking for the workflow and where its inputs come from
+ * when they are not given.
+ */
+async function runWorkflowCommand(extensionUri: vscode.Uri, uri?: vscode.Uri, workflowId?: string, mode?: RunMode) {
+    const document = uri ? await vscode.workspace.openTextDocument(uri) : vscode.window.activeTextEditor?.document;
+    if (!document || !isArazzoDocument(document)) {
+        vscode.window.showErrorMessage('No Arazzo document is open');
+        return;
+    }
+
+    const { yamlDoc } = parseArazzoDocument(document.getText(), getDocumentFormat(document));
+    const model = buildArazzoModel(yamlDoc);
+    workflowId ??= await pickWorkflowId(model, 'Select the workflow to run');
+    if (!workflowId) {
+        return;
+    }
+
+    let inputs: Record<string, unknown> | undefined;
+    if (findWorkflow(model, workflowId)?.node.has('inputs')) {
+        const fromFile = 'Load inputs from a file…';
+        const choice = await vscode.window.showQuickPick(['Enter inputs in a form', fromFile], { placeHolder: `Inputs of ${workflowId}` });
+        if (!choice) {
+            return;
+        }
+        if (choice === fromFile) {
+            inputs = await loadInputsFile(document.uri);
+            if (!inputs) {
+                return;
+            }
+        }
+    }
+
+    ArazzoRunPanel.createOrShow(extensionUri, document.uri, workflowId, inputs, mode);
+}
+
+/**
+ * Runs a workflow offline against its recorded fixture, asking for the fixture file when the workflow
+ * has none next to its document.
+ */
+async function replayWorkflowCommand(extensionUri: vscode.Uri, uri?: vscode.Uri, workflowId?: string) {
+    const document = uri ? await vscode.workspace.openTextDocument(uri) : vscode.window.activeTextEditor?.document;
+    if (!document || !isArazzoDocument(document)) {
+        vscode.window.showErrorMessage('No Arazzo document is open');
+        return;
+    }
+
+    const { yamlDoc } = parseArazzoDocument(document.getText(), getDocumentFormat(document));
+    workflowId ??= await pickWorkflowId(buildArazzoModel(yamlDoc), 'Select the workflow to replay');
+    if (!workflowId) {
+        return;
+    }
+
+    let fixturePath = getFixturePath(document.uri.fsPath, workflowId);
+    if (!fs.existsSync(fixturePath)) {
+        const [file] = await vscode.window.showOpenDialog({
+            canSelectMany: false,
+            defaultUri: vscode.Uri.file(path.dirname(fixturePath)),
+            filters: { 'Fixtures': ['json'] },
+            openLabel: 'Replay Fixture'
+        }) ?? [];
+        if (!file) {
+            return;
+        }
+        fixturePath = file.fsPath;
+    }
+
+    let fixture: Fixture;
+    try {
+        fixture = parseFixture(fs.readFileSync(fixturePath, 'utf8'));
+    } catch (e) {
+        vscode.window.showErrorMessage(`Cannot read ${path.basename(fixturePath)}: ${e instanceof Error ? e.message : String(e)}`);
+        return;
+    }
+    if (fixture.workflowId !== workflowId) {
+        vscode.window.showErrorMessage(`${path.basename(fixturePath)} was recorded for ${fixture.workflowId}, not ${workflowId}`);
+        return;
+    }
+
+    ArazzoRunPanel.createOrShow(extensionUri, document.uri, workflowId, fixture.inputs, { kind: 'replay', fixture });
+}
+
+/**
+ * Starts a mock server for a workflow, asking which steps should take their failure branch.
+ */
+async function startMockServerCommand(uri?: vscode.Uri, workflowId?: string) {
+    const document = uri ? await vscode.workspace.openTextDocument(uri) : vscode.window.activeTextEditor?.document;
+    if (!document || !isArazzoDocument(document)) {
+        vscode.window.showErrorMessage('No Arazzo document is open');
+        return;
+    }
+
+    const text = document.getText();
+    const { yamlDoc } = parseArazzoDocument(text, getDocumentFormat(document));
+    workflowId ??= await pickWorkflowId(buildArazzoModel(yamlDoc), 'Select the workflow to mock');
+    if (!workflowId) {
+        return;
+    }
+    const sourceDocument = { path: document.uri.fsPath, text, yamlDoc };
+    const routes = collectMockRoutes({ document: sourceDocument, cache: sourceCache, workspaceRoots: getWorkspaceRoots(), workflowId });
+    if (routes.length === 0) {
+        vscode.window.showErrorMessage(`No operation of ${workflowId} could be found in its OpenAPI sources`);
+        return;
+    }
+
+    const steps = routes.flatMap(route => route.steps.map(step => ({
+        label: step.stepId,
+        description: step.workflowId,
+        detail: `${route.operation.method.toUpperCase()} ${route.operation.path}`
+    })));
+    const failing = await vscode.window.showQuickPick(steps, {
+        canPickMany: true,
+        placeHolder: 'Select the steps whose operation should fail, none to pass them all'
+    });
+    if (!failing) {
+        return;
+    }
+
+    try {
+        const overrides = Object.fromEntries(failing.map(step => [step.label, { fail: true }]));
+        const server = await startWorkspaceMock(sourceDocument, workflowId, overrides);
+        const stop = 'Stop';
+        const choice = await vscode.window.showInformationMessage(`Mock server of ${workflowId} listening on ${server.url}, runs of ${path.basename(document.uri.fsPath)} are sent to it`, stop);
+        if (choice === stop) {
+            await stopWorkspaceMock(sourceDocument.path);
+        }
+    } catch (e) {
+        vscode.window.showErrorMessage(`Cannot start the mock server: ${e instanceof Error ? e.message : String(e)}`);
+    }
+}
+
+async function stopMockServerCommand() {
+    const running = getRunningMocks();
+    if (running.length === 0) {
+        vscode.window.showInformationMessage('No Arazzo mock server is running');
+        return;
+    }
+    const choice = running.length === 1 ? running[0] : (await vscode.window.showQuickPick(
+        running.map(mock => ({ label: mock.workflowId, description: mock.url, detail: mock.documentPath, mock })),
+        { placeHolder: 'Select the mock server to stop' }
+    ))?.mock;
+    if (choice) {
+        await stopWorkspaceMock(choice.documentPath);
+    }
+}
+
+/**
+ * Asks for the workflow of a document to run when it declares more than one.
+ */
+async function pickWorkflowId(model: ArazzoModel, placeHolder: string): Promise<string | undefined> {
+    const workflowIds = model.workflows.map(workflow => workflow.name);
+    if (workflowIds.length === 0) {
+        vscode.window.showErrorMessage('The document declares no workflows');
+        return undefined;
+    }
+    return workflowIds.length === 1 ? workflowIds[0] : vscode.window.showQuickPick(workflowIds, { placeHolder });
+}
+
+/**
+ * Completes launch configurations from the active editor, so a workflow can be debugged without a launch.json
+ */
+class ArazzoDebugConfigurationProvider implements vscode.DebugConfigurationProvider {
+    async resolveDebugConfiguration(folder: vscode.WorkspaceFolder | undefined, config: vscode.DebugConfiguration): Promise<vscode.DebugConfiguration | undefined> {
+        const editor = vscode.window.activeTextEditor;
+        const active = editor && isArazzoDocument(editor.document) ? editor.document : undefined;
+        if (!config.type && !config.request && !config.name) {
+            if (!active) {
+                vscode.window.showErrorMessage('No Arazzo document is open');
+                return undefined;
+            }
+            Object.assign(config, { type: 'arazzo', request: 'launch', name: 'Debug Arazzo Workflow', stopOnEntry: true });
+        }
+        if (!config.document) {
+            if (!active) {
+                vscode.window.showErrorMessage('The launch configuration has no Arazzo document');
+                return undefined;
+            }
+            config.document = active.uri.fsPath;
+        }
+        return config;
+    }
+
+    async resolveDebugConfigurationWithSubstitutedVariables(folder: vscode.WorkspaceFolder | undefined, config: vscode.DebugConfiguration): Promise<vscode.DebugConfiguration | undefined> {
+        // `${file}` is only substituted at this point
+        if (!config.workflowId) {
+            const document = await vscode.workspace.openTextDocument(vscode.Uri.file(config.document));
+            const { yamlDoc } = parseArazzoDocument(document.getText(), getDocumentFormat(document));
+            config.workflowId = await pickWorkflowId(buildArazzoModel(yamlDoc), 'Select the workflow to debug');
+            if (!config.workflowId) {
+                return undefined;
+            }
+        }
+        return config;
+    }
+}
+
+/**
+ * Runs the debug sessions in the extension host, where the documents and sources are at hand
+ */
+class ArazzoDebugAdapter implements vscode.DebugAdapter {
+    private readonly _onDidSendMessage = new vscode.EventEmitter<vscode.DebugProtocolMessage>();
+    readonly onDidSendMessage = this._onDidSendMessage.event;
+    private readonly _session: ArazzoDebugSession;
+
+    constructor(environment: EnvironmentProfile | undefined) {
+        this._session = new ArazzoDebugSession(
+            message => this._onDidSendMessage.fire(message),
+            { cache: sourceCache, workspaceRoots: getWorkspaceRoots(), environment }
         );
+    }
 
-        return htmlContent;
+    handleMessage(message: vscode.DebugProtocolMessage) {
+        this._session.handleMessage(message as DebugProtocol.ProtocolMessage);
+    }
+
+    dispose() {
+        this._session.dispose();
+        this._onDidSendMessage.dispose();
     }
 }
 
+/**
+ * Reads the inputs of a run from a JSON or YAML file picked by the user.
+ */
+async function loadInputsFile(documentUri: vscode.Uri): Promise<Record<string, unknown> | undefined> {
+    const [file] = await vscode.window.showOpenDialog({
+        canSelectMany: false,
+        defaultUri: documentUri.scheme === 'file' ? vscode.Uri.file(path.dirname(documentUri.fsPath)) : undefined,
+        filters: { 'Inputs': ['json', 'yaml', 'yml'] },
+        openLabel: 'Load Inputs'
+    }) ?? [];
+    if (!file) {
+        return undefined;
+    }
+    try {
+        const inputs = parse(fs.readFileSync(file.fsPath, 'utf8'));
+        if (inputs === null || typeof inputs !== 'object' || Array.isArray(inputs)) {
+            vscode.window.showErrorMessage(`${path.basename(file.fsPath)} does not contain an object of inputs`);
+            return undefined;
+        }
+        return inputs;
+    } catch (e) {
+        vscode.window.showErrorMessage(`Cannot read ${path.basename(file.fsPath)}: ${e instanceof Error ? e.message : String(e)}`);
+        return undefined;
+    }
+}
+
+/**
+ * Loads the webview build, pointing its assets at webview URIs under a nonce-based CSP.
+ */
+function getWebviewHtml(webview: vscode.Webview, extensionUri: vscode.Uri) {
+    const buildPath = vscode.Uri.joinPath(extensionUri, 'webview-ui', 'build');
+    const indexHtmlPath = vscode.Uri.joinPath(buildPath, 'index.html');
+
+    let htmlContent = '';
+    try {
+        htmlContent = fs.readFileSync(indexHtmlPath.fsPath, 'utf8');
+    } catch (e) {
+        return `Error loading webview`;
+    }
+
+    const nonce = getNonce();
+    const cspMeta = `<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}' ${webview.cspSource}; font-src ${webview.cspSource}; img-src ${webview.cspSource} data:;">`;
+    htmlContent = htmlContent.replace('<head>', `<head>\n${cspMeta}`);
+    htmlContent = htmlContent.replace(/<script/g, `<script nonce="${nonce}"`);
+
+    htmlContent = htmlContent.replace(
+        /(src|href)="(?:\.|)\/assets\/([^"]+)"/g,
+        (match, attr, path) => {
+            const assetUri = vscode.Uri.joinPath(buildPath, 'assets', path);
+            return `${attr}="${webview.asWebviewUri(assetUri)}"`;
+        }
+    );
+
+    return htmlContent;
+}
+
 function getNonce() {
     let text = '';
     const possible = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
@@ -475,13 +1119,12 @@ function getNonce() {
 
 class YamlDocumentSymbolProvider implements vscode.DocumentSymbolProvider {
     provideDocumentSymbols(document: vscode.TextDocument, token: vscode.CancellationToken): vscode.DocumentSymbol[] {
-        const text = document.getText();
         try {
-            const yamlDoc = parseDocument(text);
+            const { yamlDoc, syntaxErrors } = parseArazzoDocument(document.getText(), getDocumentFormat(document));
             
-            if (yamlDoc.errors.length > 0) {
+            if (syntaxErrors.length > 0) {
                 // Avoid logging complex objects to console to prevent TreeError in DebugRepl
-                console.warn(`Arazzo VSCode: ${yamlDoc.errors.length} YAML Syntax Errors found.`);
+                console.warn(`Arazzo VSCode: ${syntaxErrors.length} Syntax Errors found.`);
             }
 
             if (!yamlDoc.contents) {
@@ -640,109 +1283,318 @@ class YamlDocumentSymbolProvider implements vscode.DocumentSymbolProvider {
     }
 }
 
-class YamlCompletionItemProvider implements vscode.CompletionItemProvider {
-    provideCompletionItems(document: vscode.TextDocument, position: vscode.Position, token: vscode.CancellationToken): vscode.ProviderResult<vscode.CompletionItem[]> {
-        const linePrefix = document.lineAt(position).text.substr(0, position.character);
-        if (!linePrefix.endsWith(': ')) {
+class ArazzoDefinitionProvider implements vscode.DefinitionProvider {
+    async provideDefinition(document: vscode.TextDocument, position: vscode.Position): Promise<vscode.Location | undefined> {
+        const text = document.getText();
+        const { yamlDoc } = parseArazzoDocument(text, getDocumentFormat(document));
+        const model = buildArazzoModel(yamlDoc);
+        const occurrences = collectSymbols(yamlDoc, text, model);
+        const occurrence = findSymbolAt(occurrences, document.offsetAt(position));
+        if (!occurrence) {
             return undefined;
         }
+        const { symbol } = occurrence;
 
-        return [
-            new vscode.CompletionItem('true', vscode.CompletionItemKind.Keyword),
-            new vscode.CompletionItem('false', vscode.CompletionItemKind.Keyword),
-            new vscode.CompletionItem('null', vscode.CompletionItemKind.Keyword),
-        ];
+        // Operations are declared in the OpenAPI source
+        if (symbol.kind === 'operation') {
+            const resolution = resolveOperationId(symbol.name, loadDocumentSources(document, model));
+            if (resolution.status !== 'resolved') {
+                return undefined;
+            }
+            const { operation, source } = resolution;
+            return toLocation(source.document!.path, operation.node.get('operationId', true) ?? operation.node);
+        }
+
+        // Workflows of another Arazzo source
+        if (symbol.kind === 'workflow' && symbol.source) {
+            const source = loadDocumentSources(document, model).find(s => s.description.name === symbol.source);
+            const workflow = source?.document && findWorkflow(buildArazzoModel(source.document.yamlDoc), symbol.name);
+            return workflow ? toLocation(source!.document!.path, workflow.nameNode) : undefined;
+        }
+
+        const declaration = findDeclaration(occurrences, symbol);
+        if (!declaration) {
+            return undefined;
+        }
+        const range = new vscode.Range(document.positionAt(declaration.start), document.positionAt(declaration.end));
+        return new vscode.Location(document.uri, range);
     }
 }
 
-export function deactivate() {}
+/**
+ * Location of a node of a file loaded as a source description
+ */
+async function toLocation(filePath: string, node: unknown): Promise<vscode.Location | undefined> {
+    if (!isNode(node)) {
+        return undefined;
+    }
+    const [start, end] = getNodeOffsets(node);
+    const document = await vscode.workspace.openTextDocument(vscode.Uri.file(filePath));
+    return new vscode.Location(document.uri, new vscode.Range(document.positionAt(start), document.positionAt(end)));
+}
 
-function validateArazzo(root: any, document: vscode.TextDocument, diagnostics: vscode.Diagnostic[]) {
-    const requiredRoot = ['arazzo', 'info', 'sourceDescriptions', 'workflows'];
-    checkRequired(root, requiredRoot, document, diagnostics);
+interface SymbolLocation {
+    location: vscode.Location;
+    declaration: boolean;
+}
 
-    const info = root.get('info', true);
-    if (info && isMap(info)) {
-        checkRequired(info, ['title', 'version'], document, diagnostics);
+/**
+ * Finds the occurrences of the symbol at `position`, in the document, in the document declaring it
+ * and in the Arazzo documents pointing at that one through an `arazzo` source description.
+ */
+async function findSymbolLocations(document: vscode.TextDocument, position: vscode.Position): Promise<SymbolLocation[] | undefined> {
+    const text = document.getText();
+    const { yamlDoc } = parseArazzoDocument(text, getDocumentFormat(document));
+    const model = buildArazzoModel(yamlDoc);
+    const occurrences = collectSymbols(yamlDoc, text, model);
+    const occurrence = findSymbolAt(occurrences, document.offsetAt(position));
+    if (!occurrence) {
+        return undefined;
     }
 
-    const sourceDescriptions = root.get('sourceDescriptions', true);
-    if (sourceDescriptions) {
-        if (isSeq(sourceDescriptions)) {
-            if (sourceDescriptions.items.length === 0) {
-                addDiagnostic(sourceDescriptions, 'sourceDescriptions must have at least one entry', document, diagnostics);
-            }
-            sourceDescriptions.items.forEach((item: any) => {
-                if (isMap(item)) {
-                    checkRequired(item, ['name', 'url'], document, diagnostics);
-                    const type = item.get('type', true);
-                    if (type && isScalar(type)) {
-                        const val = String(type.value);
-                        if (val !== 'openapi' && val !== 'arazzo') {
-                            addDiagnostic(type, 'Type must be "openapi" or "arazzo"', document, diagnostics);
-                        }
-                    }
-                }
-            });
-        } else {
-            addDiagnostic(sourceDescriptions, 'sourceDescriptions must be an array', document, diagnostics);
+    const locations: SymbolLocation[] = [];
+    const add = (uri: vscode.Uri, sourceText: string, found: SymbolOccurrence[]) => {
+        for (const o of found) {
+            const start = getLineAndCharacter(sourceText, o.start);
+            const end = getLineAndCharacter(sourceText, o.end);
+            const range = new vscode.Range(start.line, start.character, end.line, end.character);
+            locations.push({ location: new vscode.Location(uri, range), declaration: o.declaration });
         }
+    };
+
+    let symbol = occurrence.symbol;
+    let declaringPath = document.uri.scheme === 'file' ? document.uri.fsPath : undefined;
+    const source = (symbol.kind === 'workflow' || symbol.kind === 'input') ? symbol.source : undefined;
+    const external = source ? loadDocumentSources(document, model).find(s => s.description.name === source)?.document : undefined;
+    if (external) {
+        // The workflow, or the input, is declared in another Arazzo document
+        symbol = symbol.kind === 'input' ? { kind: 'input', workflow: symbol.workflow, name: symbol.name } : { kind: 'workflow', name: symbol.name };
+        declaringPath = external.path;
+        add(vscode.Uri.file(external.path), external.text, findOccurrences(collectSymbols(external.yamlDoc, external.text), symbol));
+    } else {
+        add(document.uri, text, findOccurrences(occurrences, symbol));
+    }
+
+    if ((symbol.kind === 'workflow' || symbol.kind === 'input') && !symbol.source && declaringPath) {
+        // Documents calling the workflow through an `arazzo` source description
+        const declared = symbol;
+        const workflowName = declared.kind === 'workflow' ? declared.name : declared.workflow;
+        for (const { document: referencing, sourceNames } of await findReferencingDocuments(declaringPath)) {
+            const found = collectSymbols(referencing.yamlDoc, referencing.text).filter(({ symbol: o }) => o.kind === declared.kind
+                && sourceNames.includes(o.source ?? '')
+                && (o.kind === 'workflow' ? o.name === workflowName : o.kind === 'input' && o.workflow === workflowName && o.name === declared.name));
+            add(vscode.Uri.file(referencing.path), referencing.text, found);
+        }
+    }
+    return locations;
+}
+
+class ArazzoReferenceProvider implements vscode.ReferenceProvider {
+    async provideReferences(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        context: vscode.ReferenceContext
+    ): Promise<vscode.Location[]> {
+        const locations = await findSymbolLocations(document, position) ?? [];
+        return locations.filter(l => context.includeDeclaration || !l.declaration).map(l => l.location);
+    }
+}
+
+class ArazzoRenameProvider implements vscode.RenameProvider {
+    prepareRename(document: vscode.TextDocument, position: vscode.Position): { range: vscode.Range; placeholder: string } {
+        const text = document.getText();
+        const { yamlDoc } = parseArazzoDocument(text, getDocumentFormat(document));
+        const occurrence = findSymbolAt(collectSymbols(yamlDoc, text), document.offsetAt(position));
+        if (!occurrence) {
+            throw new Error('You cannot rename this element');
+        }
+        if (occurrence.symbol.kind === 'operation') {
+            throw new Error(checkNewName(occurrence.symbol, ''));
+        }
+        const range = new vscode.Range(document.positionAt(occurrence.start), document.positionAt(occurrence.end));
+        return { range, placeholder: document.getText(range) };
+    }
+
+    async provideRenameEdits(document: vscode.TextDocument, position: vscode.Position, newName: string): Promise<vscode.WorkspaceEdit> {
+        const text = document.getText();
+        const { yamlDoc } = parseArazzoDocument(text, getDocumentFormat(document));
+        const occurrence = findSymbolAt(collectSymbols(yamlDoc, text), document.offsetAt(position));
+        const problem = occurrence ? checkNewName(occurrence.symbol, newName) : 'You cannot rename this element';
+        if (problem) {
+            throw new Error(problem);
+        }
+
+        const edit = new vscode.WorkspaceEdit();
+        for (const { location } of await findSymbolLocations(document, position) ?? []) {
+            edit.replace(location.uri, location.range, newName);
+        }
+        return edit;
+    }
+}
+
+/**
+ * The reference count of a workflow or step, resolved lazily since it may search the workspace
+ */
+class ReferencesCodeLens extends vscode.CodeLens {
+    constructor(readonly document: vscode.TextDocument, range: vscode.Range) {
+        super(range);
     }
+}
 
-    const workflows = root.get('workflows', true);
-    if (workflows) {
-        if (isSeq(workflows)) {
-            if (workflows.items.length === 0) {
-                addDiagnostic(workflows, 'workflows must have at least one entry', document, diagnostics);
+class ArazzoCodeLensProvider implements vscode.CodeLensProvider {
+    provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+        const { yamlDoc } = parseArazzoDocument(document.getText(), getDocumentFormat(document));
+        const model = buildArazzoModel(yamlDoc);
+        const lenses: vscode.CodeLens[] = [];
+        const add = (declaration: Declaration, workflowId: string, stepId?: string) => {
+            const [start, end] = getNodeOffsets(declaration.nameNode);
+            const range = new vscode.Range(document.positionAt(start), document.positionAt(end));
+            lenses.push(
+                new vscode.CodeLens(range, {
+                    title: 'Open flowchart',
+                    command: 'arazzo-vscode.openFlowchartAt',
+                    arguments: [document.uri, workflowId]
+                }),
+                new vscode.CodeLens(range, {
+                    title: 'Show in preview',
+                    command: 'arazzo-vscode.showInPreview',
+                    arguments: [document.uri, workflowId, stepId]
+                }),
+                new ReferencesCodeLens(document, range)
+            );
+        };
+        for (const workflow of model.workflows) {
+            const [start, end] = getNodeOffsets(workflow.nameNode);
+            lenses.push(new vscode.CodeLens(new vscode.Range(document.positionAt(start), document.positionAt(end)), {
+                title: 'Run workflow',
+                command: 'arazzo-vscode.runWorkflow',
+                arguments: [document.uri, workflow.name]
+            }));
+            add(workflow, workflow.name);
+            for (const step of workflow.steps) {
+                add(step, workflow.name, step.name);
             }
-            workflows.items.forEach((workflow: any) => {
-                if (isMap(workflow)) {
-                    checkRequired(workflow, ['workflowId', 'steps'], document, diagnostics);
-                    
-                    const steps = workflow.get('steps', true);
-                    if (steps) {
-                        if (isSeq(steps)) {
-                            if (steps.items.length === 0) {
-                                addDiagnostic(steps, 'steps must have at least one entry', document, diagnostics);
-                            }
-                            steps.items.forEach((step: any) => {
-                                if (isMap(step)) {
-                                    validateStep(step, document, diagnostics);
-                                }
-                            });
-                        } else {
-                            addDiagnostic(steps, 'steps must be an array', document, diagnostics);
-                        }
-                    }
-                }
-            });
-        } else {
-            addDiagnostic(workflows, 'workflows must be an array', document, diagnostics);
         }
+        return lenses;
+    }
+
+    async resolveCodeLens(lens: vscode.CodeLens): Promise<vscode.CodeLens> {
+        if (lens instanceof ReferencesCodeLens) {
+            const locations = (await findSymbolLocations(lens.document, lens.range.start) ?? [])
+                .filter(l => !l.declaration)
+                .map(l => l.location);
+            lens.command = {
+                title: locations.length === 1 ? '1 reference' : `${locations.length} references`,
+                command: locations.length > 0 ? 'editor.action.showReferences' : '',
+                arguments: [lens.document.uri, lens.range.start, locations]
+            };
+        }
+        return lens;
     }
 }
 
-function validateStep(step: any, document: vscode.TextDocument, diagnostics: vscode.Diagnostic[]) {
-    checkRequired(step, ['stepId'], document, diagnostics);
-    
-    const hasOperation = step.has('operationId') || step.has('operationPath') || step.has('workflowId');
-    if (!hasOperation) {
-        addDiagnostic(step, 'Step must contain one of "operationId", "operationPath", or "workflowId"', document, diagnostics);
+const CODE_ACTION_KINDS: Record<ArazzoCodeAction['kind'], vscode.CodeActionKind> = {
+    quickfix: vscode.CodeActionKind.QuickFix,
+    'refactor.extract': vscode.CodeActionKind.RefactorExtract
+};
+
+class ArazzoCodeActionProvider implements vscode.CodeActionProvider {
+    static readonly providedCodeActionKinds = Object.values(CODE_ACTION_KINDS);
+
+    provideCodeActions(document: vscode.TextDocument, range: vscode.Range, context: vscode.CodeActionContext): vscode.CodeAction[] {
+        const text = document.getText();
+        const format = getDocumentFormat(document);
+        const { yamlDoc } = parseArazzoDocument(text, format);
+        const model = buildArazzoModel(yamlDoc);
+        const sources = loadDocumentSources(document, model);
+        const problems = collectProblems(text, yamlDoc, model, sources);
+        const actions = getCodeActions(
+            { text, yamlDoc, model, sources, format },
+            document.offsetAt(range.start),
+            document.offsetAt(range.end),
+            problems
+        );
+
+        return actions.map(action => {
+            const codeAction = new vscode.CodeAction(action.title, CODE_ACTION_KINDS[action.kind]);
+            codeAction.edit = new vscode.WorkspaceEdit();
+            for (const edit of action.edits) {
+                codeAction.edit.replace(document.uri, new vscode.Range(document.positionAt(edit.start), document.positionAt(edit.end)), edit.newText);
+            }
+            codeAction.isPreferred = action.preferred;
+            const problem = action.problem;
+            if (problem) {
+                const problemRange = new vscode.Range(document.positionAt(problem.start), document.positionAt(problem.end));
+                codeAction.diagnostics = context.diagnostics.filter(d => d.code === problem.code && d.range.isEqual(problemRange));
+            }
+            return codeAction;
+        });
     }
 }
 
-function checkRequired(node: any, fields: string[], document: vscode.TextDocument, diagnostics: vscode.Diagnostic[]) {
-    fields.forEach(field => {
-        if (!node.has(field)) {
-            addDiagnostic(node, `Missing required field: ${field}`, document, diagnostics);
+class ArazzoHoverProvider implements vscode.HoverProvider {
+    provideHover(document: vscode.TextDocument, position: vscode.Position): vscode.Hover | undefined {
+        const text = document.getText();
+        const format = getDocumentFormat(document);
+        const { yamlDoc } = parseArazzoDocument(text, format);
+        const model = buildArazzoModel(yamlDoc);
+        const hover = getHover(text, document.offsetAt(position), yamlDoc, model, loadDocumentSources(document, model), format);
+        if (!hover) {
+            return undefined;
         }
-    });
+        const range = new vscode.Range(document.positionAt(hover.start), document.positionAt(hover.end));
+        return new vscode.Hover(new vscode.MarkdownString(hover.contents), range);
+    }
 }
 
-function addDiagnostic(node: any, message: string, document: vscode.TextDocument, diagnostics: vscode.Diagnostic[]) {
-    const rangeStart = node.range?.[0] || 0;
-    const rangeEnd = node.range?.[2] || node.range?.[1] || 0;
-    const range = new vscode.Range(document.positionAt(rangeStart), document.positionAt(rangeEnd));
-    diagnostics.push(new vscode.Diagnostic(range, message, vscode.DiagnosticSeverity.Error));
+const SEMANTIC_TOKENS_LEGEND = new vscode.SemanticTokensLegend([...SEMANTIC_TOKEN_TYPES], [...SEMANTIC_TOKEN_MODIFIERS]);
+
+class ArazzoSemanticTokensProvider implements vscode.DocumentSemanticTokensProvider {
+    provideDocumentSemanticTokens(document: vscode.TextDocument): vscode.SemanticTokens {
+        const text = document.getText();
+        const { yamlDoc } = parseArazzoDocument(text, getDocumentFormat(document));
+        const builder = new vscode.SemanticTokensBuilder(SEMANTIC_TOKENS_LEGEND);
+        for (const token of getSemanticTokens(yamlDoc, text)) {
+            const range = new vscode.Range(document.positionAt(token.start), document.positionAt(token.end));
+            // Tokens cannot span lines
+            if (range.isSingleLine) {
+                builder.push(range, token.type, token.modifiers);
+            }
+        }
+        return builder.build();
+    }
+}
+
+const COMPLETION_KINDS: Record<ArazzoCompletion['kind'], vscode.CompletionItemKind> = {
+    property: vscode.CompletionItemKind.Property,
+    value: vscode.CompletionItemKind.EnumMember,
+    snippet: vscode.CompletionItemKind.Snippet,
+    expression: vscode.CompletionItemKind.Variable
+};
+
+class ArazzoCompletionItemProvider implements vscode.CompletionItemProvider {
+    provideCompletionItems(document: vscode.TextDocument, position: vscode.Position): vscode.CompletionItem[] | undefined {
+        const text = document.getText();
+        const offset = document.offsetAt(position);
+        let completions: ArazzoCompletion[];
+        if (findExpressionStart(text, offset) !== undefined) {
+            const { yamlDoc } = parseArazzoDocument(text, getDocumentFormat(document));
+            const model = buildArazzoModel(yamlDoc);
+            completions = getExpressionCompletions(text, offset, model, loadDocumentSources(document, model));
+        } else if (getDocumentFormat(document) === 'yaml') {
+            completions = getCompletions(text, offset);
+        } else {
+            return undefined;
+        }
+        return completions.map(completion => {
+            const item = new vscode.CompletionItem(completion.label, COMPLETION_KINDS[completion.kind]);
+            item.insertText = new vscode.SnippetString(completion.insertText);
+            item.range = new vscode.Range(document.positionAt(completion.start), position);
+            item.detail = completion.detail;
+            item.sortText = completion.sortText;
+            return item;
+        });
+    }
 }
 
+export function deactivate() {}
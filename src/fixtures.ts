@@ -0,0 +1,179 @@
+import * as path from 'path';
+import { mapStrings } from './environments';
+import { RunListener, WorkflowResult } from './runner';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Run fixtures
+// Records the HTTP exchanges of a workflow run, and replays them to run it offline
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export interface FixtureExchange {
+    /** The step that sent the request */
+    workflowId?: string;
+    stepId?: string;
+    request: {
+        method: string;
+        url: string;
+        headers: Record<string, string>;
+        body?: string;
+    };
+    response: {
+        statusCode: number;
+        headers: Record<string, string>;
+        body: string;
+    };
+    /** When the request was sent, as an ISO date */
+    startedAt: string;
+    /** Milliseconds until the response body was read */
+    duration: number;
+}
+
+export interface Fixture {
+    arazzoFixture: '1.0';
+    workflowId: string;
+    inputs: Record<string, unknown>;
+    /** Servers of the recorded run by source name, replays use them to build the same URLs */
+    servers: Record<string, string>;
+    status?: WorkflowResult['status'];
+    exchanges: FixtureExchange[];
+}
+
+/** Headers whose values are replaced when recording, so fixtures can be shared */
+const REDACTED_HEADERS = ['authorization', 'proxy-authorization', 'cookie', 'set-cookie', 'x-api-key'];
+const REDACTED = '<redacted>';
+
+/**
+ * Where the fixture of a workflow is kept: next to its document, e.g. "pets.arazzo.adopt.fixture.json"
+ * for the adopt workflow of "pets.arazzo.yaml".
+ */
+export function getFixturePath(documentPath: string, workflowId: string): string {
+    const name = path.basename(documentPath).replace(/\.(ya?ml|json)$/i, '');
+    return path.join(path.dirname(documentPath), `${name}.${workflowId}.fixture.json`);
+}
+
+/**
+ * What a recording keeps out of its fixture, besides the usual authentication headers: e.g. the
+ * headers and secrets of the environment of the run.
+ */
+export interface FixtureRedaction {
+    /** Names of headers whose values are replaced */
+    headers?: string[];
+    /** Values replaced wherever they appear: headers, URLs, bodies and inputs */
+    secrets?: string[];
+}
+
+/**
+ * Records the exchanges of a run: pass `fetch` and `listen()` to the runner, then save `toFixture()`.
+ * Pass the inputs the run used to `toFixture()`, its secrets are redacted there as well.
+ */
+export class FixtureRecorder {
+    private readonly exchanges: FixtureExchange[] = [];
+    private current: { workflowId: string; stepId: string } | undefined;
+
+    private readonly headers: string[];
+    private readonly secrets: string[];
+
+    constructor(private readonly inner: typeof fetch = fetch, redaction: FixtureRedaction = {}) {
+        this.headers = [...REDACTED_HEADERS, ...(redaction.headers ?? []).map(name => name.toLowerCase())];
+        this.secrets = (redaction.secrets ?? []).filter(secret => secret.length > 0);
+    }
+
+    public readonly fetch: typeof fetch = async (input, init) => {
+        const startedAt = new Date();
+        const response = await this.inner(input, init);
+        const body = await response.text();
+        this.exchanges.push({
+            ...this.current,
+            request: {
+                method: init?.method ?? 'GET',
+                url: this.redactUrl(String(input)),
+                headers: this.toHeaders(init?.headers),
+                body: typeof init?.body === 'string' ? this.redact(init.body) : undefined
+            },
+            response: { statusCode: response.status, headers: this.toHeaders(response.headers), body: this.redact(body) },
+            startedAt: startedAt.toISOString(),
+            duration: Date.now() - startedAt.getTime()
+        });
+        // The body was consumed, hand over a copy
+        return new Response(hasBody(response.status) ? body : null, { status: response.status, headers: response.headers });
+    };
+
+    /**
+     * Tracks the step of each request, forwarding the notifications to `listener`.
+     */
+    public listen(listener: RunListener = {}): RunListener {
+        return {
+            ...listener,
+            onStepStart: (workflowId, stepId) => {
+                this.current = { workflowId, stepId };
+                listener.onStepStart?.(workflowId, stepId);
+            }
+        };
+    }
+
+    public toFixture(
+        run: { workflowId: string; inputs: Record<string, unknown>; servers?: Record<string, string> },
+        result?: WorkflowResult
+    ): Fixture {
+        return {
+            arazzoFixture: '1.0',
+            workflowId: run.workflowId,
+            inputs: mapStrings(run.inputs, text => this.redact(text)) as Record<string, unknown>,
+            servers: run.servers ?? {},
+            status: result?.status,
+            exchanges: this.exchanges
+        };
+    }
+
+    private redact(text: string): string {
+        return this.secrets.reduce((result, secret) => result.split(secret).join(REDACTED), text);
+    }
+
+    /** Secrets in URLs are mostly encoded, replaced by the encoded placeholder a replay of the redacted inputs builds */
+    private redactUrl(url: string): string {
+        const placeholder = encodeURIComponent(REDACTED);
+        return this.redact(this.secrets.reduce((result, secret) => result.split(encodeURIComponent(secret)).join(placeholder), url));
+    }
+
+    private toHeaders(headers: HeadersInit | Headers | undefined): Record<string, string> {
+        const result: Record<string, string> = {};
+        new Headers(headers).forEach((value, name) => {
+            result[name] = this.headers.includes(name) ? REDACTED : this.redact(value);
+        });
+        return result;
+    }
+}
+
+function hasBody(status: number): boolean {
+    return status !== 204 && status !== 205 && status !== 304;
+}
+
+/**
+ * A fetch answering from the exchanges of a fixture, in order for each method and URL. Runs replaying
+ * a fixture should use its servers.
+ */
+export function createReplayFetch(fixture: Fixture): typeof fetch {
+    const used = new Set<FixtureExchange>();
+    const key = (method: string, url: string) => `${method.toUpperCase()} ${url}`;
+    return async (input, init) => {
+        const wanted = key(init?.method ?? 'GET', String(input));
+        const exchange = fixture.exchanges.find(e => !used.has(e) && key(e.request.method, e.request.url) === wanted);
+        if (!exchange) {
+            throw new Error(`No recorded response for ${wanted}`);
+        }
+        used.add(exchange);
+        const { statusCode, headers, body } = exchange.response;
+        return new Response(hasBody(statusCode) ? body : null, { status: statusCode, headers });
+    };
+}
+
+/**
+ * Reads a fixture file, throwing when it is not one.
+ */
+export function parseFixture(text: string): Fixture {
+    const fixture = JSON.parse(text);
+    if (fixture?.arazzoFixture !== '1.0' || typeof fixture.workflowId !== 'string' || !Array.isArray(fixture.exchanges)) {
+        throw new Error('Not an Arazzo run fixture');
+    }
+    return { ...fixture, inputs: fixture.inputs ?? {}, servers: fixture.servers ?? {} };
+}
@@ -0,0 +1,207 @@
+import { ArazzoModel, WorkflowModel } from './model';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Workflow graphs
+// The control flow of a workflow between its steps, rendered as Mermaid or Graphviz
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export interface GraphNode {
+    id: string;
+    /** `workflow` nodes stand for the workflows a step moves to */
+    kind: 'start' | 'step' | 'end' | 'error' | 'workflow';
+    label: string;
+    /** The operation or workflow a step calls */
+    detail?: string;
+}
+
+export interface GraphEdge {
+    from: string;
+    to: string;
+    /** `next` when a step moves on to the following one without an action */
+    kind: 'next' | 'success' | 'failure';
+    label?: string;
+}
+
+export interface WorkflowGraph {
+    workflowId: string;
+    nodes: GraphNode[];
+    edges: GraphEdge[];
+}
+
+const START = '$start';
+const END = '$end';
+const ERROR = '$error';
+
+interface Action {
+    name?: string;
+    type?: string;
+    stepId?: string;
+    workflowId?: string;
+}
+
+/**
+ * Reads the actions of a step, replacing references to `components` with the actions they name.
+ */
+function getActions(model: ArazzoModel, value: unknown, section: 'successActions' | 'failureActions'): Action[] {
+    if (!Array.isArray(value)) {
+        return [];
+    }
+    return value.flatMap((item: unknown): Action[] => {
+        const reference = (item as { reference?: unknown })?.reference;
+        if (typeof reference === 'string') {
+            const name = reference.match(new RegExp(`^\\$components\\.${section}\\.(.+)$`))?.[1];
+            const action = model.components[section].find(declaration => declaration.name === name)?.node.toJSON();
+            return action && typeof action === 'object' ? [action] : [];
+        }
+        return item && typeof item === 'object' ? [item as Action] : [];
+    });
+}
+
+/**
+ * Builds the graph of a workflow: from its inputs through its steps, following their success and
+ * failure actions, to its outputs.
+ */
+export function buildWorkflowGraph(model: ArazzoModel, workflow: WorkflowModel): WorkflowGraph {
+    const inputs = workflow.inputs?.map(input => input.name) ?? [];
+    const outputs = workflow.outputs.map(output => output.name);
+    const nodes: GraphNode[] = [{ id: START, kind: 'start', label: inputs.length > 0 ? `Inputs: ${inputs.join(', ')}` : 'Start' }];
+    const edges: GraphEdge[] = [];
+    let hasError = false;
+
+    const target = (action: Action): string | undefined => {
+        if (action.workflowId) {
+            const id = `$workflow:${action.workflowId}`;
+            if (!nodes.some(node => node.id === id)) {
+                nodes.push({ id, kind: 'workflow', label: action.workflowId });
+            }
+            return id;
+        }
+        return action.stepId;
+    };
+
+    for (const step of workflow.steps) {
+        const json = step.node.toJSON() as Record<string, unknown>;
+        const detail = [json.operationId, json.operationPath, json.workflowId && `workflow ${json.workflowId}`].find(value => typeof value === 'string' && value);
+        nodes.push({ id: step.name, kind: 'step', label: step.name, detail: detail as string | undefined });
+    }
+    if (workflow.steps.length > 0) {
+        edges.push({ from: START, to: workflow.steps[0].name, kind: 'next' });
+    }
+
+    workflow.steps.forEach((step, index) => {
+        const json = step.node.toJSON() as Record<string, unknown>;
+        const onSuccess = getActions(model, json.onSuccess, 'successActions');
+        const onFailure = getActions(model, json.onFailure, 'failureActions');
+
+        for (const action of onSuccess) {
+            const to = action.type === 'end' ? END : action.type === 'goto' ? target(action) : undefined;
+            if (to) {
+                edges.push({ from: step.name, to, kind: 'success', label: action.name });
+            }
+        }
+        // Without an explicit action, a step that passes moves on to the next one
+        if (!onSuccess.some(action => action.type === 'end' || action.type === 'goto')) {
+            edges.push({ from: step.name, to: workflow.steps[index + 1]?.name ?? END, kind: 'next' });
+        }
+
+        for (const action of onFailure) {
+            let to: string | undefined;
+            if (action.type === 'end') {
+                to = ERROR;
+                hasError = true;
+            } else if (action.type === 'goto') {
+                to = target(action);
+            } else if (action.type === 'retry') {
+                to = step.name;
+            }
+            if (to) {
+                edges.push({ from: step.name, to, kind: 'failure', label: action.name ?? (action.type === 'retry' ? 'retry' : undefined) });
+            }
+        }
+    });
+
+    nodes.push({ id: END, kind: 'end', label: outputs.length > 0 ? `Outputs: ${outputs.join(', ')}` : 'End' });
+    if (hasError) {
+        nodes.push({ id: ERROR, kind: 'error', label: 'Failed' });
+    }
+    return { workflowId: workflow.name, nodes, edges };
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Rendering
+// Several graphs are rendered as one diagram, each workflow in its own subgraph
+// ───────────────────────────────────────────────────────────────────────────────
+
+function mermaidId(graph: WorkflowGraph, id: string): string {
+    return `${graph.workflowId}_${id}`.replace(/[^a-zA-Z0-9_]/g, '_');
+}
+
+function mermaidText(text: string): string {
+    return text.replace(/"/g, '#quot;');
+}
+
+const MERMAID_SHAPES: Record<GraphNode['kind'], [string, string]> = {
+    start: ['([', '])'],
+    step: ['[', ']'],
+    end: ['([', '])'],
+    error: ['((', '))'],
+    workflow: ['[[', ']]']
+};
+
+export function toMermaid(graphs: WorkflowGraph[]): string {
+    const lines = ['flowchart TB'];
+    for (const graph of graphs) {
+        const indent = graphs.length > 1 ? '    ' : '  ';
+        if (graphs.length > 1) {
+            lines.push(`  subgraph ${mermaidId(graph, '')}["${mermaidText(graph.workflowId)}"]`);
+        }
+        for (const node of graph.nodes) {
+            const [open, close] = MERMAID_SHAPES[node.kind];
+            const label = node.detail ? `${node.label}<br/>${node.detail}` : node.label;
+            lines.push(`${indent}${mermaidId(graph, node.id)}${open}"${mermaidText(label)}"${close}`);
+        }
+        for (const edge of graph.edges) {
+            const arrow = edge.kind === 'failure' ? '-.->' : '-->';
+            const label = edge.label ? `|"${mermaidText(edge.label)}"|` : '';
+            lines.push(`${indent}${mermaidId(graph, edge.from)} ${arrow}${label} ${mermaidId(graph, edge.to)}`);
+        }
+        if (graphs.length > 1) {
+            lines.push('  end');
+        }
+    }
+    return lines.join('\n');
+}
+
+function dotText(text: string): string {
+    return `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+}
+
+const DOT_SHAPES: Record<GraphNode['kind'], string> = {
+    start: 'oval',
+    step: 'box',
+    end: 'oval',
+    error: 'doublecircle',
+    workflow: 'component'
+};
+
+export function toDot(graphs: WorkflowGraph[]): string {
+    const lines = ['digraph arazzo {', '  node [fontname="Helvetica"];'];
+    for (const graph of graphs) {
+        const id = (nodeId: string) => dotText(`${graph.workflowId}/${nodeId}`);
+        lines.push(`  subgraph ${dotText(`cluster_${graph.workflowId}`)} {`, `    label=${dotText(graph.workflowId)};`);
+        for (const node of graph.nodes) {
+            const label = node.detail ? `${node.label}\n${node.detail}` : node.label;
+            lines.push(`    ${id(node.id)} [label=${dotText(label)}, shape=${DOT_SHAPES[node.kind]}];`);
+        }
+        for (const edge of graph.edges) {
+            const attributes = [
+                edge.label ? `label=${dotText(edge.label)}` : undefined,
+                edge.kind === 'failure' ? 'style=dashed' : undefined
+            ].filter(Boolean);
+            lines.push(`    ${id(edge.from)} -> ${id(edge.to)}${attributes.length > 0 ? ` [${attributes.join(', ')}]` : ''};`);
+        }
+        lines.push('  }');
+    }
+    lines.push('}');
+    return lines.join('\n');
+}
@@ -0,0 +1,161 @@
+import { Document, Node, isMap, isNode, isScalar, isSeq } from 'yaml';
+import { ArazzoFormat, getNodeOffsets } from './document';
+import { collectExpressions } from './expression-validation';
+import { ArazzoModel, Declaration, findStep, findWorkflow } from './model';
+import { OpenApiOperation } from './openapi';
+import { resolveOperationId } from './operations';
+import { getDefinitionName, objectSchemas, resolveSchemaPath } from './schema-lookup';
+import { LoadedSource } from './sources';
+import { EXPRESSION_DOCS, OBJECT_DOCS } from './spec-docs';
+import { ArazzoSymbol, collectSymbols, findSymbolAt } from './symbols';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Hover
+// Markdown explaining the field, reference or runtime expression under the cursor
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export interface ArazzoHover {
+    /** Markdown */
+    contents: string;
+    start: number;
+    end: number;
+}
+
+interface FieldLocation {
+    /** Keys leading to the map holding the field, with "[]" for sequence items */
+    path: string[];
+    key: string;
+    /** The key, or the scalar value, under the cursor */
+    node: Node;
+}
+
+export function getHover(
+    text: string,
+    offset: number,
+    yamlDoc: Document,
+    model: ArazzoModel,
+    sources: LoadedSource[],
+    format: ArazzoFormat
+): ArazzoHover | undefined {
+    const occurrence = findSymbolAt(collectSymbols(yamlDoc, text, model), offset);
+    if (occurrence && !occurrence.declaration) {
+        const contents = describeSymbol(occurrence.symbol, text, model, sources, format);
+        if (contents) {
+            return { contents, start: occurrence.start, end: occurrence.end };
+        }
+    }
+
+    const expression = collectExpressions(yamlDoc, text, model)
+        .find(o => o.match.start <= offset && offset <= o.match.end)?.match;
+    if (expression?.expression) {
+        const contents = `\`${expression.expression.text}\`\n\n${EXPRESSION_DOCS[expression.expression.source]}`;
+        return { contents, start: expression.start, end: expression.end };
+    }
+
+    const field = findFieldAt(yamlDoc.contents, offset, []);
+    const contents = field && describeField(field);
+    if (field && contents) {
+        const [start, end] = getNodeOffsets(field.node);
+        return { contents, start, end };
+    }
+    return undefined;
+}
+
+function describeSymbol(symbol: ArazzoSymbol, text: string, model: ArazzoModel, sources: LoadedSource[], format: ArazzoFormat): string | undefined {
+    switch (symbol.kind) {
+        case 'stepOutput': {
+            const workflow = findWorkflow(model, symbol.workflow);
+            const output = findDeclaration(workflow && findStep(workflow, symbol.step)?.outputs, symbol.name);
+            return output && `Output \`${symbol.name}\` of step \`${symbol.step}\`\n\n${codeBlock(text, output.node, format)}`;
+        }
+        case 'workflowOutput': {
+            const output = findDeclaration(findWorkflow(model, symbol.workflow)?.outputs, symbol.name);
+            return output && `Output \`${symbol.name}\` of workflow \`${symbol.workflow}\`\n\n${codeBlock(text, output.node, format)}`;
+        }
+        case 'input': {
+            const input = symbol.source ? undefined : findDeclaration(findWorkflow(model, symbol.workflow)?.inputs, symbol.name);
+            return input && `Input \`${symbol.name}\` of workflow \`${symbol.workflow}\`\n\n${codeBlock(text, input.node, format)}`;
+        }
+        case 'component': {
+            const component = findDeclaration(model.components[symbol.section as keyof ArazzoModel['components']], symbol.name);
+            return component && `Component \`${symbol.section}.${symbol.name}\`\n\n${codeBlock(text, component.node, format)}`;
+        }
+        case 'operation': {
+            const resolution = resolveOperationId(symbol.name, sources);
+            return resolution.status === 'resolved'
+                ? describeOperation(resolution.operation, resolution.source.description.name)
+                : undefined;
+        }
+        default:
+            return undefined;
+    }
+}
+
+function findDeclaration(declarations: Declaration[] | undefined, name: string): Declaration | undefined {
+    return declarations?.find(d => d.name === name);
+}
+
+function describeOperation(operation: OpenApiOperation, sourceName: string): string {
+    const lines = [`**${operation.method.toUpperCase()}** \`${operation.path}\``];
+    if (operation.summary) {
+        lines.push(operation.summary);
+    }
+    lines.push(`Operation ${operation.operationId ? `\`${operation.operationId}\` ` : ''}of source description \`${sourceName}\``);
+    return lines.join('\n\n');
+}
+
+/**
+ * The source text of a node as a fenced code block, without the indentation it has in the document.
+ */
+function codeBlock(text: string, node: Node, format: ArazzoFormat): string {
+    const [start, end] = getNodeOffsets(node);
+    const column = start - (text.lastIndexOf('\n', start - 1) + 1);
+    const lines = text.slice(start, end).split('\n').map((line, i) => i === 0 ? line : line.replace(new RegExp(`^ {0,${column}}`), ''));
+    return `\`\`\`${format}\n${lines.join('\n').trimEnd()}\n\`\`\``;
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Fields
+// ───────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Finds the innermost field whose key or scalar value contains `offset`.
+ */
+function findFieldAt(node: unknown, offset: number, path: string[]): FieldLocation | undefined {
+    const contains = (child: unknown) => isNode(child) && !!child.range && child.range[0] <= offset && offset <= child.range[1];
+    if (isMap(node)) {
+        for (const pair of node.items) {
+            if (!isScalar(pair.key)) {
+                continue;
+            }
+            const key = String(pair.key.value);
+            if (contains(pair.key)) {
+                return { path, key, node: pair.key };
+            }
+            if (isScalar(pair.value) && contains(pair.value)) {
+                return { path, key, node: pair.value };
+            }
+            if (contains(pair.value)) {
+                return findFieldAt(pair.value, offset, [...path, key]);
+            }
+        }
+    } else if (isSeq(node)) {
+        const item = node.items.find(contains);
+        return item ? findFieldAt(item, offset, [...path, '[]']) : undefined;
+    }
+    return undefined;
+}
+
+function describeField(field: FieldLocation): string | undefined {
+    const container = resolveSchemaPath(field.path);
+    for (const schema of container ? objectSchemas(container) : []) {
+        const name = getDefinitionName(schema);
+        const doc = name ? OBJECT_DOCS[name] : undefined;
+        const fieldDoc = doc?.fields[field.key];
+        if (doc && fieldDoc) {
+            const required = fieldDoc.required ? ' — **REQUIRED**' : '';
+            return `\`${field.key}\`: \`${fieldDoc.type}\`${required}\n\n${fieldDoc.description}\n\n*${doc.title}*`;
+        }
+    }
+    return undefined;
+}
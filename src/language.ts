@@ -0,0 +1,98 @@
+import * as vscode from 'vscode';
+import { parseDocument, isMap } from 'yaml';
+import { ArazzoFormat } from './document';
+
+export const ARAZZO_LANGUAGE_ID = 'arazzo';
+export const ARAZZO_JSON_LANGUAGE_ID = 'arazzo-json';
+
+export const ARAZZO_SELECTOR: vscode.DocumentSelector = [
+    { language: ARAZZO_LANGUAGE_ID },
+    { language: ARAZZO_JSON_LANGUAGE_ID }
+];
+
+/**
+ * Languages VS Code may assign to an Arazzo document before we claim it
+ */
+const CANDIDATE_LANGUAGES = ['yaml', 'json'];
+const JSON_LANGUAGES = ['json'];
+
+/**
+ * Documents that just left the Arazzo language. VS Code reports a language switch as a
+ * close immediately followed by an open, so a document reopening from this set was
+ * switched away by the user and must not be claimed again.
+ */
+const leftArazzo = new Set<string>();
+
+export function isArazzoDocument(document: vscode.TextDocument): boolean {
+    return document.languageId === ARAZZO_LANGUAGE_ID || document.languageId === ARAZZO_JSON_LANGUAGE_ID;
+}
+
+export function getDocumentFormat(document: vscode.TextDocument): ArazzoFormat {
+    return document.languageId === ARAZZO_JSON_LANGUAGE_ID ? 'json' : 'yaml';
+}
+
+/**
+ * Checks whether the text is an Arazzo description, i.e. its root is a map with an `arazzo` key.
+ * Works for both YAML and JSON sources.
+ */
+export function hasArazzoRootKey(text: string): boolean {
+    // Cheap pre-check so unrelated YAML files (CI, manifests, ...) are not fully parsed
+    if (!/["']?arazzo["']?\s*:/.test(text)) {
+        return false;
+    }
+    try {
+        const yamlDoc = parseDocument(text);
+        return !!yamlDoc.contents && isMap(yamlDoc.contents) && yamlDoc.contents.has('arazzo');
+    } catch (e) {
+        return false;
+    }
+}
+
+function matchesConfiguredPatterns(document: vscode.TextDocument): boolean {
+    const patterns = vscode.workspace.getConfiguration('arazzo', document.uri).get<string[]>('detection.filePatterns', []);
+    return patterns.some(pattern => vscode.languages.match({ pattern }, document) > 0);
+}
+
+/**
+ * Switches a YAML or JSON document to the matching Arazzo language when it matches one of the
+ * configured file patterns or, if content detection is enabled, declares an `arazzo` root key.
+ */
+export async function detectArazzoLanguage(document: vscode.TextDocument): Promise<void> {
+    if (!CANDIDATE_LANGUAGES.includes(document.languageId)) {
+        return;
+    }
+    if (leftArazzo.has(document.uri.toString())) {
+        return;
+    }
+
+    const config = vscode.workspace.getConfiguration('arazzo', document.uri);
+    const detected = matchesConfiguredPatterns(document)
+        || (config.get<boolean>('detection.byContent', true) && hasArazzoRootKey(document.getText()));
+
+    if (detected) {
+        try {
+            const languageId = JSON_LANGUAGES.includes(document.languageId) ? ARAZZO_JSON_LANGUAGE_ID : ARAZZO_LANGUAGE_ID;
+            await vscode.languages.setTextDocumentLanguage(document, languageId);
+        } catch (e) {
+            console.error('Arazzo VSCode: Could not set document language', e);
+        }
+    }
+}
+
+export function registerLanguageDetection(context: vscode.ExtensionContext) {
+    context.subscriptions.push(vscode.workspace.onDidOpenTextDocument(detectArazzoLanguage));
+    context.subscriptions.push(vscode.workspace.onDidCloseTextDocument(document => {
+        if (isArazzoDocument(document)) {
+            const key = document.uri.toString();
+            leftArazzo.add(key);
+            setTimeout(() => leftArazzo.delete(key), 0);
+        }
+    }));
+    context.subscriptions.push(vscode.workspace.onDidChangeConfiguration(e => {
+        if (e.affectsConfiguration('arazzo.detection')) {
+            vscode.workspace.textDocuments.forEach(detectArazzoLanguage);
+        }
+    }));
+
+    vscode.workspace.textDocuments.forEach(detectArazzoLanguage);
+}
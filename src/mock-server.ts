@@ -0,0 +1,483 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { isDeepStrictEqual } from 'util';
+import { isMap, isNode, isSeq } from 'yaml';
+import { Criterion, evaluateCriteria } from './criteria';
+import { ArazzoModel, WorkflowModel, buildArazzoModel, findWorkflow } from './model';
+import { OpenApiOperation, OpenApiResponse, followRef, getOperationResponses, isJsonMediaType, parseJsonPointer } from './openapi';
+import { resolveStepOperation } from './operations';
+import { RuntimeState } from './runtime';
+import { SourceDocument, SourceDocumentCache, loadSourceDescriptions } from './sources';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Mock server
+// Serves the operations of a workflow with responses synthesised from the OpenAPI sources
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Replaces the synthesised response of the operation a step calls
+ */
+export interface MockOverride {
+    /** Respond with an error response the operation declares, 500 if none */
+    fail?: boolean;
+    statusCode?: number;
+    headers?: Record<string, string>;
+    body?: unknown;
+}
+
+export interface MockStep {
+    workflowId: string;
+    stepId: string;
+    criteria: Criterion[];
+}
+
+/**
+ * An operation the workflow calls, with the steps calling it
+ */
+export interface MockRoute {
+    sourceName: string;
+    source: SourceDocument;
+    operation: OpenApiOperation;
+    steps: MockStep[];
+}
+
+export interface MockResponse {
+    statusCode: number;
+    headers: Record<string, string>;
+    body: unknown;
+}
+
+export interface MockRequestLog {
+    method: string;
+    url: string;
+    route?: MockRoute;
+    response: MockResponse;
+    /** Success criteria of the steps the response does not satisfy */
+    unsatisfied: string[];
+}
+
+export interface MockServerOptions {
+    document: SourceDocument;
+    cache: SourceDocumentCache;
+    workspaceRoots?: string[];
+    workflowId: string;
+    /** Overrides by stepId */
+    overrides?: Record<string, MockOverride>;
+    port?: number;
+    onRequest?: (log: MockRequestLog) => void;
+}
+
+export interface MockServer {
+    url: string;
+    /** Base URLs of the mocked sources, by source description name */
+    servers: Record<string, string>;
+    routes: MockRoute[];
+    close(): Promise<void>;
+}
+
+/**
+ * Lists the operations a workflow calls, following the workflows it depends on or moves to.
+ */
+export function collectMockRoutes(options: Pick<MockServerOptions, 'document' | 'cache' | 'workspaceRoots' | 'workflowId'>): MockRoute[] {
+    const model = buildArazzoModel(options.document.yamlDoc);
+    const sources = loadSourceDescriptions(model, options.document.path, options.cache, options.workspaceRoots ?? []);
+    const routes: MockRoute[] = [];
+    for (const workflow of reachableWorkflows(model, options.workflowId)) {
+        for (const step of workflow.steps) {
+            const resolution = resolveStepOperation(step, sources);
+            if (resolution.status !== 'resolved' || !resolution.source.document) {
+                continue;
+            }
+            const criteria = step.node.get('successCriteria', true)?.toJSON();
+            const mockStep = { workflowId: workflow.name, stepId: step.name, criteria: Array.isArray(criteria) ? criteria : [] };
+            const existing = routes.find(r => r.source === resolution.source.document && r.operation.pointer === resolution.operation.pointer);
+            if (existing) {
+                existing.steps.push(mockStep);
+            } else {
+                routes.push({
+                    sourceName: resolution.source.description.name,
+                    source: resolution.source.document,
+                    operation: resolution.operation,
+                    steps: [mockStep]
+                });
+            }
+        }
+    }
+    return routes;
+}
+
+function reachableWorkflows(model: ArazzoModel, workflowId: string): WorkflowModel[] {
+    const found: WorkflowModel[] = [];
+    const visit = (id: unknown) => {
+        const workflow = typeof id === 'string' ? findWorkflow(model, id) : undefined;
+        if (!workflow || found.includes(workflow)) {
+            return;
+        }
+        found.push(workflow);
+        const json: unknown = workflow.node.toJSON();
+        asArray(field(json, 'dependsOn')).forEach(visit);
+        const actions = [...asArray(field(json, 'successActions')), ...asArray(field(json, 'failureActions'))];
+        for (const step of asArray(field(json, 'steps'))) {
+            visit(field(step, 'workflowId'));
+            actions.push(...asArray(field(step, 'onSuccess')), ...asArray(field(step, 'onFailure')));
+        }
+        actions.forEach(action => visit(field(action, 'workflowId')));
+    };
+    visit(workflowId);
+    return found;
+}
+
+function asArray(value: unknown): unknown[] {
+    return Array.isArray(value) ? value : [];
+}
+
+function field(value: unknown, key: string): unknown {
+    return typeof value === 'object' && value !== null ? (value as Record<string, unknown>)[key] : undefined;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Responses
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Synthesises the response of a route from the examples or schemas of the operation, adjusted so
+ * the simple success criteria of its steps pass, unless an override applies.
+ */
+export function synthesizeResponse(route: MockRoute, override?: MockOverride): MockResponse {
+    const responses = getOperationResponses(route.source, route.operation);
+    const criteriaStatus = override?.fail ? undefined : findStatusCode(route.steps.flatMap(step => step.criteria));
+    const statusCode = override?.statusCode ?? criteriaStatus ?? pickStatusCode(responses, !!override?.fail);
+    const declared = findResponse(responses, statusCode);
+    const media = declared && pickMediaType(route.source, declared);
+
+    const headers: Record<string, string> = {};
+    let body = media?.sample;
+    if (!override?.fail && override?.body === undefined) {
+        const response = { statusCode, headers, body };
+        for (const criterion of route.steps.flatMap(step => step.criteria)) {
+            satisfyCriterion(criterion, response);
+        }
+        body = response.body;
+    }
+    if (override?.body !== undefined) {
+        body = override.body;
+    }
+    if (body !== undefined) {
+        headers['content-type'] = media?.type ?? (typeof body === 'string' ? 'text/plain' : 'application/json');
+    }
+    Object.entries(override?.headers ?? {}).forEach(([name, value]) => headers[name.toLowerCase()] = value);
+    return { statusCode, headers, body };
+}
+
+function pickStatusCode(responses: OpenApiResponse[], fail: boolean): number {
+    const statuses = responses.map(response => response.status);
+    const wanted = fail ? /^[45]/ : /^2/;
+    const status = statuses.find(s => wanted.test(s)) ?? (statuses.includes('default') ? 'default' : undefined);
+    if (!status || status === 'default') {
+        return fail ? 500 : 200;
+    }
+    return Number(status.replace(/XX$/i, '00'));
+}
+
+function findResponse(responses: OpenApiResponse[], statusCode: number): OpenApiResponse | undefined {
+    const status = String(statusCode);
+    return responses.find(r => r.status === status)
+        ?? responses.find(r => r.status.toUpperCase() === `${status[0]}XX`)
+        ?? responses.find(r => r.status === 'default');
+}
+
+function pickMediaType(source: SourceDocument, response: OpenApiResponse): { type: string; sample: unknown } | undefined {
+    const type = response.contentTypes.find(isJsonMediaType) ?? response.contentTypes[0];
+    const content = response.node.get('content', true);
+    const media = isMap(content) ? content.get(type, true) : undefined;
+    if (!isMap(media)) {
+        return undefined;
+    }
+    if (media.has('example')) {
+        return { type, sample: toJSON(media.get('example', true)) };
+    }
+    const examples = media.get('examples', true);
+    if (isMap(examples) && examples.items.length > 0) {
+        const [example] = followRef(source, examples.items[0].value, '');
+        if (isMap(example) && example.has('value')) {
+            return { type, sample: toJSON(example.get('value', true)) };
+        }
+    }
+    return { type, sample: sampleSchema(source, media.get('schema', true)) };
+}
+
+function toJSON(value: unknown): unknown {
+    return isNode(value) ? value.toJSON() : value;
+}
+
+const STRING_FORMATS: Record<string, string> = {
+    'date-time': '2024-01-01T00:00:00Z',
+    'date': '2024-01-01',
+    'time': '00:00:00Z',
+    'email': 'user@example.com',
+    'uuid': '00000000-0000-4000-8000-000000000000',
+    'uri': 'https://example.com',
+    'hostname': 'example.com',
+    'ipv4': '127.0.0.1'
+};
+
+/**
+ * Builds a value matching a schema, from its examples, defaults and types.
+ */
+export function sampleSchema(source: SourceDocument, node: unknown, depth = 0): unknown {
+    const [schema] = followRef(source, node, '');
+    if (!isMap(schema) || depth > 10) {
+        return undefined;
+    }
+    for (const keyword of ['example', 'default', 'const']) {
+        if (schema.has(keyword)) {
+            return toJSON(schema.get(keyword, true));
+        }
+    }
+    for (const keyword of ['examples', 'enum']) {
+        const list = schema.get(keyword, true);
+        if (isSeq(list) && list.items.length > 0) {
+            return toJSON(list.items[0]);
+        }
+    }
+    const allOf = schema.get('allOf', true);
+    if (isSeq(allOf)) {
+        const parts = allOf.items.map(item => sampleSchema(source, item, depth + 1));
+        return parts.every(part => typeof part === 'object' && part !== null && !Array.isArray(part))
+            ? Object.assign({}, ...parts)
+            : parts.find(part => part !== undefined);
+    }
+    for (const keyword of ['oneOf', 'anyOf']) {
+        const list = schema.get(keyword, true);
+        if (isSeq(list) && list.items.length > 0) {
+            return sampleSchema(source, list.items[0], depth + 1);
+        }
+    }
+
+    // OpenAPI 3.1 types may be lists, e.g. [string, 'null']
+    const types = toJSON(schema.get('type', true));
+    const type = Array.isArray(types) ? types.find(t => t !== 'null') ?? 'null' : types;
+    const properties = schema.get('properties', true);
+    if (type === 'object' || (type === undefined && isMap(properties))) {
+        const value: Record<string, unknown> = {};
+        if (isMap(properties)) {
+            for (const pair of properties.items) {
+                value[String(toJSON(pair.key))] = sampleSchema(source, pair.value, depth + 1);
+            }
+        }
+        return value;
+    }
+    switch (type) {
+        case 'array': {
+            const item = sampleSchema(source, schema.get('items', true), depth + 1);
+            return item === undefined ? [] : [item];
+        }
+        case 'string':
+            return STRING_FORMATS[String(schema.get('format'))] ?? 'string';
+        case 'integer':
+        case 'number': {
+            const minimum = schema.get('minimum');
+            return typeof minimum === 'number' ? minimum : 0;
+        }
+        case 'boolean':
+            return true;
+        case 'null':
+            return null;
+        default:
+            return undefined;
+    }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Success criteria
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** A comparison of a simple condition, e.g. "$response.body#/status == 'available'" */
+const COMPARISON = /^\s*(\$[^\s=!<>()]+)\s*(==|>=|<=|>|<)\s*('(?:[^']|'')*'|"[^"]*"|[^\s()]+)\s*$/;
+
+function isSimple(criterion: Criterion): boolean {
+    const type = typeof criterion.type === 'object' ? criterion.type.type : criterion.type;
+    return type === undefined || type === 'simple';
+}
+
+function literal(text: string): unknown {
+    if (/^'.*'$|^".*"$/.test(text)) {
+        return text.slice(1, -1).replace(/''/g, '\'');
+    }
+    if (text === 'true' || text === 'false') {
+        return text === 'true';
+    }
+    if (text === 'null') {
+        return null;
+    }
+    const number = Number(text);
+    return Number.isNaN(number) ? text : number;
+}
+
+/**
+ * The comparisons a condition requires, those joined by "&&" outside of parentheses.
+ */
+function requiredComparisons(condition: string): { target: string; operator: string; value: unknown }[] {
+    if (/\|\||[()!](?!=)/.test(condition)) {
+        return [];
+    }
+    return condition.split('&&').flatMap(part => {
+        const match = COMPARISON.exec(part);
+        return match ? [{ target: match[1], operator: match[2], value: literal(match[3]) }] : [];
+    });
+}
+
+function findStatusCode(criteria: Criterion[]): number | undefined {
+    for (const criterion of criteria.filter(isSimple)) {
+        const comparison = requiredComparisons(criterion.condition)
+            .find(c => c.target === '$statusCode' && c.operator === '==' && typeof c.value === 'number');
+        if (comparison) {
+            return comparison.value as number;
+        }
+    }
+    return undefined;
+}
+
+function satisfyCriterion(criterion: Criterion, response: MockResponse) {
+    if (!isSimple(criterion)) {
+        return;
+    }
+    for (const { target, operator, value } of requiredComparisons(criterion.condition)) {
+        let wanted = value;
+        if (typeof value === 'number' && (operator === '>' || operator === '<')) {
+            wanted = operator === '>' ? value + 1 : value - 1;
+        }
+        const header = /^\$response\.header\.(.+)$/.exec(target);
+        const body = /^\$response\.body(?:#(.*))?$/.exec(target);
+        if (header) {
+            response.headers[header[1].toLowerCase()] = String(wanted);
+        } else if (body) {
+            response.body = setPointer(response.body, body[1] ?? '', wanted);
+        }
+    }
+}
+
+function setPointer(root: unknown, pointer: string, value: unknown): unknown {
+    const segments = parseJsonPointer(pointer);
+    if (segments.length === 0) {
+        return value;
+    }
+    // Arrays are indexed by their segments as well
+    const result = (typeof root === 'object' && root !== null ? root : {}) as Record<string, unknown>;
+    let parent = result;
+    segments.forEach((segment, index) => {
+        if (index === segments.length - 1) {
+            parent[segment] = value;
+            return;
+        }
+        if (typeof parent[segment] !== 'object' || parent[segment] === null) {
+            parent[segment] = /^\d+$/.test(segments[index + 1]) ? [] : {};
+        }
+        parent = parent[segment] as Record<string, unknown>;
+    });
+    return result;
+}
+
+/**
+ * Success criteria of the route's steps a response does not satisfy.
+ */
+function unsatisfiedCriteria(route: MockRoute, response: MockResponse, bodyText: string): string[] {
+    const state: RuntimeState = {
+        inputs: {},
+        outputs: {},
+        steps: {},
+        workflows: {},
+        sourceDescriptions: {},
+        components: {},
+        response: { ...response, bodyText }
+    };
+    return route.steps.flatMap(step => evaluateCriteria(step.criteria, state).results
+        .filter(result => !result.passed)
+        .map(result => `${step.stepId}: ${result.condition}`));
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Server
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Templated path segments, routes with fewer of them are matched first */
+function countTemplatedSegments(template: string): number {
+    return template.split('/').filter(segment => /\{[^}]+\}/.test(segment)).length;
+}
+
+function matchesPath(template: string, path: string): boolean {
+    const pattern = template.split(/\{[^}]+\}/).map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('[^/]+');
+    return new RegExp(`^${pattern}/?$`).test(path);
+}
+
+/**
+ * The override of the steps of a route. Requests do not tell which step sent them, so the steps
+ * calling the same operation cannot be overridden differently.
+ */
+function getRouteOverride(route: MockRoute, overrides: Record<string, MockOverride>): MockOverride | undefined {
+    const [first, ...others] = route.steps;
+    const override = overrides[first.stepId];
+    const conflicting = others.find(step => !isDeepStrictEqual(overrides[step.stepId], override));
+    if (conflicting) {
+        throw new Error(`Steps ${first.stepId} and ${conflicting.stepId} both call ${route.operation.method.toUpperCase()} ${route.operation.path}, they need the same override`);
+    }
+    return override;
+}
+
+/**
+ * Starts a server answering the operations of a workflow on 127.0.0.1. Each source description is
+ * served under "/<name>", the base URL `servers` gives for it.
+ */
+export async function startMockServer(options: MockServerOptions): Promise<MockServer> {
+    const routes = collectMockRoutes(options);
+    const overrides = new Map(routes.map(route => [route, getRouteOverride(route, options.overrides ?? {})]));
+    // "/pets/findByStatus" must not be answered by "/pets/{petId}", whichever step comes first
+    const matchOrder = [...routes].sort((a, b) => countTemplatedSegments(a.operation.path) - countTemplatedSegments(b.operation.path));
+    const server = http.createServer((request, response) => {
+        // Drain the body before answering
+        request.resume();
+        request.on('end', () => {
+            const url = new URL(request.url ?? '/', 'http://127.0.0.1');
+            const [, sourceName, ...rest] = url.pathname.split('/');
+            const path = `/${rest.join('/')}`;
+            const route = matchOrder.find(r => encodeURIComponent(r.sourceName) === sourceName
+                && r.operation.method === request.method?.toLowerCase()
+                && matchesPath(r.operation.path, path));
+
+            let mock: MockResponse;
+            if (route) {
+                mock = synthesizeResponse(route, overrides.get(route));
+            } else {
+                mock = { statusCode: 404, headers: { 'content-type': 'application/json' }, body: { error: `No mocked operation for ${request.method} ${url.pathname}` } };
+            }
+            const bodyText = mock.body === undefined ? '' : typeof mock.body === 'string' ? mock.body : JSON.stringify(mock.body);
+            response.writeHead(mock.statusCode, mock.headers);
+            response.end(bodyText);
+            options.onRequest?.({
+                method: request.method ?? 'GET',
+                url: request.url ?? '/',
+                route,
+                response: mock,
+                unsatisfied: route ? unsatisfiedCriteria(route, mock, bodyText) : []
+            });
+        });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(options.port ?? 0, '127.0.0.1', () => resolve());
+    });
+    const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    const servers: Record<string, string> = {};
+    routes.forEach(route => servers[route.sourceName] = `${url}/${encodeURIComponent(route.sourceName)}`);
+    return {
+        url,
+        servers,
+        routes,
+        close: () => new Promise<void>(resolve => {
+            server.close(() => resolve());
+            // Clients keep their connections alive
+            server.closeAllConnections();
+        })
+    };
+}
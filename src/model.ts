@@ -0,0 +1,178 @@
+import { Document, Node, Scalar, YAMLMap, isMap, isScalar, isSeq } from 'yaml';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Arazzo document model
+// An index of the identifiers declared in a document, pointing back at their AST nodes
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export const COMPONENT_SECTIONS = ['inputs', 'parameters', 'successActions', 'failureActions', 'schemas'] as const;
+
+export type ComponentSection = typeof COMPONENT_SECTIONS[number];
+
+/**
+ * A named declaration: the name, the scalar holding it, and the node it names
+ */
+export interface Declaration<T extends Node = Node> {
+    name: string;
+    nameNode: Scalar;
+    node: T;
+}
+
+export interface SourceDescriptionModel extends Declaration<YAMLMap> {
+    url?: string;
+    type?: string;
+}
+
+export interface StepModel extends Declaration<YAMLMap> {
+    index: number;
+    workflow: WorkflowModel;
+    outputs: Declaration[];
+}
+
+export interface WorkflowModel extends Declaration<YAMLMap> {
+    steps: StepModel[];
+    /** Declared input properties, undefined when the inputs schema cannot be resolved */
+    inputs: Declaration[] | undefined;
+    outputs: Declaration[];
+}
+
+export interface ArazzoModel {
+    sourceDescriptions: SourceDescriptionModel[];
+    workflows: WorkflowModel[];
+    components: Record<ComponentSection, Declaration[]>;
+}
+
+export function buildArazzoModel(yamlDoc: Document): ArazzoModel {
+    const model: ArazzoModel = {
+        sourceDescriptions: [],
+        workflows: [],
+        components: { inputs: [], parameters: [], successActions: [], failureActions: [], schemas: [] }
+    };
+
+    const root = yamlDoc.contents;
+    if (!isMap(root)) {
+        return model;
+    }
+
+    forEachMapItem(root.get('sourceDescriptions', true), item => {
+        const nameNode = getScalar(item, 'name');
+        if (nameNode) {
+            model.sourceDescriptions.push({
+                name: String(nameNode.value),
+                nameNode,
+                node: item,
+                url: getString(item, 'url'),
+                type: getString(item, 'type')
+            });
+        }
+    });
+
+    forEachMapItem(root.get('workflows', true), item => {
+        const nameNode = getScalar(item, 'workflowId');
+        if (!nameNode) {
+            return;
+        }
+        const workflow: WorkflowModel = {
+            name: String(nameNode.value),
+            nameNode,
+            node: item,
+            steps: [],
+            inputs: getWorkflowInputs(item.get('inputs', true), root),
+            outputs: getMapKeys(item.get('outputs', true))
+        };
+        forEachMapItem(item.get('steps', true), (stepItem, index) => {
+            const stepIdNode = getScalar(stepItem, 'stepId');
+            if (stepIdNode) {
+                workflow.steps.push({
+                    name: String(stepIdNode.value),
+                    nameNode: stepIdNode,
+                    node: stepItem,
+                    index,
+                    workflow,
+                    outputs: getMapKeys(stepItem.get('outputs', true))
+                });
+            }
+        });
+        model.workflows.push(workflow);
+    });
+
+    const components = root.get('components', true);
+    if (isMap(components)) {
+        for (const section of COMPONENT_SECTIONS) {
+            model.components[section] = getMapKeys(components.get(section, true));
+        }
+    }
+
+    return model;
+}
+
+export function findWorkflow(model: ArazzoModel, workflowId: string): WorkflowModel | undefined {
+    return model.workflows.find(w => w.name === workflowId);
+}
+
+export function findStep(workflow: WorkflowModel, stepId: string): StepModel | undefined {
+    return workflow.steps.find(s => s.name === stepId);
+}
+
+/**
+ * Finds the declared input properties of a workflow, following a `$ref` into `components.inputs`.
+ */
+function getWorkflowInputs(inputs: unknown, root: YAMLMap): Declaration[] | undefined {
+    if (inputs === undefined || inputs === null) {
+        return [];
+    }
+    if (!isMap(inputs)) {
+        return undefined;
+    }
+    const ref = inputs.get('$ref');
+    if (typeof ref === 'string') {
+        const match = /^#\/components\/inputs\/(.+)$/.exec(ref);
+        const target = match ? getIn(root, ['components', 'inputs', match[1]]) : undefined;
+        return isMap(target) ? getMapKeys(target.get('properties', true)) : undefined;
+    }
+    return getMapKeys(inputs.get('properties', true));
+}
+
+export function forEachMapItem(node: unknown, callback: (item: YAMLMap, index: number) => void) {
+    if (isSeq(node)) {
+        node.items.forEach((item, index) => {
+            if (isMap(item)) {
+                callback(item, index);
+            }
+        });
+    }
+}
+
+function getIn(node: unknown, path: string[]): unknown {
+    let current = node;
+    for (const key of path) {
+        if (!isMap(current)) {
+            return undefined;
+        }
+        current = current.get(key, true);
+    }
+    return current;
+}
+
+function getScalar(map: YAMLMap, key: string): Scalar | undefined {
+    const node = map.get(key, true);
+    return isScalar(node) && node.value !== null && node.value !== undefined ? node : undefined;
+}
+
+function getString(map: YAMLMap, key: string): string | undefined {
+    const node = getScalar(map, key);
+    return node ? String(node.value) : undefined;
+}
+
+function getMapKeys(node: unknown): Declaration[] {
+    if (!isMap(node)) {
+        return [];
+    }
+    const keys: Declaration[] = [];
+    for (const pair of node.items) {
+        if (isScalar(pair.key)) {
+            keys.push({ name: String(pair.key.value), nameNode: pair.key, node: (pair.value ?? pair.key) as Node });
+        }
+    }
+    return keys;
+}
@@ -0,0 +1,289 @@
+import { Document, Node, Scalar, YAMLMap, isMap, isNode, isScalar, isSeq } from 'yaml';
+import { SourceDocument, decodeUrl } from './sources';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// OpenAPI descriptions
+// Index of the operations of an OpenAPI 3.0/3.1 document
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'] as const;
+
+export type HttpMethod = typeof HTTP_METHODS[number];
+
+export interface OpenApiOperation {
+    operationId?: string;
+    method: HttpMethod;
+    /** Path template, e.g. "/pets/{petId}" */
+    path: string;
+    /** JSON pointer to the operation, e.g. "/paths/~1pets~1{petId}/get" */
+    pointer: string;
+    node: YAMLMap;
+    pathItem: YAMLMap;
+    summary?: string;
+}
+
+export interface OpenApiParameter {
+    name: string;
+    /** "path", "query", "header" or "cookie" */
+    in: string;
+    required: boolean;
+    node: YAMLMap;
+}
+
+export interface OpenApiRequestBody {
+    required: boolean;
+    /** Media types of `content`, e.g. "application/json" */
+    contentTypes: string[];
+    /** JSON pointer to the resolved request body object */
+    pointer: string;
+    node: YAMLMap;
+}
+
+export interface OpenApiResponse {
+    /** Status code or range, e.g. "200", "2XX" or "default" */
+    status: string;
+    contentTypes: string[];
+    /** JSON pointer to the resolved response object */
+    pointer: string;
+    node: YAMLMap;
+}
+
+const operationIndex = new WeakMap<SourceDocument, OpenApiOperation[]>();
+
+/**
+ * Lists the operations of an OpenAPI document, in document order.
+ */
+export function getOpenApiOperations(source: SourceDocument): OpenApiOperation[] {
+    let operations = operationIndex.get(source);
+    if (!operations) {
+        operations = collectOperations(source.yamlDoc);
+        operationIndex.set(source, operations);
+    }
+    return operations;
+}
+
+export function findOperationById(source: SourceDocument, operationId: string): OpenApiOperation | undefined {
+    return getOpenApiOperations(source).find(operation => operation.operationId === operationId);
+}
+
+export function findOperationByPointer(source: SourceDocument, pointer: string): OpenApiOperation | undefined {
+    return getOpenApiOperations(source).find(operation => operation.pointer === pointer);
+}
+
+/**
+ * Lists the parameters of an operation, including those inherited from its path item.
+ */
+export function getOperationParameters(source: SourceDocument, operation: OpenApiOperation): OpenApiParameter[] {
+    const parameters = new Map<string, OpenApiParameter>();
+    for (const list of [operation.pathItem.get('parameters', true), operation.node.get('parameters', true)]) {
+        if (!isSeq(list)) {
+            continue;
+        }
+        for (const item of list.items) {
+            const [node] = followRef(source, item, '');
+            if (!isMap(node)) {
+                continue;
+            }
+            const name = node.get('name');
+            const location = node.get('in');
+            if (typeof name !== 'string' || typeof location !== 'string') {
+                continue;
+            }
+            // Operation parameters override path item parameters with the same name and location
+            parameters.set(`${location}:${name}`, {
+                name,
+                in: location,
+                required: location === 'path' || node.get('required') === true,
+                node
+            });
+        }
+    }
+    return [...parameters.values()];
+}
+
+export function getOperationRequestBody(source: SourceDocument, operation: OpenApiOperation): OpenApiRequestBody | undefined {
+    const [node, pointer] = followRef(source, operation.node.get('requestBody', true), `${operation.pointer}/requestBody`);
+    if (!isMap(node)) {
+        return undefined;
+    }
+    return { required: node.get('required') === true, contentTypes: getMapKeys(node.get('content', true)), pointer, node };
+}
+
+export function getOperationResponses(source: SourceDocument, operation: OpenApiOperation): OpenApiResponse[] {
+    const responses = operation.node.get('responses', true);
+    if (!isMap(responses)) {
+        return [];
+    }
+    const result: OpenApiResponse[] = [];
+    for (const pair of responses.items) {
+        if (!isScalar(pair.key)) {
+            continue;
+        }
+        const status = String(pair.key.value);
+        const [node, pointer] = followRef(source, pair.value, `${operation.pointer}/responses${toJsonPointer([status])}`);
+        if (isMap(node)) {
+            result.push({ status, contentTypes: getMapKeys(node.get('content', true)), pointer, node });
+        }
+    }
+    return result;
+}
+
+/**
+ * Lists the server URLs of an operation, from the innermost `servers` declaring any, with their
+ * variables replaced by the default values.
+ */
+export function getOperationServers(source: SourceDocument, operation: OpenApiOperation): string[] {
+    const root = source.yamlDoc.contents;
+    for (const node of [operation.node, operation.pathItem, isMap(root) ? root : undefined]) {
+        const servers = node?.get('servers', true);
+        if (!isSeq(servers) || servers.items.length === 0) {
+            continue;
+        }
+        return servers.items.filter(isMap).flatMap(server => {
+            const url = server.get('url');
+            if (typeof url !== 'string') {
+                return [];
+            }
+            const variables = server.get('variables', true);
+            return [url.replace(/\{([^}]+)\}/g, (match, name: string) => {
+                const variable = isMap(variables) ? variables.get(name, true) : undefined;
+                const value = isMap(variable) ? variable.get('default') : undefined;
+                return value === undefined ? match : String(value);
+            })];
+        });
+    }
+    return [];
+}
+
+export function isJsonMediaType(mediaType: string): boolean {
+    return /^application\/(.+\+)?json$/i.test(mediaType);
+}
+
+function getMapKeys(node: unknown): string[] {
+    return isMap(node) ? node.items.filter(pair => isScalar(pair.key)).map(pair => String((pair.key as Scalar).value)) : [];
+}
+
+/**
+ * Lists the JSON pointers into the values a schema describes, e.g. "/id", "/owner/name" or "/0/id"
+ * for an array, up to `depth` segments deep.
+ */
+export function listSchemaPointers(source: SourceDocument, schemaPointer: string, depth = 3): string[] {
+    const pointers: string[] = [];
+    const visit = (schema: unknown, prefix: string, remaining: number, seen: Set<unknown>) => {
+        const [node] = followRef(source, schema, '');
+        if (!isMap(node) || remaining === 0 || seen.has(node)) {
+            return;
+        }
+        const path = new Set(seen).add(node);
+        for (const keyword of ['allOf', 'oneOf', 'anyOf']) {
+            const list = node.get(keyword, true);
+            if (isSeq(list)) {
+                list.items.forEach(item => visit(item, prefix, remaining, path));
+            }
+        }
+        const properties = node.get('properties', true);
+        if (isMap(properties)) {
+            for (const pair of properties.items) {
+                if (!isScalar(pair.key)) {
+                    continue;
+                }
+                const pointer = prefix + toJsonPointer([String(pair.key.value)]);
+                if (!pointers.includes(pointer)) {
+                    pointers.push(pointer);
+                }
+                visit(pair.value, pointer, remaining - 1, path);
+            }
+        }
+        const items = node.get('items', true);
+        if (items) {
+            visit(items, `${prefix}/0`, remaining - 1, path);
+        }
+    };
+    visit(resolveJsonPointer(source.yamlDoc, schemaPointer), '', depth, new Set());
+    return pointers;
+}
+
+/**
+ * Follows local `$ref`s ("#/components/...") from a node, returning the target and its JSON pointer.
+ */
+export function followRef(source: SourceDocument, node: unknown, pointer: string): [unknown, string] {
+    for (let depth = 0; depth < 10 && isMap(node); depth++) {
+        const ref = node.get('$ref');
+        if (typeof ref !== 'string' || !ref.startsWith('#')) {
+            break;
+        }
+        pointer = decodeUrl(ref.slice(1));
+        node = resolveJsonPointer(source.yamlDoc, pointer);
+    }
+    return [node, pointer];
+}
+
+/**
+ * Splits a JSON pointer into its unescaped segments.
+ */
+export function parseJsonPointer(pointer: string): string[] {
+    if (pointer === '') {
+        return [];
+    }
+    return pointer.slice(1).split('/').map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+export function toJsonPointer(segments: string[]): string {
+    return segments.map(segment => '/' + segment.replace(/~/g, '~0').replace(/\//g, '~1')).join('');
+}
+
+/**
+ * Returns the node a JSON pointer points at, or undefined if it does not resolve.
+ */
+export function resolveJsonPointer(yamlDoc: Document, pointer: string): Node | undefined {
+    return resolveJsonPointerFrom(yamlDoc.contents, pointer);
+}
+
+/**
+ * Returns the node a JSON pointer points at relative to `node`.
+ */
+export function resolveJsonPointerFrom(node: unknown, pointer: string): Node | undefined {
+    for (const segment of parseJsonPointer(pointer)) {
+        if (isMap(node)) {
+            node = node.get(segment, true);
+        } else if (isSeq(node)) {
+            node = node.items[Number(segment)];
+        } else {
+            return undefined;
+        }
+    }
+    return isNode(node) ? node : undefined;
+}
+
+function collectOperations(yamlDoc: Document): OpenApiOperation[] {
+    const operations: OpenApiOperation[] = [];
+    const paths = isMap(yamlDoc.contents) ? yamlDoc.contents.get('paths', true) : undefined;
+    if (!isMap(paths)) {
+        return operations;
+    }
+    for (const pathPair of paths.items) {
+        if (!isScalar(pathPair.key) || !isMap(pathPair.value)) {
+            continue;
+        }
+        const pathTemplate = String(pathPair.key.value);
+        const pathItem = pathPair.value;
+        for (const method of HTTP_METHODS) {
+            const node = pathItem.get(method, true);
+            if (!isMap(node)) {
+                continue;
+            }
+            const operationId = node.get('operationId');
+            const summary = node.get('summary');
+            operations.push({
+                operationId: typeof operationId === 'string' ? operationId : undefined,
+                method,
+                path: pathTemplate,
+                pointer: toJsonPointer(['paths', pathTemplate, method]),
+                node,
+                pathItem,
+                summary: typeof summary === 'string' ? summary : undefined
+            });
+        }
+    }
+    return operations;
+}
@@ -0,0 +1,173 @@
+import { Scalar, isScalar } from 'yaml';
+import { getNodeOffsets } from './document';
+import { ArazzoModel, StepModel } from './model';
+import { OpenApiOperation, findOperationById, getOpenApiOperations, parseJsonPointer, resolveJsonPointer } from './openapi';
+import { validateStepRequest } from './request-validation';
+import { LoadedSource, isOpenApiSource, isRemoteUrl } from './sources';
+import { withSuggestion } from './suggestions';
+import { ArazzoProblem } from './validation';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Operation resolution
+// Matches step operationId and operationPath values with the operations of the OpenAPI sources
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const QUALIFIED_OPERATION_ID = /^\$sourceDescriptions\.([^.]+)\.(.+)$/;
+const OPERATION_PATH = /^\{\$sourceDescriptions\.([^.}]+)\.url\}#(.*)$/;
+
+export type OperationResolution =
+    | { status: 'resolved'; source: LoadedSource; operation: OpenApiOperation }
+    /** The reference is wrong */
+    | { status: 'unresolved'; message: string; code: string }
+    /** The reference cannot be checked, e.g. the source is remote */
+    | { status: 'unknown' };
+
+const UNKNOWN: OperationResolution = { status: 'unknown' };
+
+/**
+ * Finds the OpenAPI operation a step calls through its `operationId` or `operationPath`.
+ */
+export function resolveStepOperation(step: StepModel, sources: LoadedSource[]): OperationResolution {
+    const operationId = step.node.get('operationId');
+    if (typeof operationId === 'string') {
+        return resolveOperationId(operationId, sources);
+    }
+    const operationPath = step.node.get('operationPath');
+    if (typeof operationPath === 'string') {
+        return resolveOperationPath(operationPath, sources);
+    }
+    return UNKNOWN;
+}
+
+/**
+ * Resolves "getPet", "$sourceDescriptions.petStore.getPet" or the "petStore.getPet" shorthand.
+ */
+export function resolveOperationId(value: string, sources: LoadedSource[]): OperationResolution {
+    let operationId = value;
+    let candidates = sources.filter(isOpenApiSource);
+
+    const qualified = QUALIFIED_OPERATION_ID.exec(value);
+    const prefix = value.split('.')[0];
+    if (qualified) {
+        const source = sources.find(s => s.description.name === qualified[1]);
+        if (!source) {
+            return { status: 'unresolved', message: `Unknown source description: ${qualified[1]}`, code: 'unknown-source' };
+        }
+        operationId = qualified[2];
+        candidates = [source];
+    } else if (value.includes('.') && sources.some(s => s.description.name === prefix)) {
+        operationId = value.slice(prefix.length + 1);
+        candidates = sources.filter(s => s.description.name === prefix);
+    }
+
+    if (candidates.length === 0 || candidates.some(source => !source.document)) {
+        return UNKNOWN;
+    }
+    for (const source of candidates) {
+        const operation = findOperationById(source.document!, operationId);
+        if (operation) {
+            return { status: 'resolved', source, operation };
+        }
+    }
+
+    const known = candidates.flatMap(source => getOpenApiOperations(source.document!))
+        .map(operation => operation.operationId)
+        .filter((id): id is string => id !== undefined);
+    const where = candidates.length === 1 && operationId !== value ? ` in source description "${candidates[0].description.name}"` : '';
+    return {
+        status: 'unresolved',
+        message: withSuggestion(`Unknown operationId "${operationId}"${where}`, operationId, known),
+        code: 'unknown-operation'
+    };
+}
+
+/**
+ * Resolves "{$sourceDescriptions.petStore.url}#/paths/~1pets~1{petId}/get".
+ */
+export function resolveOperationPath(value: string, sources: LoadedSource[]): OperationResolution {
+    const match = OPERATION_PATH.exec(value);
+    if (!match) {
+        return UNKNOWN;
+    }
+    const [, sourceName, pointer] = match;
+    const source = sources.find(s => s.description.name === sourceName);
+    if (!source) {
+        return { status: 'unresolved', message: `Unknown source description: ${sourceName}`, code: 'unknown-source' };
+    }
+    if (!source.document || !isOpenApiSource(source) || pointer.includes('{$')) {
+        return UNKNOWN;
+    }
+
+    const operations = getOpenApiOperations(source.document);
+    const operation = operations.find(o => o.pointer === pointer);
+    if (operation) {
+        return { status: 'resolved', source, operation };
+    }
+
+    const segments = parseJsonPointer(pointer);
+    if (segments[0] === 'paths' && segments.length === 3) {
+        const [, pathTemplate, method] = segments;
+        const methods = operations.filter(o => o.path === pathTemplate).map(o => o.method);
+        if (methods.length === 0) {
+            const paths = new Set(operations.map(o => o.path));
+            return {
+                status: 'unresolved',
+                message: withSuggestion(`Unknown path "${pathTemplate}" in source description "${sourceName}"`, pathTemplate, paths),
+                code: 'unknown-operation'
+            };
+        }
+        if (!(methods as string[]).includes(method)) {
+            return {
+                status: 'unresolved',
+                message: `Path "${pathTemplate}" has no ${method} operation in source description "${sourceName}". Available: ${methods.join(', ')}`,
+                code: 'unknown-operation'
+            };
+        }
+    }
+    if (!resolveJsonPointer(source.document.yamlDoc, pointer)) {
+        return {
+            status: 'unresolved',
+            message: `JSON pointer "#${pointer}" does not resolve in source description "${sourceName}"`,
+            code: 'unknown-operation'
+        };
+    }
+    return UNKNOWN;
+}
+
+/**
+ * Reports unreadable local source descriptions, steps calling operations that do not exist,
+ * and parameters or request bodies that do not match the operation.
+ */
+export function validateOperations(model: ArazzoModel, sources: LoadedSource[]): ArazzoProblem[] {
+    const problems: ArazzoProblem[] = [];
+    const report = (node: Scalar, message: string, severity: ArazzoProblem['severity'], code: string) => {
+        const [start, end] = getNodeOffsets(node);
+        problems.push({ message, severity, start, end, code });
+    };
+
+    for (const source of sources) {
+        const url = source.description.node.get('url', true);
+        if (source.path && !source.document && isScalar(url) && !isRemoteUrl(String(url.value))) {
+            report(url, `Source description file not found: ${source.path}`, 'warning', 'unresolved-source');
+        }
+    }
+
+    for (const workflow of model.workflows) {
+        for (const step of workflow.steps) {
+            const resolution = resolveStepOperation(step, sources);
+            if (resolution.status === 'resolved') {
+                problems.push(...validateStepRequest(step, model, resolution.source.document!, resolution.operation));
+            }
+            if (resolution.status !== 'unresolved') {
+                continue;
+            }
+            const node = step.node.get('operationId', true) ?? step.node.get('operationPath', true);
+            if (isScalar(node)) {
+                report(node, resolution.message, 'error', resolution.code);
+            }
+        }
+    }
+
+    return problems;
+}
+
@@ -0,0 +1,129 @@
+import { Document, Node, Scalar, YAMLMap, isMap, isScalar, isSeq } from 'yaml';
+import { getNodeOffsets } from './document';
+import { ArazzoModel, COMPONENT_SECTIONS, ComponentSection, Declaration, WorkflowModel, buildArazzoModel, findStep, findWorkflow, forEachMapItem } from './model';
+import { ArazzoProblem } from './validation';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Cross-reference validation
+// Checks that stepId, workflowId and $components references point at something real
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const SOURCE_WORKFLOW_PATTERN = /^\$sourceDescriptions\.([^.]+)\.(.+)$/;
+const COMPONENT_REFERENCE_PATTERN = /^\$components\.([^.]+)\.(.+)$/;
+
+export function validateReferences(yamlDoc: Document, model: ArazzoModel = buildArazzoModel(yamlDoc)): ArazzoProblem[] {
+    const problems: ArazzoProblem[] = [];
+    const report = (node: Node, message: string, code: string) => {
+        const [start, end] = getNodeOffsets(node);
+        problems.push({ message, severity: 'error', start, end, code });
+    };
+
+    reportDuplicates(model.sourceDescriptions, name => `Duplicate source description name: ${name}`, report);
+    reportDuplicates(model.workflows, name => `Duplicate workflowId: ${name}`, report);
+
+    const checkWorkflowReference = (node: unknown) => {
+        if (!isScalar(node) || typeof node.value !== 'string') {
+            return;
+        }
+        const value = node.value;
+        const sourceMatch = SOURCE_WORKFLOW_PATTERN.exec(value);
+        if (sourceMatch) {
+            const source = model.sourceDescriptions.find(s => s.name === sourceMatch[1]);
+            if (!source) {
+                report(node, `Unknown source description: ${sourceMatch[1]}`, 'unknown-source');
+            } else if (source.type === 'openapi') {
+                report(node, `Source description "${source.name}" is an OpenAPI description and has no workflows`, 'unknown-workflow');
+            }
+        } else if (!findWorkflow(model, value)) {
+            report(node, `Unknown workflowId: ${value}`, 'unknown-workflow');
+        }
+    };
+
+    const checkComponentReference = (item: YAMLMap) => {
+        const reference = item.get('reference', true);
+        if (!isScalar(reference) || typeof reference.value !== 'string') {
+            return;
+        }
+        const match = COMPONENT_REFERENCE_PATTERN.exec(reference.value);
+        if (!match || !COMPONENT_SECTIONS.includes(match[1] as ComponentSection)) {
+            // Malformed references are reported by the schema validation
+            return;
+        }
+        const declarations = model.components[match[1] as ComponentSection];
+        if (!declarations.some(d => d.name === match[2])) {
+            report(reference, `Unknown component: ${reference.value}`, 'unknown-component');
+        }
+    };
+
+    const checkActions = (actions: unknown, workflow: WorkflowModel | undefined) => {
+        forEachMapItem(actions, action => {
+            if (action.has('reference')) {
+                checkComponentReference(action);
+                return;
+            }
+            const stepId = action.get('stepId', true);
+            if (workflow && isScalar(stepId) && typeof stepId.value === 'string' && !findStep(workflow, stepId.value)) {
+                report(stepId, `Unknown stepId "${stepId.value}" in workflow "${workflow.name}"`, 'unknown-step');
+            }
+            checkWorkflowReference(action.get('workflowId', true));
+        });
+    };
+
+    const checkParameters = (parameters: unknown) => {
+        forEachMapItem(parameters, parameter => {
+            if (parameter.has('reference')) {
+                checkComponentReference(parameter);
+            }
+        });
+    };
+
+    for (const workflow of model.workflows) {
+        reportDuplicates(workflow.steps, name => `Duplicate stepId "${name}" in workflow "${workflow.name}"`, report);
+
+        const dependsOn = workflow.node.get('dependsOn', true);
+        if (isSeq(dependsOn)) {
+            dependsOn.items.forEach(checkWorkflowReference);
+        }
+        checkActions(workflow.node.get('successActions', true), workflow);
+        checkActions(workflow.node.get('failureActions', true), workflow);
+        checkParameters(workflow.node.get('parameters', true));
+
+        for (const step of workflow.steps) {
+            checkWorkflowReference(step.node.get('workflowId', true));
+            checkParameters(step.node.get('parameters', true));
+            checkActions(step.node.get('onSuccess', true), workflow);
+            checkActions(step.node.get('onFailure', true), workflow);
+        }
+    }
+
+    // Reusable actions may only be checked for workflows, their stepId depends on where they are used
+    const components = isMap(yamlDoc.contents) ? yamlDoc.contents.get('components', true) : undefined;
+    if (isMap(components)) {
+        for (const section of ['successActions', 'failureActions']) {
+            const actions = components.get(section, true);
+            if (isMap(actions)) {
+                for (const pair of actions.items) {
+                    if (isMap(pair.value)) {
+                        checkWorkflowReference(pair.value.get('workflowId', true));
+                    }
+                }
+            }
+        }
+    }
+
+    return problems;
+}
+
+function reportDuplicates(
+    declarations: Declaration[],
+    message: (name: string) => string,
+    report: (node: Scalar, message: string, code: string) => void
+) {
+    const seen = new Set<string>();
+    for (const declaration of declarations) {
+        if (seen.has(declaration.name)) {
+            report(declaration.nameNode, message(declaration.name), 'duplicate-id');
+        }
+        seen.add(declaration.name);
+    }
+}
@@ -0,0 +1,293 @@
+import { getLineAndCharacter, getNodeOffsets, parseArazzoDocument } from './document';
+import { buildArazzoModel, findStep, findWorkflow } from './model';
+import { StepResult, WorkflowResult } from './runner';
+import { describeStepFailure } from './step-failures';
+import { ArazzoProblem } from './validation';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Reporters
+// Validation problems and run results formatted for terminals and CI: stylish, JSON, SARIF and JUnit
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export const REPORT_FORMATS = ['stylish', 'json', 'sarif', 'junit'] as const;
+
+export type ReportFormat = typeof REPORT_FORMATS[number];
+
+/** A checked document; `path` is shown as is, e.g. relative to the working directory */
+export interface ValidationReport {
+    path: string;
+    text: string;
+    problems: ArazzoProblem[];
+}
+
+export interface RunReport {
+    path: string;
+    text: string;
+    results: WorkflowResult[];
+}
+
+interface Region {
+    startLine: number;
+    startColumn: number;
+    endLine: number;
+    endColumn: number;
+}
+
+/** 1-based lines and columns, as terminals and SARIF show them */
+function toRegion(text: string, start: number, end: number): Region {
+    const from = getLineAndCharacter(text, start);
+    const to = getLineAndCharacter(text, end);
+    return { startLine: from.line + 1, startColumn: from.character + 1, endLine: to.line + 1, endColumn: to.character + 1 };
+}
+
+function plural(count: number, word: string): string {
+    return `${count} ${word}${count === 1 ? '' : 's'}`;
+}
+
+function escapeXml(text: string): string {
+    return text.replace(/[<>&"']/g, c => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;', '\'': '&apos;' })[c]!);
+}
+
+const SARIF_LEVELS: Record<ArazzoProblem['severity'], string> = {
+    error: 'error',
+    warning: 'warning',
+    information: 'note',
+    hint: 'note'
+};
+
+interface SarifResult {
+    ruleId: string;
+    level: string;
+    message: string;
+    path: string;
+    region: Region;
+}
+
+function toSarif(results: SarifResult[]): string {
+    const rules = [...new Set(results.map(result => result.ruleId))].map(id => ({ id }));
+    return JSON.stringify({
+        $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+        version: '2.1.0',
+        runs: [{
+            tool: { driver: { name: 'arazzo', informationUri: 'https://github.com/connEthics/arazzo-vscode', rules } },
+            results: results.map(result => ({
+                ruleId: result.ruleId,
+                level: result.level,
+                message: { text: result.message },
+                locations: [{
+                    physicalLocation: { artifactLocation: { uri: result.path.split('\\').join('/') }, region: result.region }
+                }]
+            }))
+        }]
+    }, null, 2);
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Validation
+// ───────────────────────────────────────────────────────────────────────────────
+
+export function formatValidation(reports: ValidationReport[], format: ReportFormat): string {
+    // Checks report their problems one after the other, they are listed in the order of the document
+    reports = reports.map(report => ({ ...report, problems: [...report.problems].sort((a, b) => a.start - b.start || a.end - b.end) }));
+    switch (format) {
+        case 'stylish':
+            return formatValidationStylish(reports);
+        case 'json':
+            return JSON.stringify(reports.map(report => ({
+                path: report.path,
+                problems: report.problems.map(problem => ({
+                    code: problem.code,
+                    severity: problem.severity,
+                    message: problem.message,
+                    ...toRegion(report.text, problem.start, problem.end)
+                }))
+            })), null, 2);
+        case 'sarif':
+            return toSarif(reports.flatMap(report => report.problems.map(problem => ({
+                ruleId: problem.code,
+                level: SARIF_LEVELS[problem.severity],
+                message: problem.message,
+                path: report.path,
+                region: toRegion(report.text, problem.start, problem.end)
+            }))));
+        case 'junit':
+            return formatValidationJUnit(reports);
+    }
+}
+
+function formatValidationStylish(reports: ValidationReport[]): string {
+    const lines: string[] = [];
+    let errors = 0;
+    let warnings = 0;
+    for (const report of reports.filter(r => r.problems.length > 0)) {
+        lines.push(report.path);
+        for (const problem of report.problems) {
+            const { startLine, startColumn } = toRegion(report.text, problem.start, problem.end);
+            lines.push(`  ${`${startLine}:${startColumn}`.padEnd(8)}${problem.severity.padEnd(13)}${problem.message}  ${problem.code}`);
+            errors += problem.severity === 'error' ? 1 : 0;
+            warnings += problem.severity === 'warning' ? 1 : 0;
+        }
+        lines.push('');
+    }
+    const total = reports.reduce((count, report) => count + report.problems.length, 0);
+    lines.push(total === 0
+        ? `✔ ${plural(reports.length, 'file')} checked, no problems`
+        : `✖ ${plural(total, 'problem')} (${plural(errors, 'error')}, ${plural(warnings, 'warning')})`);
+    return lines.join('\n');
+}
+
+function formatValidationJUnit(reports: ValidationReport[]): string {
+    const failures = reports.filter(report => report.problems.some(problem => problem.severity === 'error')).length;
+    const lines = [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        `<testsuites name="arazzo validate" tests="${reports.length}" failures="${failures}">`,
+        `  <testsuite name="arazzo validate" tests="${reports.length}" failures="${failures}">`
+    ];
+    for (const report of reports) {
+        const name = escapeXml(report.path);
+        const errors = report.problems.filter(problem => problem.severity === 'error');
+        if (errors.length === 0) {
+            lines.push(`    <testcase classname="arazzo.validate" name="${name}"/>`);
+            continue;
+        }
+        const details = report.problems.map(problem => {
+            const { startLine, startColumn } = toRegion(report.text, problem.start, problem.end);
+            return `${report.path}:${startLine}:${startColumn} ${problem.severity} ${problem.message} (${problem.code})`;
+        });
+        lines.push(
+            `    <testcase classname="arazzo.validate" name="${name}">`,
+            `      <failure message="${escapeXml(plural(errors.length, 'error'))}" type="validation">${escapeXml(details.join('\n'))}</failure>`,
+            '    </testcase>'
+        );
+    }
+    lines.push('  </testsuite>', '</testsuites>');
+    return lines.join('\n');
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Runs
+// ───────────────────────────────────────────────────────────────────────────────
+
+/** The last execution of each step, in the order steps first ran */
+function lastExecutions(result: WorkflowResult): StepResult[] {
+    return [...new Map(result.steps.map(step => [step.stepId, step])).values()];
+}
+
+/**
+ * Finds the declaration of a step, or of the workflow when no step is given, to point reports at.
+ */
+function locate(text: string, workflowId: string, stepId?: string): Region {
+    const model = buildArazzoModel(parseArazzoDocument(text).yamlDoc);
+    const workflow = findWorkflow(model, workflowId);
+    const step = workflow && stepId !== undefined ? findStep(workflow, stepId) : undefined;
+    const [start, end] = getNodeOffsets((step ?? workflow)?.nameNode);
+    return toRegion(text, start, end);
+}
+
+export function formatRun(reports: RunReport[], format: ReportFormat): string {
+    switch (format) {
+        case 'stylish':
+            return formatRunStylish(reports);
+        case 'json':
+            return JSON.stringify(reports.map(report => ({ path: report.path, results: report.results })), null, 2);
+        case 'sarif':
+            return toSarif(reports.flatMap(report => report.results.flatMap(result => {
+                const failed = lastExecutions(result).filter(step => step.status !== 'passed');
+                if (result.status === 'failed' && failed.length === 0) {
+                    return [{
+                        ruleId: 'workflow-failed',
+                        level: 'error',
+                        message: result.error ?? `${result.workflowId} failed`,
+                        path: report.path,
+                        region: locate(report.text, result.workflowId)
+                    }];
+                }
+                return failed.map(step => ({
+                    ruleId: step.status === 'error' ? 'step-error' : 'step-failed',
+                    level: 'error',
+                    message: describeStepFailure(step).message,
+                    path: report.path,
+                    region: locate(report.text, result.workflowId, step.stepId)
+                }));
+            })));
+        case 'junit':
+            return formatRunJUnit(reports);
+    }
+}
+
+function formatRunStylish(reports: RunReport[]): string {
+    const lines: string[] = [];
+    const results = reports.flatMap(report => report.results);
+    for (const report of reports) {
+        lines.push(report.path);
+        for (const result of report.results) {
+            lines.push(`  ${result.status === 'passed' ? '✔' : '✖'} ${result.workflowId}`);
+            for (const step of result.steps) {
+                const attempt = step.attempt > 1 ? ` (attempt ${step.attempt})` : '';
+                const exchange = step.response ? `  ${step.request?.method} ${step.request?.url} → ${step.response.statusCode}` : '';
+                lines.push(`    ${step.status === 'passed' ? '✔' : '✖'} ${step.stepId}${attempt}${exchange}`);
+                if (step.status !== 'passed') {
+                    lines.push(...describeStepFailure(step).message.split('\n').map(line => line ? `        ${line}` : ''));
+                }
+            }
+            lines.push(...result.skipped.map(stepId => `    - ${stepId} (skipped)`));
+            if (result.error && result.steps.every(step => step.status === 'passed')) {
+                lines.push(`    ${result.error}`);
+            }
+        }
+        lines.push('');
+    }
+    const failed = results.filter(result => result.status === 'failed').length;
+    lines.push(failed === 0
+        ? `✔ ${plural(results.length, 'workflow')} passed`
+        : `✖ ${failed} of ${plural(results.length, 'workflow')} failed`);
+    return lines.join('\n');
+}
+
+function formatRunJUnit(reports: RunReport[]): string {
+    const suites: string[] = [];
+    let tests = 0;
+    let failures = 0;
+    let errors = 0;
+    for (const report of reports) {
+        for (const result of report.results) {
+            const steps = lastExecutions(result);
+            const suiteFailures = steps.filter(step => step.status === 'failed').length;
+            const suiteErrors = steps.filter(step => step.status === 'error').length + (result.status === 'failed' && steps.every(step => step.status === 'passed') ? 1 : 0);
+            const cases = steps.map(step => {
+                const name = `name="${escapeXml(step.stepId)}" classname="${escapeXml(`${report.path}#${result.workflowId}`)}"`;
+                if (step.status === 'passed') {
+                    return `    <testcase ${name}/>`;
+                }
+                const failure = describeStepFailure(step).message;
+                const element = step.status === 'error' ? 'error' : 'failure';
+                return [
+                    `    <testcase ${name}>`,
+                    `      <${element} message="${escapeXml(failure.split('\n')[0])}">${escapeXml(failure)}</${element}>`,
+                    '    </testcase>'
+                ].join('\n');
+            });
+            cases.push(...result.skipped.map(stepId =>
+                `    <testcase name="${escapeXml(stepId)}" classname="${escapeXml(`${report.path}#${result.workflowId}`)}"><skipped/></testcase>`
+            ));
+            if (result.status === 'failed' && steps.every(step => step.status === 'passed')) {
+                // The workflow failed outside of its steps, e.g. its inputs or sources could not be loaded
+                cases.push(`    <testcase name="${escapeXml(result.workflowId)}" classname="${escapeXml(report.path)}"><error message="${escapeXml(result.error ?? 'failed')}"/></testcase>`);
+            }
+            tests += cases.length;
+            failures += suiteFailures;
+            errors += suiteErrors;
+            suites.push(
+                `  <testsuite name="${escapeXml(`${report.path}#${result.workflowId}`)}" tests="${cases.length}" failures="${suiteFailures}" errors="${suiteErrors}" skipped="${result.skipped.length}">`,
+                ...cases,
+                '  </testsuite>'
+            );
+        }
+    }
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        `<testsuites name="arazzo run" tests="${tests}" failures="${failures}" errors="${errors}">`,
+        ...suites,
+        '</testsuites>'
+    ].join('\n');
+}
@@ -0,0 +1,224 @@
+import { DOMParser, XMLSerializer } from '@xmldom/xmldom';
+import * as xpath from 'xpath';
+import { OpenApiOperation, getOperationParameters, getOperationRequestBody, getOperationServers, isJsonMediaType, parseJsonPointer } from './openapi';
+import { HttpRequest, RuntimeState, evaluateValue, stringifyValue } from './runtime';
+import { LoadedSource, isRemoteUrl } from './sources';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Requests
+// Builds the HTTP request of a step from its parameters, request body and OpenAPI operation
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * A parameter with its reference resolved; `value` may still hold runtime expressions
+ */
+export interface StepParameter {
+    name: string;
+    in?: string;
+    value: unknown;
+}
+
+export interface StepRequestBody {
+    contentType?: string;
+    payload?: unknown;
+    replacements?: { target: string; value: unknown }[];
+}
+
+export interface RequestTarget {
+    source: LoadedSource;
+    operation: OpenApiOperation;
+    /** Overrides the servers declared by the OpenAPI description */
+    serverUrl?: string;
+}
+
+const COMPONENT_PARAMETER = /^\$components\.parameters\.(.+)$/;
+
+/**
+ * Resolves the parameters of a step: workflow parameters apply to every step, and step parameters
+ * override those with the same name and location.
+ */
+export function resolveParameters(workflowParameters: unknown, stepParameters: unknown, components: Record<string, unknown>): StepParameter[] {
+    const parameters = new Map<string, StepParameter>();
+    for (const list of [workflowParameters, stepParameters]) {
+        for (const item of Array.isArray(list) ? list : []) {
+            const parameter = resolveParameter(item, components);
+            if (parameter) {
+                parameters.set(`${parameter.in ?? ''}:${parameter.name}`, parameter);
+            }
+        }
+    }
+    return [...parameters.values()];
+}
+
+function resolveParameter(item: unknown, components: Record<string, unknown>): StepParameter | undefined {
+    if (item === null || typeof item !== 'object') {
+        return undefined;
+    }
+    let parameter = item as Record<string, unknown>;
+    if (typeof parameter.reference === 'string') {
+        const match = COMPONENT_PARAMETER.exec(parameter.reference);
+        const parameters = components.parameters as Record<string, Record<string, unknown>> | undefined;
+        const component = match ? parameters?.[match[1]] : undefined;
+        if (!component) {
+            throw new Error(`Unknown parameter reference: ${parameter.reference}`);
+        }
+        // A value next to the reference overrides the value of the component
+        parameter = 'value' in parameter ? { ...component, value: parameter.value } : component;
+    }
+    if (typeof parameter.name !== 'string') {
+        return undefined;
+    }
+    return { name: parameter.name, in: typeof parameter.in === 'string' ? parameter.in : undefined, value: parameter.value };
+}
+
+export function buildRequest(target: RequestTarget, parameters: StepParameter[], requestBody: StepRequestBody | undefined, state: RuntimeState): HttpRequest {
+    const { source, operation } = target;
+    const declared = source.document ? getOperationParameters(source.document, operation) : [];
+    const request: HttpRequest = { method: operation.method.toUpperCase(), url: '', headers: {}, query: {}, path: {} };
+    const cookies: string[] = [];
+    const query = new URLSearchParams();
+
+    for (const parameter of parameters) {
+        // `in` may be left out when the operation declares a single parameter of that name
+        const location = parameter.in ?? declared.find(p => p.name === parameter.name)?.in ?? 'query';
+        const value = evaluateValue(parameter.value, state);
+        const values = Array.isArray(value) ? value.map(stringifyValue) : [stringifyValue(value)];
+        switch (location) {
+            case 'path':
+                request.path[parameter.name] = values.join(',');
+                break;
+            case 'query':
+                values.forEach(v => query.append(parameter.name, v));
+                request.query[parameter.name] = values.join(',');
+                break;
+            case 'header':
+                request.headers[parameter.name.toLowerCase()] = values.join(', ');
+                break;
+            case 'cookie':
+                cookies.push(`${parameter.name}=${encodeURIComponent(values.join(','))}`);
+                break;
+            default:
+                throw new Error(`Unknown parameter location "${location}" of ${parameter.name}`);
+        }
+    }
+    if (cookies.length > 0) {
+        request.headers.cookie = cookies.join('; ');
+    }
+
+    const path = operation.path.replace(/\{([^}]+)\}/g, (match, name: string) => {
+        if (!(name in request.path)) {
+            throw new Error(`Missing path parameter: ${name}`);
+        }
+        return encodeURIComponent(request.path[name]);
+    });
+    const search = query.toString();
+    request.url = `${getServerUrl(target).replace(/\/+$/, '')}${path}${search ? `?${search}` : ''}`;
+
+    if (requestBody && 'payload' in requestBody) {
+        const declaredTypes = source.document ? getOperationRequestBody(source.document, operation)?.contentTypes : undefined;
+        const contentType = requestBody.contentType ?? declaredTypes?.[0]
+            ?? (typeof requestBody.payload === 'string' ? 'text/plain' : 'application/json');
+        let body = evaluateValue(requestBody.payload, state);
+        for (const replacement of requestBody.replacements ?? []) {
+            body = applyReplacement(body, replacement.target, evaluateValue(replacement.value, state), contentType);
+        }
+        request.body = body;
+        request.bodyText = serializeBody(body, contentType);
+        request.headers['content-type'] ??= contentType;
+    }
+    return request;
+}
+
+function getServerUrl(target: RequestTarget): string {
+    if (target.serverUrl) {
+        return target.serverUrl;
+    }
+    const { source, operation } = target;
+    const server = source.document ? getOperationServers(source.document, operation)[0] : undefined;
+    if (server && /^[a-z][a-z0-9+.-]*:\/\//i.test(server)) {
+        return server;
+    }
+    // Relative server URLs are relative to the location of the OpenAPI description
+    const url = source.description.url;
+    if (url && isRemoteUrl(url)) {
+        return new URL(server ?? '/', url).toString();
+    }
+    throw new Error(`The OpenAPI description of ${source.description.name} declares no absolute server URL`);
+}
+
+/**
+ * Replaces the value at a JSON pointer of a JSON payload, or the nodes an XPath selects in an XML payload.
+ * Text payloads are JSON or XML by their content type, or else by their first character.
+ */
+function applyReplacement(body: unknown, target: string, value: unknown, contentType: string): unknown {
+    if (typeof body !== 'string') {
+        return replaceJsonPointer(body, target, value);
+    }
+    const mediaType = contentType.split(';')[0].trim();
+    const isJson = isJsonMediaType(mediaType) || !/[/+]xml$/i.test(mediaType) && /^\s*[[{]/.test(body);
+    if (!isJson) {
+        return replaceXPath(body, target, value);
+    }
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(body);
+    } catch {
+        throw new Error(`The payload is not valid JSON, ${target} cannot be replaced`);
+    }
+    return JSON.stringify(replaceJsonPointer(parsed, target, value));
+}
+
+function replaceJsonPointer(body: unknown, target: string, value: unknown): unknown {
+    const segments = parseJsonPointer(target);
+    if (segments.length === 0) {
+        return value;
+    }
+    const copy = structuredClone(body);
+    let parent = copy as Record<string, unknown> | undefined;
+    for (const segment of segments.slice(0, -1)) {
+        parent = parent?.[segment] as Record<string, unknown> | undefined;
+    }
+    if (parent === null || typeof parent !== 'object') {
+        throw new Error(`The payload has no value at ${target}`);
+    }
+    const last = segments[segments.length - 1];
+    if (Array.isArray(parent) && last === '-') {
+        parent.push(value);
+    } else {
+        parent[last] = value;
+    }
+    return copy;
+}
+
+function replaceXPath(body: string, target: string, value: unknown): string {
+    let error: string | undefined;
+    // Reported here rather than logged to the console by the parser
+    const parser = new DOMParser({ onError: (level, message) => error ??= level === 'warning' ? undefined : message });
+    let document;
+    try {
+        document = parser.parseFromString(body, 'text/xml');
+    } catch {
+        error ??= 'unreadable document';
+    }
+    if (!document || error) {
+        throw new Error(`The payload is not valid XML, ${target} cannot be replaced: ${error}`);
+    }
+    const selected = xpath.select(target, document as unknown as Node);
+    for (const node of Array.isArray(selected) ? selected : []) {
+        node.textContent = stringifyValue(value);
+    }
+    return new XMLSerializer().serializeToString(document);
+}
+
+function serializeBody(body: unknown, contentType: string): string {
+    if (typeof body === 'string') {
+        return body;
+    }
+    if (/^application\/x-www-form-urlencoded/i.test(contentType) && body !== null && typeof body === 'object') {
+        return new URLSearchParams(Object.entries(body).map(([key, value]) => [key, stringifyValue(value)])).toString();
+    }
+    if (isJsonMediaType(contentType.split(';')[0].trim()) || body !== null && typeof body === 'object') {
+        return JSON.stringify(body);
+    }
+    return stringifyValue(body);
+}
@@ -0,0 +1,312 @@
+import Ajv2020, { ErrorObject, ValidateFunction } from 'ajv/dist/2020';
+import { Node, YAMLMap, isMap, isScalar, isSeq } from 'yaml';
+import { getNodeOffsets } from './document';
+import { ArazzoModel, StepModel, forEachMapItem } from './model';
+import {
+    OpenApiOperation,
+    OpenApiRequestBody,
+    getOperationParameters,
+    getOperationRequestBody,
+    isJsonMediaType,
+    resolveJsonPointer,
+    resolveJsonPointerFrom,
+    toJsonPointer
+} from './openapi';
+import { SourceDocument } from './sources';
+import { withSuggestion } from './suggestions';
+import { ArazzoProblem } from './validation';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Request validation
+// Checks step parameters and request bodies against the OpenAPI operation they call
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/** Header parameters OpenAPI ignores, since they are described by other means */
+const IGNORED_HEADERS = ['accept', 'content-type', 'authorization'];
+
+interface StepParameter {
+    name: string;
+    in?: string;
+    /** Node the parameter is reported on, its `name` or its `reference` */
+    node: Node;
+    /** Whether the parameter is declared by the step itself rather than by its workflow */
+    own: boolean;
+}
+
+/**
+ * Reports step parameters and request bodies that do not match the operation the step calls.
+ */
+export function validateStepRequest(
+    step: StepModel,
+    model: ArazzoModel,
+    source: SourceDocument,
+    operation: OpenApiOperation
+): ArazzoProblem[] {
+    const problems: ArazzoProblem[] = [];
+    const report = (node: Node | undefined, message: string, severity: ArazzoProblem['severity'], code: string) => {
+        const [start, end] = getNodeOffsets(node);
+        problems.push({ message, severity, start, end, code });
+    };
+    const label = describeOperation(operation);
+    const operationNode = step.node.get('operationId', true) ?? step.node.get('operationPath', true);
+
+    // Parameters
+    const declared = getOperationParameters(source, operation);
+    const provided = [
+        ...getStepParameters(step.workflow.node.get('parameters', true), model, false),
+        ...getStepParameters(step.node.get('parameters', true), model, true)
+    ];
+    const matches = (parameter: { name: string; in?: string }, name: string, location: string) =>
+        parameter.in === location && (location === 'header' ? parameter.name.toLowerCase() === name.toLowerCase() : parameter.name === name);
+
+    for (const parameter of provided) {
+        if (!parameter.own || !parameter.in || declared.some(d => matches(parameter, d.name, d.in))) {
+            continue;
+        }
+        if (parameter.in === 'header' && IGNORED_HEADERS.includes(parameter.name.toLowerCase())) {
+            continue;
+        }
+        const sameName = declared.find(d => d.name === parameter.name);
+        if (sameName) {
+            report(parameter.node, `Parameter "${parameter.name}" is in ${sameName.in}, not ${parameter.in}, for operation ${label}`, 'error', 'parameter-location');
+        } else {
+            const candidates = declared.filter(d => d.in === parameter.in).map(d => d.name);
+            report(
+                parameter.node,
+                withSuggestion(`Operation ${label} has no ${parameter.in} parameter "${parameter.name}"`, parameter.name, candidates),
+                'warning',
+                'unknown-parameter'
+            );
+        }
+    }
+    for (const parameter of declared) {
+        if (parameter.required && !provided.some(p => matches(p, parameter.name, parameter.in))) {
+            report(operationNode, `Missing required ${parameter.in} parameter "${parameter.name}" for operation ${label}`, 'error', 'missing-parameter');
+        }
+    }
+
+    // Request body
+    const requestBody = getOperationRequestBody(source, operation);
+    const stepBody = step.node.get('requestBody', true);
+    if (!isMap(stepBody)) {
+        if (requestBody?.required) {
+            report(operationNode, `Missing required request body for operation ${label}`, 'error', 'missing-request-body');
+        }
+        return problems;
+    }
+    if (!requestBody) {
+        report(findKey(step.node, 'requestBody'), `Operation ${label} does not declare a request body`, 'warning', 'unexpected-request-body');
+        return problems;
+    }
+
+    let mediaType: string | undefined;
+    const contentType = stepBody.get('contentType', true);
+    if (isScalar(contentType) && typeof contentType.value === 'string') {
+        mediaType = findMediaType(requestBody, contentType.value);
+        if (!mediaType) {
+            report(
+                contentType,
+                `Content type "${contentType.value}" is not accepted by operation ${label}. Expected one of: ${requestBody.contentTypes.join(', ')}`,
+                'error',
+                'content-type'
+            );
+            return problems;
+        }
+    } else {
+        mediaType = requestBody.contentTypes.find(isJsonMediaType) ?? requestBody.contentTypes[0];
+    }
+    if (mediaType) {
+        problems.push(...validatePayload(stepBody, source, `${requestBody.pointer}/content${toJsonPointer([mediaType])}/schema`));
+    }
+
+    return problems;
+}
+
+function describeOperation(operation: OpenApiOperation): string {
+    return operation.operationId ? `"${operation.operationId}"` : `${operation.method.toUpperCase()} ${operation.path}`;
+}
+
+function getStepParameters(list: unknown, model: ArazzoModel, own: boolean): StepParameter[] {
+    const parameters: StepParameter[] = [];
+    forEachMapItem(list, item => {
+        let parameter: YAMLMap = item;
+        let node = item.get('name', true) as Node | undefined;
+        const reference = item.get('reference', true);
+        if (isScalar(reference) && typeof reference.value === 'string') {
+            const name = /^\$components\.parameters\.(.+)$/.exec(reference.value)?.[1];
+            const component = model.components.parameters.find(d => d.name === name);
+            if (!component || !isMap(component.node)) {
+                return;
+            }
+            parameter = component.node;
+            node = reference;
+        }
+        const name = parameter.get('name');
+        const location = parameter.get('in');
+        if (typeof name === 'string' && node) {
+            parameters.push({ name, in: typeof location === 'string' ? location : undefined, node, own });
+        }
+    });
+    return parameters;
+}
+
+function findKey(map: YAMLMap, key: string): Node | undefined {
+    const pair = map.items.find(p => isScalar(p.key) && p.key.value === key);
+    return pair?.key as Node | undefined;
+}
+
+/**
+ * Returns the media type of the request body matching `contentType`, honouring wildcards such as "application/*".
+ */
+function findMediaType(requestBody: OpenApiRequestBody, contentType: string): string | undefined {
+    const wanted = contentType.split(';')[0].trim().toLowerCase();
+    const [type] = wanted.split('/');
+    return requestBody.contentTypes.find(m => m.toLowerCase() === wanted)
+        ?? requestBody.contentTypes.find(m => m.toLowerCase() === `${type}/*`)
+        ?? requestBody.contentTypes.find(m => m === '*/*');
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Payload
+// ───────────────────────────────────────────────────────────────────────────────
+
+const schemaValidators = new WeakMap<SourceDocument, { ajv: Ajv2020; validators: Map<string, ValidateFunction | undefined> }>();
+
+function getPayloadValidator(source: SourceDocument, pointer: string): ValidateFunction | undefined {
+    let entry = schemaValidators.get(source);
+    if (!entry) {
+        const ajv = new Ajv2020({ allErrors: true, strict: false, validateSchema: false });
+        const openapi = source.yamlDoc.toJS();
+        try {
+            ajv.addSchema(String(openapi?.openapi ?? '').startsWith('3.0') ? upgradeNullable(upgradeExclusiveBounds(openapi)) : openapi, 'openapi');
+        } catch {
+            // Documents Ajv rejects, e.g. with duplicate $ids, are not checked: their schemas do not compile
+        }
+        entry = { ajv, validators: new Map() };
+        schemaValidators.set(source, entry);
+    }
+    if (!entry.validators.has(pointer)) {
+        let validator: ValidateFunction | undefined;
+        try {
+            validator = entry.ajv.compile({ $ref: `openapi#${pointer}` });
+        } catch {
+            // Schemas Ajv cannot compile are not checked
+            validator = undefined;
+        }
+        entry.validators.set(pointer, validator);
+    }
+    return entry.validators.get(pointer);
+}
+
+/**
+ * OpenAPI 3.0 schemas use boolean `exclusiveMinimum`/`exclusiveMaximum`, JSON Schema 2020-12 uses numbers.
+ */
+function upgradeExclusiveBounds(value: unknown): unknown {
+    if (Array.isArray(value)) {
+        return value.map(upgradeExclusiveBounds);
+    }
+    if (!value || typeof value !== 'object') {
+        return value;
+    }
+    const result: Record<string, unknown> = {};
+    for (const [key, child] of Object.entries(value)) {
+        result[key] = upgradeExclusiveBounds(child);
+    }
+    for (const [exclusive, bound] of [['exclusiveMinimum', 'minimum'], ['exclusiveMaximum', 'maximum']]) {
+        if (typeof result[exclusive] === 'boolean') {
+            if (result[exclusive] && typeof result[bound] === 'number') {
+                result[exclusive] = result[bound];
+                delete result[bound];
+            } else {
+                delete result[exclusive];
+            }
+        }
+    }
+    return result;
+}
+
+/**
+ * OpenAPI 3.0 schemas use `nullable: true`, JSON Schema 2020-12 adds "null" to the types.
+ */
+function upgradeNullable(value: unknown): unknown {
+    if (Array.isArray(value)) {
+        return value.map(upgradeNullable);
+    }
+    if (!value || typeof value !== 'object') {
+        return value;
+    }
+    const result: Record<string, unknown> = {};
+    for (const [key, child] of Object.entries(value)) {
+        result[key] = upgradeNullable(child);
+    }
+    if (typeof result.nullable === 'boolean') {
+        if (result.nullable) {
+            if (typeof result.type === 'string') {
+                result.type = [result.type, 'null'];
+            }
+            if (Array.isArray(result.enum) && !result.enum.includes(null)) {
+                result.enum = [...result.enum, null];
+            }
+        }
+        delete result.nullable;
+    }
+    return result;
+}
+
+function validatePayload(stepBody: YAMLMap, source: SourceDocument, schemaPointer: string): ArazzoProblem[] {
+    const payload = stepBody.get('payload', true);
+    if (payload === undefined || !resolveJsonPointer(source.yamlDoc, schemaPointer)) {
+        return [];
+    }
+
+    let data: unknown;
+    if (isMap(payload) || isSeq(payload)) {
+        data = payload.toJSON();
+    } else if (isScalar(payload) && typeof payload.value === 'string' && !isExpressionValue(payload.value)) {
+        try {
+            data = JSON.parse(payload.value);
+        } catch {
+            // XML, form data or templated text
+            return [];
+        }
+    } else {
+        return [];
+    }
+
+    const validator = getPayloadValidator(source, schemaPointer);
+    if (!validator || validator(data)) {
+        return [];
+    }
+
+    const replaced: string[] = [];
+    forEachMapItem(stepBody.get('replacements', true), replacement => {
+        const target = replacement.get('target');
+        if (typeof target === 'string' && target.startsWith('/')) {
+            replaced.push(target);
+        }
+    });
+    const isReplaced = (pointer: string) => replaced.some(target => pointer === target || pointer.startsWith(`${target}/`));
+
+    const problems: ArazzoProblem[] = [];
+    for (const error of validator.errors ?? []) {
+        const instancePointer = error.keyword === 'required'
+            ? `${error.instancePath}${toJsonPointer([String(error.params.missingProperty)])}`
+            : error.instancePath;
+        // Values computed at runtime cannot be checked
+        const value = resolveJsonPointerFrom(payload, error.instancePath);
+        if (isReplaced(instancePointer) || (isScalar(value) && typeof value.value === 'string' && isExpressionValue(value.value))) {
+            continue;
+        }
+        const [start, end] = getNodeOffsets(value ?? (payload as Node));
+        problems.push({ message: describePayloadError(error), severity: 'warning', start, end, code: 'invalid-payload' });
+    }
+    return problems;
+}
+
+function describePayloadError(error: ErrorObject): string {
+    return error.instancePath ? `Payload ${error.instancePath} ${error.message}` : `Payload ${error.message}`;
+}
+
+function isExpressionValue(value: string): boolean {
+    return value.trimStart().startsWith('$') || value.includes('{$');
+}
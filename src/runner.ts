@@ -0,0 +1,478 @@
+import { isMap } from 'yaml';
+import { Criterion, CriterionResult, evaluateCriteria } from './criteria';
+import { ArazzoModel, StepModel, WorkflowModel, buildArazzoModel, findStep, findWorkflow } from './model';
+import { isJsonMediaType } from './openapi';
+import { resolveStepOperation } from './operations';
+import { StepRequestBody, buildRequest, resolveParameters } from './request-builder';
+import { HttpRequest, HttpResponse, RuntimeState, evaluateExpressionText, evaluateValue } from './runtime';
+import { LoadedSource, SourceDocument, SourceDocumentCache, loadSourceDescriptions } from './sources';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Workflow runner
+// Executes the steps of a workflow against the APIs of its source descriptions
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export interface ActionResult {
+    type: 'end' | 'goto' | 'retry';
+    name?: string;
+    stepId?: string;
+    workflowId?: string;
+}
+
+export interface StepResult {
+    workflowId: string;
+    stepId: string;
+    /** 1 for the first execution of the step, incremented by each retry or goto back to it */
+    attempt: number;
+    /** `error` when the step could not be executed, e.g. the request failed */
+    status: 'passed' | 'failed' | 'error';
+    request?: HttpRequest;
+    response?: HttpResponse;
+    criteria: CriterionResult[];
+    /** The action taken after the step, undefined when the run moved on to the next step */
+    action?: ActionResult;
+    outputs: Record<string, unknown>;
+    /** Result of the workflow run by a step with a `workflowId` */
+    workflow?: WorkflowResult;
+    error?: string;
+}
+
+export interface WorkflowResult {
+    workflowId: string;
+    status: 'passed' | 'failed';
+    inputs: Record<string, unknown>;
+    outputs: Record<string, unknown>;
+    steps: StepResult[];
+    /** Steps that never ran */
+    skipped: string[];
+    error?: string;
+}
+
+/**
+ * A step about to execute, along with the state its expressions evaluate against
+ */
+export interface StepContext {
+    /** The Arazzo document declaring the workflow of the step */
+    document: SourceDocument;
+    workflowId: string;
+    stepId: string;
+    attempt: number;
+    state: RuntimeState;
+}
+
+/**
+ * Progress notifications, e.g. to show the results of a run as it goes
+ */
+export interface RunListener {
+    onWorkflowStart?(workflowId: string, inputs: Record<string, unknown>): void;
+    /** Awaited before each step execution, so a debugger can hold the run there */
+    beforeStep?(context: StepContext): Promise<void> | void;
+    onStepStart?(workflowId: string, stepId: string): void;
+    onStepEnd?(result: StepResult): void;
+    onWorkflowEnd?(result: WorkflowResult): void;
+}
+
+export interface RunOptions {
+    /** The Arazzo document declaring the workflow */
+    document: SourceDocument;
+    /** Loads the source descriptions */
+    cache: SourceDocumentCache;
+    workspaceRoots?: string[];
+    workflowId: string;
+    inputs?: Record<string, unknown>;
+    /** Base URLs by source description name, overriding the servers of the OpenAPI descriptions */
+    servers?: Record<string, string>;
+    /** Headers added to every request that does not set them already, e.g. for authentication */
+    headers?: Record<string, string>;
+    listener?: RunListener;
+    signal?: AbortSignal;
+    /** Milliseconds before a request is abandoned */
+    timeout?: number;
+    /** Step executions after which the run stops, guarding against goto loops */
+    maxSteps?: number;
+    fetch?: typeof fetch;
+    sleep?: (milliseconds: number) => Promise<void>;
+}
+
+interface DocumentContext {
+    document: SourceDocument;
+    model: ArazzoModel;
+    sources: LoadedSource[];
+    components: Record<string, unknown>;
+}
+
+interface Action {
+    name?: string;
+    type: ActionResult['type'];
+    stepId?: string;
+    workflowId?: string;
+    retryAfter?: number;
+    retryLimit?: number;
+    criteria?: Criterion[];
+}
+
+const DEFAULT_TIMEOUT = 30_000;
+const DEFAULT_MAX_STEPS = 1000;
+const SOURCE_WORKFLOW = /^\$sourceDescriptions\.([^.]+)\.(.+)$/;
+const COMPONENT_ACTION = /^\$components\.(successActions|failureActions)\.(.+)$/;
+
+/**
+ * Runs a workflow, and the workflows it depends on, to completion.
+ */
+export function runWorkflow(options: RunOptions): Promise<WorkflowResult> {
+    const run = new WorkflowRun(options);
+    return run.runWorkflow(run.openDocument(options.document), options.workflowId, options.inputs ?? {});
+}
+
+class WorkflowRun {
+    private readonly documents = new Map<string, DocumentContext>();
+    /** Inputs and outputs of the completed workflows, shared by the `$workflows` expressions */
+    private readonly workflows: RuntimeState['workflows'] = {};
+    private readonly completed = new Map<string, WorkflowResult>();
+    private executions = 0;
+
+    constructor(private readonly options: RunOptions) {}
+
+    public openDocument(document: SourceDocument): DocumentContext {
+        let context = this.documents.get(document.path);
+        if (!context) {
+            const model = buildArazzoModel(document.yamlDoc);
+            const sources = loadSourceDescriptions(model, document.path, this.options.cache, this.options.workspaceRoots ?? []);
+            const root = document.yamlDoc.contents;
+            const components = isMap(root) ? root.get('components', true) : undefined;
+            context = { document, model, sources, components: isMap(components) ? components.toJSON() : {} };
+            this.documents.set(document.path, context);
+        }
+        return context;
+    }
+
+    public async runWorkflow(context: DocumentContext, workflowId: string, inputs: Record<string, unknown>): Promise<WorkflowResult> {
+        const target = this.findWorkflow(context, workflowId);
+        const workflow = target.workflow;
+        const result: WorkflowResult = {
+            workflowId: workflow.name,
+            status: 'failed',
+            inputs: withDefaults(inputs, workflow, target.context),
+            outputs: {},
+            steps: [],
+            skipped: []
+        };
+        context = target.context;
+        this.options.listener?.onWorkflowStart?.(workflow.name, result.inputs);
+
+        try {
+            for (const dependency of asStrings(workflow.node.get('dependsOn', true)?.toJSON())) {
+                const dependencyResult = await this.runDependency(context, dependency, inputs);
+                if (dependencyResult.status !== 'passed') {
+                    throw new Error(`Workflow ${dependency} it depends on failed`);
+                }
+            }
+            await this.runSteps(context, workflow, result);
+        } catch (e) {
+            result.status = 'failed';
+            result.error = e instanceof Error ? e.message : String(e);
+        }
+
+        const ran = new Set(result.steps.map(step => step.stepId));
+        result.skipped = workflow.steps.map(step => step.name).filter(name => !ran.has(name));
+        this.workflows[workflow.name] = { inputs: result.inputs, outputs: result.outputs };
+        this.options.listener?.onWorkflowEnd?.(result);
+        return result;
+    }
+
+    private async runDependency(context: DocumentContext, workflowId: string, inputs: Record<string, unknown>): Promise<WorkflowResult> {
+        const target = this.findWorkflow(context, workflowId);
+        const key = `${target.context.document.path}#${target.workflow.name}`;
+        let result = this.completed.get(key);
+        if (!result) {
+            result = await this.runWorkflow(context, workflowId, inputs);
+            this.completed.set(key, result);
+        }
+        return result;
+    }
+
+    private async runSteps(context: DocumentContext, workflow: WorkflowModel, result: WorkflowResult) {
+        const state = this.createState(context, result.inputs);
+        const attempts = new Map<string, number>();
+        const retries = new Map<string, number>();
+        let index = 0;
+
+        while (index < workflow.steps.length) {
+            const step = workflow.steps[index];
+            const attempt = (attempts.get(step.name) ?? 0) + 1;
+            attempts.set(step.name, attempt);
+            const stepResult = await this.executeStep(context, workflow, step, state, attempt);
+            result.steps.push(stepResult);
+
+            const passed = stepResult.status === 'passed';
+            const action = this.selectAction(context, workflow, step, passed, state);
+            if (action?.type === 'retry') {
+                const retried = retries.get(step.name) ?? 0;
+                if (retried < (action.retryLimit ?? 1)) {
+                    retries.set(step.name, retried + 1);
+                    stepResult.action = toActionResult(action);
+                    this.options.listener?.onStepEnd?.(stepResult);
+                    await this.sleep((action.retryAfter ?? 0) * 1000);
+                    await this.runActionTarget(context, workflow, action, state, result, attempts);
+                    continue;
+                }
+                // Out of retries: the step fails for good
+                this.options.listener?.onStepEnd?.(stepResult);
+                result.error = `Step ${step.name} failed after ${retried} retries`;
+                return;
+            }
+
+            stepResult.action = action && toActionResult(action);
+            this.options.listener?.onStepEnd?.(stepResult);
+            if (!action) {
+                if (!passed) {
+                    result.error = stepResult.error ?? `Step ${step.name} failed`;
+                    return;
+                }
+                index++;
+                continue;
+            }
+            if (action.type === 'end') {
+                if (!passed) {
+                    result.error = `Step ${step.name} failed`;
+                    return;
+                }
+                break;
+            }
+            // goto
+            if (action.stepId) {
+                index = workflow.steps.findIndex(s => s.name === action.stepId);
+                if (index < 0) {
+                    throw new Error(`Unknown step in goto: ${action.stepId}`);
+                }
+                continue;
+            }
+            if (action.workflowId) {
+                // The run moves on to the other workflow, whose result ends this one
+                const other = await this.runWorkflow(context, action.workflowId, result.inputs);
+                if (other.status !== 'passed') {
+                    result.error = `Workflow ${action.workflowId} failed`;
+                    return;
+                }
+                break;
+            }
+            throw new Error(`The goto action of step ${step.name} has no stepId or workflowId`);
+        }
+
+        result.outputs = evaluateOutputs(workflow.node.get('outputs', true)?.toJSON(), state);
+        result.status = 'passed';
+    }
+
+    private async executeStep(context: DocumentContext, workflow: WorkflowModel, step: StepModel, state: RuntimeState, attempt: number): Promise<StepResult> {
+        await this.options.listener?.beforeStep?.({ document: context.document, workflowId: workflow.name, stepId: step.name, attempt, state });
+        this.checkLimits();
+        this.options.listener?.onStepStart?.(workflow.name, step.name);
+        const result: StepResult = { workflowId: workflow.name, stepId: step.name, attempt, status: 'failed', criteria: [], outputs: {} };
+        state.request = undefined;
+        state.response = undefined;
+        state.outputs = {};
+        const json = step.node.toJSON() as Record<string, unknown>;
+
+        try {
+            if (typeof json.workflowId === 'string') {
+                // Parameters of a workflow step are the inputs of that workflow
+                const inputs: Record<string, unknown> = {};
+                for (const parameter of resolveParameters(undefined, json.parameters, context.components)) {
+                    inputs[parameter.name] = evaluateValue(parameter.value, state);
+                }
+                result.workflow = await this.runWorkflow(context, json.workflowId, inputs);
+                state.outputs = result.workflow.outputs;
+                if (result.workflow.status !== 'passed') {
+                    throw new Error(result.workflow.error ?? `Workflow ${json.workflowId} failed`);
+                }
+            } else {
+                const resolution = resolveStepOperation(step, context.sources);
+                if (resolution.status !== 'resolved') {
+                    throw new Error(resolution.status === 'unresolved' ? resolution.message : `Cannot find the operation of step ${step.name}`);
+                }
+                const parameters = resolveParameters(workflow.node.get('parameters', true)?.toJSON(), json.parameters, context.components);
+                const serverUrl = this.options.servers?.[resolution.source.description.name];
+                result.request = state.request = buildRequest(
+                    { ...resolution, serverUrl },
+                    parameters,
+                    json.requestBody as StepRequestBody | undefined,
+                    state
+                );
+                for (const [name, value] of Object.entries(this.options.headers ?? {})) {
+                    result.request.headers[name.toLowerCase()] ??= value;
+                }
+                result.response = state.response = await this.send(result.request);
+            }
+
+            const criteria = Array.isArray(json.successCriteria) ? json.successCriteria as Criterion[] : [];
+            const evaluation = evaluateCriteria(criteria, state);
+            result.criteria = evaluation.results;
+            // Without criteria, any response short of an error status is a success
+            const passed = criteria.length > 0 ? evaluation.passed : (state.response?.statusCode ?? 200) < 400;
+            if (passed) {
+                result.outputs = evaluateOutputs(json.outputs, state);
+                state.steps[step.name] = { outputs: result.outputs };
+                result.status = 'passed';
+            }
+        } catch (e) {
+            result.status = 'error';
+            result.error = e instanceof Error ? e.message : String(e);
+        }
+        return result;
+    }
+
+    private async send(request: HttpRequest): Promise<HttpResponse> {
+        const timeout = AbortSignal.timeout(this.options.timeout ?? DEFAULT_TIMEOUT);
+        const signal = this.options.signal ? AbortSignal.any([this.options.signal, timeout]) : timeout;
+        const response = await (this.options.fetch ?? fetch)(request.url, {
+            method: request.method,
+            headers: request.headers,
+            body: request.bodyText,
+            signal
+        });
+        const headers: Record<string, string> = {};
+        response.headers.forEach((value, name) => headers[name.toLowerCase()] = value);
+        const bodyText = await response.text();
+        let body: unknown = bodyText;
+        const contentType = headers['content-type']?.split(';')[0].trim() ?? '';
+        if (isJsonMediaType(contentType) && bodyText !== '') {
+            try {
+                body = JSON.parse(bodyText);
+            } catch {
+                // Keep the text of malformed JSON
+            }
+        }
+        return { statusCode: response.status, headers, body, bodyText };
+    }
+
+    /**
+     * The first action whose criteria pass: those of the step, then those of the workflow it does not override.
+     */
+    private selectAction(context: DocumentContext, workflow: WorkflowModel, step: StepModel, passed: boolean, state: RuntimeState): Action | undefined {
+        const stepActions = this.resolveActions(context, step.node.get(passed ? 'onSuccess' : 'onFailure', true)?.toJSON());
+        const names = new Set(stepActions.map(action => action.name));
+        const workflowActions = this.resolveActions(context, workflow.node.get(passed ? 'successActions' : 'failureActions', true)?.toJSON())
+            .filter(action => !names.has(action.name));
+        return [...stepActions, ...workflowActions].find(action => evaluateCriteria(action.criteria ?? [], state).passed);
+    }
+
+    private resolveActions(context: DocumentContext, list: unknown): Action[] {
+        return (Array.isArray(list) ? list : []).map(item => {
+            const reference = (item as { reference?: unknown })?.reference;
+            if (typeof reference !== 'string') {
+                return item as Action;
+            }
+            const match = COMPONENT_ACTION.exec(reference);
+            const section = match ? context.components[match[1]] as Record<string, Action> | undefined : undefined;
+            const action = match ? section?.[match[2]] : undefined;
+            if (!action) {
+                throw new Error(`Unknown action reference: ${reference}`);
+            }
+            return action;
+        });
+    }
+
+    /**
+     * Runs the step or workflow a retry action names before the retried step. The step counts as an
+     * attempt of its own, recorded with the other steps of the workflow.
+     */
+    private async runActionTarget(
+        context: DocumentContext,
+        workflow: WorkflowModel,
+        action: Action,
+        state: RuntimeState,
+        result: WorkflowResult,
+        attempts: Map<string, number>
+    ) {
+        if (action.stepId) {
+            const step = findStep(workflow, action.stepId);
+            if (!step) {
+                throw new Error(`Unknown step in retry: ${action.stepId}`);
+            }
+            const attempt = (attempts.get(step.name) ?? 0) + 1;
+            attempts.set(step.name, attempt);
+            const stepResult = await this.executeStep(context, workflow, step, state, attempt);
+            result.steps.push(stepResult);
+            this.options.listener?.onStepEnd?.(stepResult);
+        } else if (action.workflowId) {
+            await this.runWorkflow(context, action.workflowId, state.inputs);
+        }
+    }
+
+    private findWorkflow(context: DocumentContext, workflowId: string): { context: DocumentContext; workflow: WorkflowModel } {
+        const qualified = SOURCE_WORKFLOW.exec(workflowId);
+        if (qualified) {
+            const source = context.sources.find(s => s.description.name === qualified[1]);
+            if (!source?.document) {
+                throw new Error(`Cannot load source description ${qualified[1]}`);
+            }
+            return this.findWorkflow(this.openDocument(source.document), qualified[2]);
+        }
+        const workflow = findWorkflow(context.model, workflowId);
+        if (!workflow) {
+            throw new Error(`Unknown workflow: ${workflowId}`);
+        }
+        return { context, workflow };
+    }
+
+    private createState(context: DocumentContext, inputs: Record<string, unknown>): RuntimeState {
+        const sourceDescriptions: RuntimeState['sourceDescriptions'] = {};
+        for (const source of context.model.sourceDescriptions) {
+            sourceDescriptions[source.name] = { name: source.name, url: source.url, type: source.type };
+        }
+        return { inputs, outputs: {}, steps: {}, workflows: this.workflows, sourceDescriptions, components: context.components };
+    }
+
+    private checkLimits() {
+        if (this.options.signal?.aborted) {
+            throw new Error('The run was cancelled');
+        }
+        if (++this.executions > (this.options.maxSteps ?? DEFAULT_MAX_STEPS)) {
+            throw new Error(`The run exceeded ${this.options.maxSteps ?? DEFAULT_MAX_STEPS} step executions`);
+        }
+    }
+
+    private sleep(milliseconds: number): Promise<void> {
+        if (this.options.sleep) {
+            return this.options.sleep(milliseconds);
+        }
+        return new Promise(resolve => setTimeout(resolve, milliseconds));
+    }
+}
+
+function evaluateOutputs(outputs: unknown, state: RuntimeState): Record<string, unknown> {
+    const values: Record<string, unknown> = {};
+    if (outputs !== null && typeof outputs === 'object') {
+        for (const [name, expression] of Object.entries(outputs)) {
+            values[name] = typeof expression === 'string' ? evaluateExpressionText(expression, state) : expression;
+        }
+    }
+    return values;
+}
+
+/**
+ * Inputs completed with the defaults of the top-level properties of the inputs schema
+ */
+function withDefaults(inputs: Record<string, unknown>, workflow: WorkflowModel, context: DocumentContext): Record<string, unknown> {
+    let schema = workflow.node.get('inputs', true)?.toJSON() as Record<string, unknown> | undefined;
+    const ref = typeof schema?.$ref === 'string' ? /^#\/components\/inputs\/(.+)$/.exec(schema.$ref) : null;
+    if (ref) {
+        schema = (context.components.inputs as Record<string, Record<string, unknown>> | undefined)?.[ref[1]];
+    }
+    const properties = schema?.properties as Record<string, { default?: unknown }> | undefined;
+    const values = { ...inputs };
+    for (const [name, property] of Object.entries(properties ?? {})) {
+        if (!(name in values) && property?.default !== undefined) {
+            values[name] = property.default;
+        }
+    }
+    return values;
+}
+
+function toActionResult(action: Action): ActionResult {
+    return { type: action.type, name: action.name, stepId: action.stepId, workflowId: action.workflowId };
+}
+
+function asStrings(value: unknown): string[] {
+    return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+}
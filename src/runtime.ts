@@ -0,0 +1,182 @@
+import { ExpressionContext, RuntimeExpression, parseRuntimeExpression, scanExpressions } from './expressions';
+import { parseJsonPointer } from './openapi';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Runtime state
+// The values runtime expressions evaluate against while a workflow runs
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export interface HttpRequest {
+    method: string;
+    url: string;
+    /** Header names in lower case */
+    headers: Record<string, string>;
+    query: Record<string, string>;
+    path: Record<string, string>;
+    /** Payload as built from the step, before serialization */
+    body?: unknown;
+    /** Serialized payload, as sent */
+    bodyText?: string;
+}
+
+export interface HttpResponse {
+    statusCode: number;
+    /** Header names in lower case */
+    headers: Record<string, string>;
+    /** Parsed JSON for JSON responses, the text otherwise */
+    body: unknown;
+    bodyText: string;
+}
+
+export interface RuntimeState {
+    inputs: Record<string, unknown>;
+    /** Outputs of the workflow being run, or of the workflow a step has just run */
+    outputs: Record<string, unknown>;
+    /** Steps of the current workflow that have run, by stepId */
+    steps: Record<string, { outputs: Record<string, unknown> }>;
+    /** Workflows that have run, by workflowId */
+    workflows: Record<string, { inputs: Record<string, unknown>; outputs: Record<string, unknown> }>;
+    sourceDescriptions: Record<string, { name: string; url?: string; type?: string }>;
+    /** The `components` object of the document */
+    components: Record<string, unknown>;
+    request?: HttpRequest;
+    response?: HttpResponse;
+}
+
+/**
+ * Evaluates a parsed runtime expression, returning undefined when it does not resolve.
+ */
+export function evaluateExpression(expression: RuntimeExpression, state: RuntimeState): unknown {
+    const { source, path } = expression;
+    let value: unknown;
+    switch (source) {
+        case 'url':
+            value = state.request?.url;
+            break;
+        case 'method':
+            value = state.request?.method;
+            break;
+        case 'statusCode':
+            value = state.response?.statusCode;
+            break;
+        case 'request':
+        case 'response':
+            value = evaluateMessage(source === 'request' ? state.request : state.response, path);
+            break;
+        case 'inputs':
+            value = getPath(state.inputs, path);
+            break;
+        case 'outputs':
+            value = getPath(state.outputs, path);
+            break;
+        case 'steps':
+            value = getPath(state.steps, path);
+            break;
+        case 'workflows':
+            value = getPath(state.workflows, path);
+            break;
+        case 'sourceDescriptions':
+            value = getPath(state.sourceDescriptions, path);
+            break;
+        case 'components':
+            value = getPath(state.components, path);
+            break;
+    }
+    return expression.pointer === undefined ? value : resolvePointer(value, expression.pointer);
+}
+
+function evaluateMessage(message: HttpRequest | HttpResponse | undefined, path: string[]): unknown {
+    if (!message) {
+        return undefined;
+    }
+    const [location, ...names] = path;
+    const name = names.join('.');
+    switch (location) {
+        case 'header':
+            return message.headers[name.toLowerCase()];
+        case 'query':
+            return 'query' in message ? message.query[name] : undefined;
+        case 'path':
+            return 'path' in message ? message.path[name] : undefined;
+        case 'body':
+            // `$response.body.id` shorthand, reported by the validation but still evaluated
+            return getPath(message.body, names);
+    }
+    return undefined;
+}
+
+function getPath(value: unknown, path: string[]): unknown {
+    for (const name of path) {
+        if (value === null || typeof value !== 'object') {
+            return undefined;
+        }
+        value = (value as Record<string, unknown>)[name];
+    }
+    return value;
+}
+
+/**
+ * Resolves a JSON pointer within a JSON value, returning undefined when it does not resolve.
+ */
+export function resolvePointer(value: unknown, pointer: string): unknown {
+    return getPath(value, parseJsonPointer(pointer));
+}
+
+/**
+ * Evaluates a runtime expression written as text, e.g. "$response.body#/id".
+ */
+export function evaluateExpressionText(text: string, state: RuntimeState): unknown {
+    const { expression, issue } = parseRuntimeExpression(text.trim());
+    if (!expression || issue?.severity === 'error') {
+        throw new Error(issue?.message ?? `Invalid runtime expression: ${text}`);
+    }
+    return evaluateExpression(expression, state);
+}
+
+/**
+ * Evaluates the runtime expressions of a value, recursing into objects and arrays. A string that is
+ * a single expression takes the value of that expression; expressions embedded in text as "{$...}"
+ * are replaced by their string form.
+ */
+export function evaluateValue(value: unknown, state: RuntimeState, context: ExpressionContext = 'value'): unknown {
+    if (Array.isArray(value)) {
+        return value.map(item => evaluateValue(item, state, context));
+    }
+    if (value !== null && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, evaluateValue(item, state, context)]));
+    }
+    if (typeof value !== 'string') {
+        return value;
+    }
+
+    const matches = scanExpressions(value, context);
+    for (const match of matches) {
+        if (match.issue?.severity === 'error') {
+            throw new Error(match.issue.message);
+        }
+    }
+    const whole = matches.length === 1 && value.trim() === (matches[0].embedded ? `{${matches[0].text}}` : matches[0].text);
+    if (whole) {
+        return evaluateExpression(matches[0].expression!, state);
+    }
+
+    let result = '';
+    let cursor = 0;
+    for (const match of matches) {
+        const start = match.embedded ? match.start - 1 : match.start;
+        const end = match.embedded ? match.end + 1 : match.end;
+        result += value.slice(cursor, start) + stringifyValue(evaluateExpression(match.expression!, state));
+        cursor = end;
+    }
+    return result + value.slice(cursor);
+}
+
+/**
+ * The text form of a value, as substituted into templates, paths and headers
+ */
+export function stringifyValue(value: unknown): string {
+    if (value === undefined || value === null) {
+        return '';
+    }
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
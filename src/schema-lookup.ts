@@ -0,0 +1,140 @@
+import { arazzoSchema } from './schema';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Schema lookup
+// Finds the part of the Arazzo JSON Schema describing a location in a document
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export interface JsonSchema {
+    $ref?: string;
+    $defs?: Record<string, JsonSchema>;
+    type?: string;
+    enum?: unknown[];
+    const?: unknown;
+    required?: string[];
+    properties?: Record<string, JsonSchema>;
+    additionalProperties?: JsonSchema | boolean;
+    items?: JsonSchema;
+    if?: JsonSchema;
+    then?: JsonSchema;
+    else?: JsonSchema;
+    allOf?: JsonSchema[];
+    anyOf?: JsonSchema[];
+    not?: JsonSchema;
+}
+
+const ROOT = arazzoSchema as JsonSchema;
+
+export const schemaDefinitions = ROOT.$defs!;
+
+export function deref(schema: JsonSchema): JsonSchema {
+    const name = schema.$ref?.replace(/^#\/\$defs\//, '');
+    return name && ROOT.$defs?.[name] ? ROOT.$defs[name] : schema;
+}
+
+/**
+ * The object schemas a value may match, following `$ref` and the inline-or-reusable `if`/`then`/`else`.
+ */
+export function objectSchemas(schema: JsonSchema): JsonSchema[] {
+    const resolved = deref(schema);
+    if (resolved.properties) {
+        return [resolved];
+    }
+    if (resolved.if) {
+        return [resolved.then, resolved.else].flatMap(branch => branch ? objectSchemas(branch) : []);
+    }
+    return [];
+}
+
+/**
+ * The schema of the value at `path`, keys with "[]" for sequence items.
+ */
+export function resolveSchemaPath(path: string[]): JsonSchema | undefined {
+    let schema: JsonSchema | undefined = ROOT;
+    for (const segment of path) {
+        if (!schema) {
+            return undefined;
+        }
+        const resolved: JsonSchema = deref(schema);
+        if (segment === '[]') {
+            schema = resolved.items;
+        } else {
+            schema = getPropertySchema(resolved, segment, new Map());
+        }
+    }
+    return schema && deref(schema);
+}
+
+export function getPropertySchema(container: JsonSchema, key: string, siblings: Map<string, string>): JsonSchema | undefined {
+    for (const schema of objectSchemas(container)) {
+        const property = schema.properties?.[key];
+        if (property) {
+            return getConditionalProperties(schema, siblings).get(key) ?? deref(property);
+        }
+    }
+    const additional = deref(container).additionalProperties;
+    return typeof additional === 'object' ? deref(additional) : undefined;
+}
+
+/**
+ * Property schemas narrowed by the `if`/`then`/`else` of `schema` that apply given the sibling values,
+ * e.g. the XPath versions once `type: xpath` is written. Keys that are not allowed map to `{ not: {} }`.
+ */
+export function getConditionalProperties(schema: JsonSchema, siblings: Map<string, string>): Map<string, JsonSchema> {
+    const narrowed = new Map<string, JsonSchema>();
+    for (const conditional of [schema, ...(schema.allOf ?? [])]) {
+        if (!conditional.if) {
+            continue;
+        }
+        if (!conditionKeys(conditional.if).every(key => siblings.has(key))) {
+            // Undecided until the keys the condition looks at are written
+            continue;
+        }
+        const branch = matchesCondition(conditional.if, siblings) ? conditional.then : conditional.else;
+        for (const [key, property] of Object.entries(branch?.properties ?? {})) {
+            if (property.not || property.enum || property.const !== undefined) {
+                narrowed.set(key, property);
+            }
+        }
+    }
+    return narrowed;
+}
+
+function conditionKeys(condition: JsonSchema): string[] {
+    return [
+        ...(condition.required ?? []),
+        ...Object.keys(condition.properties ?? {}),
+        ...(condition.anyOf ?? []).flatMap(conditionKeys)
+    ];
+}
+
+function matchesCondition(condition: JsonSchema, siblings: Map<string, string>): boolean {
+    if (condition.anyOf) {
+        return condition.anyOf.some(c => matchesCondition(c, siblings));
+    }
+    if (condition.required?.some(key => !siblings.has(key))) {
+        return false;
+    }
+    return Object.entries(condition.properties ?? {}).every(([key, property]) =>
+        property.const === undefined || !siblings.has(key) || siblings.get(key) === property.const);
+}
+
+export function enumValues(schema: JsonSchema): unknown[] {
+    if (schema.enum) {
+        return schema.enum;
+    }
+    if (schema.const !== undefined) {
+        return [schema.const];
+    }
+    return schema.then ? enumValues(schema.then) : [];
+}
+
+/**
+ * Name of the Arazzo object a schema describes, e.g. "step", or "root" for the Arazzo Specification Object.
+ */
+export function getDefinitionName(schema: JsonSchema): string | undefined {
+    if (schema === ROOT) {
+        return 'root';
+    }
+    return Object.entries(schemaDefinitions).find(([, definition]) => definition === schema)?.[0];
+}
@@ -0,0 +1,472 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// Arazzo 1.0.1 JSON Schema
+// Based on the official schema (https://spec.openapis.org/arazzo/1.0/schema/2024-08-01)
+// and kept in line with the interfaces in webview-ui/src/types/arazzo.ts
+// ═══════════════════════════════════════════════════════════════════════════════
+
+// Subschemas may carry an `x-message` annotation. The validator reports it instead of the
+// generic JSON Schema wording when a keyword next to it fails, except for `type` which keeps
+// the generic "must be a string" wording.
+
+const ID_PATTERN = '^[A-Za-z0-9_\\-]+$';
+const COMPONENT_KEY_PATTERN = '^[a-zA-Z0-9\\.\\-_]+$';
+const EXTENSION_PATTERN = '^x-';
+
+const extensions = { [EXTENSION_PATTERN]: {} };
+
+const componentKeys = {
+    pattern: COMPONENT_KEY_PATTERN,
+    'x-message': 'Component names must only contain letters, digits, ".", "-" and "_"'
+};
+
+function identifier(field: string) {
+    return {
+        type: 'string',
+        pattern: ID_PATTERN,
+        'x-message': `${field} must only contain letters, digits, "_" and "-"`
+    };
+}
+
+/**
+ * Reusable Object pointing into one section of `components`
+ */
+function reusable(section: 'parameters' | 'successActions' | 'failureActions') {
+    return {
+        type: 'object',
+        required: ['reference'],
+        properties: {
+            reference: {
+                type: 'string',
+                pattern: `^\\$components\\.${section}\\.[a-zA-Z0-9\\.\\-_]+$`,
+                'x-message': `reference must be a runtime expression of the form $components.${section}.<name>`
+            },
+            ...(section === 'parameters' ? { value: {} } : {})
+        },
+        additionalProperties: false
+    };
+}
+
+/**
+ * List entry that is either an inline object or a Reusable Object (when it has a `reference`)
+ */
+function inlineOrReusable(inlineRef: string, section: 'parameters' | 'successActions' | 'failureActions') {
+    return {
+        if: { type: 'object', required: ['reference'] },
+        then: reusable(section),
+        else: { $ref: inlineRef }
+    };
+}
+
+function notAllowed(message: string) {
+    return { not: {}, 'x-message': message };
+}
+
+const gotoTarget = {
+    oneOf: [
+        { required: ['stepId'] },
+        { required: ['workflowId'] }
+    ],
+    'x-message': 'A "goto" action must reference exactly one of "stepId" or "workflowId"'
+};
+
+export const arazzoSchema = {
+    $schema: 'https://json-schema.org/draft/2020-12/schema',
+    $id: 'https://spec.openapis.org/arazzo/1.0/schema/2024-08-01',
+    type: 'object',
+    required: ['arazzo', 'info', 'sourceDescriptions', 'workflows'],
+    properties: {
+        arazzo: {
+            type: 'string',
+            pattern: '^1\\.0\\.\\d+(-.+)?$',
+            'x-message': 'arazzo must be a 1.0.x version string, e.g. "1.0.1"'
+        },
+        info: { $ref: '#/$defs/info' },
+        sourceDescriptions: {
+            type: 'array',
+            minItems: 1,
+            items: { $ref: '#/$defs/sourceDescription' }
+        },
+        workflows: {
+            type: 'array',
+            minItems: 1,
+            items: { $ref: '#/$defs/workflow' }
+        },
+        components: { $ref: '#/$defs/components' }
+    },
+    patternProperties: extensions,
+    additionalProperties: false,
+
+    $defs: {
+        // 4.6.2 Info Object
+        info: {
+            type: 'object',
+            required: ['title', 'version'],
+            properties: {
+                title: { type: 'string' },
+                summary: { type: 'string' },
+                description: { type: 'string' },
+                version: { type: 'string' }
+            },
+            patternProperties: extensions,
+            additionalProperties: false
+        },
+
+        // 4.6.3 Source Description Object
+        sourceDescription: {
+            type: 'object',
+            required: ['name', 'url'],
+            properties: {
+                name: identifier('name'),
+                url: { type: 'string' },
+                type: {
+                    enum: ['openapi', 'arazzo'],
+                    'x-message': 'Type must be "openapi" or "arazzo"'
+                },
+                description: { type: 'string' }
+            },
+            patternProperties: extensions,
+            additionalProperties: false
+        },
+
+        // 4.6.4 Workflow Object
+        workflow: {
+            type: 'object',
+            required: ['workflowId', 'steps'],
+            properties: {
+                workflowId: identifier('workflowId'),
+                summary: { type: 'string' },
+                description: { type: 'string' },
+                inputs: { type: 'object' },
+                dependsOn: {
+                    type: 'array',
+                    uniqueItems: true,
+                    items: { type: 'string' }
+                },
+                steps: {
+                    type: 'array',
+                    minItems: 1,
+                    items: { $ref: '#/$defs/step' }
+                },
+                successActions: {
+                    type: 'array',
+                    items: inlineOrReusable('#/$defs/successAction', 'successActions')
+                },
+                failureActions: {
+                    type: 'array',
+                    items: inlineOrReusable('#/$defs/failureAction', 'failureActions')
+                },
+                outputs: { $ref: '#/$defs/outputs' },
+                parameters: {
+                    type: 'array',
+                    items: inlineOrReusable('#/$defs/parameter', 'parameters')
+                }
+            },
+            patternProperties: extensions,
+            additionalProperties: false
+        },
+
+        // 4.6.5 Step Object
+        step: {
+            type: 'object',
+            required: ['stepId'],
+            properties: {
+                stepId: identifier('stepId'),
+                description: { type: 'string' },
+                operationId: { type: 'string' },
+                operationPath: { type: 'string' },
+                workflowId: { type: 'string' },
+                parameters: {
+                    type: 'array',
+                    items: inlineOrReusable('#/$defs/parameter', 'parameters')
+                },
+                requestBody: { $ref: '#/$defs/requestBody' },
+                successCriteria: {
+                    type: 'array',
+                    minItems: 1,
+                    items: { $ref: '#/$defs/criterion' }
+                },
+                onSuccess: {
+                    type: 'array',
+                    items: inlineOrReusable('#/$defs/successAction', 'successActions')
+                },
+                onFailure: {
+                    type: 'array',
+                    items: inlineOrReusable('#/$defs/failureAction', 'failureActions')
+                },
+                outputs: { $ref: '#/$defs/outputs' }
+            },
+            patternProperties: extensions,
+            additionalProperties: false,
+            allOf: [
+                {
+                    oneOf: [
+                        { required: ['operationId'] },
+                        { required: ['operationPath'] },
+                        { required: ['workflowId'] }
+                    ],
+                    'x-message': 'Step must contain exactly one of "operationId", "operationPath" or "workflowId"'
+                },
+                {
+                    // Parameters of an operation call must say where they go
+                    if: {
+                        anyOf: [
+                            { required: ['operationId'] },
+                            { required: ['operationPath'] }
+                        ]
+                    },
+                    then: {
+                        properties: {
+                            parameters: {
+                                items: {
+                                    if: { type: 'object', not: { required: ['reference'] } },
+                                    then: { required: ['in'] }
+                                }
+                            }
+                        }
+                    }
+                },
+                {
+                    if: { required: ['workflowId'] },
+                    then: {
+                        properties: {
+                            requestBody: notAllowed('requestBody is only allowed on steps calling an operation')
+                        }
+                    }
+                }
+            ]
+        },
+
+        // 4.6.6 Parameter Object
+        parameter: {
+            type: 'object',
+            required: ['name', 'value'],
+            properties: {
+                name: { type: 'string' },
+                in: {
+                    enum: ['path', 'query', 'header', 'cookie'],
+                    'x-message': 'in must be one of "path", "query", "header" or "cookie"'
+                },
+                value: {}
+            },
+            patternProperties: extensions,
+            additionalProperties: false
+        },
+
+        // 4.6.7 Success Action Object
+        successAction: {
+            type: 'object',
+            required: ['name', 'type'],
+            properties: {
+                name: { type: 'string' },
+                type: {
+                    enum: ['end', 'goto'],
+                    'x-message': 'Success action type must be "end" or "goto"'
+                },
+                workflowId: { type: 'string' },
+                stepId: { type: 'string' },
+                criteria: {
+                    type: 'array',
+                    items: { $ref: '#/$defs/criterion' }
+                },
+                outputs: { type: 'object' }
+            },
+            patternProperties: extensions,
+            additionalProperties: false,
+            if: { properties: { type: { const: 'goto' } }, required: ['type'] },
+            then: gotoTarget,
+            else: {
+                properties: {
+                    workflowId: notAllowed('workflowId is only relevant for "goto" actions'),
+                    stepId: notAllowed('stepId is only relevant for "goto" actions')
+                }
+            }
+        },
+
+        // 4.6.8 Failure Action Object
+        failureAction: {
+            type: 'object',
+            required: ['name', 'type'],
+            properties: {
+                name: { type: 'string' },
+                type: {
+                    enum: ['end', 'retry', 'goto'],
+                    'x-message': 'Failure action type must be "end", "retry" or "goto"'
+                },
+                workflowId: { type: 'string' },
+                stepId: { type: 'string' },
+                retryAfter: { type: 'number', minimum: 0 },
+                retryLimit: { type: 'integer', minimum: 0 },
+                criteria: {
+                    type: 'array',
+                    items: { $ref: '#/$defs/criterion' }
+                },
+                outputs: { type: 'object' }
+            },
+            patternProperties: extensions,
+            additionalProperties: false,
+            allOf: [
+                {
+                    if: { properties: { type: { const: 'goto' } }, required: ['type'] },
+                    then: gotoTarget
+                },
+                {
+                    if: { properties: { type: { const: 'retry' } }, required: ['type'] },
+                    then: {
+                        not: { required: ['stepId', 'workflowId'] },
+                        'x-message': 'A "retry" action may reference "stepId" or "workflowId", but not both'
+                    },
+                    else: {
+                        properties: {
+                            retryAfter: notAllowed('retryAfter is only allowed on "retry" actions'),
+                            retryLimit: notAllowed('retryLimit is only allowed on "retry" actions')
+                        }
+                    }
+                },
+                {
+                    if: { properties: { type: { const: 'end' } }, required: ['type'] },
+                    then: {
+                        properties: {
+                            workflowId: notAllowed('workflowId is only relevant for "goto" and "retry" actions'),
+                            stepId: notAllowed('stepId is only relevant for "goto" and "retry" actions')
+                        }
+                    }
+                }
+            ]
+        },
+
+        // 4.6.9 Components Object
+        components: {
+            type: 'object',
+            properties: {
+                inputs: {
+                    type: 'object',
+                    propertyNames: componentKeys,
+                    additionalProperties: { type: 'object' }
+                },
+                parameters: {
+                    type: 'object',
+                    propertyNames: componentKeys,
+                    additionalProperties: { $ref: '#/$defs/parameter' }
+                },
+                successActions: {
+                    type: 'object',
+                    propertyNames: componentKeys,
+                    additionalProperties: { $ref: '#/$defs/successAction' }
+                },
+                failureActions: {
+                    type: 'object',
+                    propertyNames: componentKeys,
+                    additionalProperties: { $ref: '#/$defs/failureAction' }
+                },
+                // Extension: reusable schema definitions
+                schemas: {
+                    type: 'object',
+                    propertyNames: componentKeys,
+                    additionalProperties: { type: 'object' }
+                }
+            },
+            patternProperties: extensions,
+            additionalProperties: false
+        },
+
+        // 4.6.11 Criterion Object
+        criterion: {
+            type: 'object',
+            required: ['condition'],
+            properties: {
+                condition: { type: 'string' },
+                context: { type: 'string' },
+                type: {
+                    if: { type: 'string' },
+                    then: {
+                        enum: ['simple', 'regex', 'jsonpath', 'xpath'],
+                        'x-message': 'Criterion type must be "simple", "regex", "jsonpath", "xpath" or a Criterion Expression Type Object'
+                    },
+                    else: { $ref: '#/$defs/criterionExpressionType' }
+                }
+            },
+            patternProperties: extensions,
+            additionalProperties: false,
+            if: { required: ['type'] },
+            then: {
+                required: ['context'],
+                'x-message': 'context is required when the criterion type is specified'
+            }
+        },
+
+        // 4.6.12 Criterion Expression Type Object
+        criterionExpressionType: {
+            type: 'object',
+            required: ['type', 'version'],
+            properties: {
+                type: {
+                    enum: ['jsonpath', 'xpath'],
+                    'x-message': 'Expression type must be "jsonpath" or "xpath"'
+                },
+                version: { type: 'string' }
+            },
+            patternProperties: extensions,
+            additionalProperties: false,
+            allOf: [
+                {
+                    if: { properties: { type: { const: 'jsonpath' } }, required: ['type'] },
+                    then: {
+                        properties: {
+                            version: {
+                                const: 'draft-goessner-dispatch-jsonpath-00',
+                                'x-message': 'JSONPath version must be "draft-goessner-dispatch-jsonpath-00"'
+                            }
+                        }
+                    }
+                },
+                {
+                    if: { properties: { type: { const: 'xpath' } }, required: ['type'] },
+                    then: {
+                        properties: {
+                            version: {
+                                enum: ['xpath-30', 'xpath-20', 'xpath-10'],
+                                'x-message': 'XPath version must be "xpath-30", "xpath-20" or "xpath-10"'
+                            }
+                        }
+                    }
+                }
+            ]
+        },
+
+        // 4.6.13 Request Body Object
+        requestBody: {
+            type: 'object',
+            properties: {
+                contentType: { type: 'string' },
+                payload: {},
+                replacements: {
+                    type: 'array',
+                    items: { $ref: '#/$defs/payloadReplacement' }
+                }
+            },
+            patternProperties: extensions,
+            additionalProperties: false
+        },
+
+        // 4.6.14 Payload Replacement Object
+        payloadReplacement: {
+            type: 'object',
+            required: ['target', 'value'],
+            properties: {
+                target: { type: 'string' },
+                value: {}
+            },
+            patternProperties: extensions,
+            additionalProperties: false
+        },
+
+        outputs: {
+            type: 'object',
+            propertyNames: {
+                pattern: COMPONENT_KEY_PATTERN,
+                'x-message': 'Output names must only contain letters, digits, ".", "-" and "_"'
+            },
+            additionalProperties: { type: 'string' }
+        }
+    }
+};
@@ -0,0 +1,108 @@
+import { Document, Scalar } from 'yaml';
+import { collectExpressions } from './expression-validation';
+import { ArazzoModel, buildArazzoModel } from './model';
+import { collectSymbols } from './symbols';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Semantic tokens
+// Highlighting of runtime expressions, criterion operators and workflow/step identifiers
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Token types, from the standard set so that themes colour them without extra configuration:
+ * - `keyword`: the source of a runtime expression, e.g. `$inputs`
+ * - `property`: the names following it
+ * - `regexp`: a JSON pointer fragment, e.g. `#/id`
+ * - `function` / `method`: workflow and step identifiers
+ * - `operator`: operators of simple criterion conditions
+ */
+export const SEMANTIC_TOKEN_TYPES = ['keyword', 'property', 'regexp', 'function', 'method', 'operator'] as const;
+
+export type SemanticTokenType = typeof SEMANTIC_TOKEN_TYPES[number];
+
+export const SEMANTIC_TOKEN_MODIFIERS = ['declaration'] as const;
+
+export type SemanticTokenModifier = typeof SEMANTIC_TOKEN_MODIFIERS[number];
+
+export interface ArazzoSemanticToken {
+    start: number;
+    end: number;
+    type: SemanticTokenType;
+    modifiers: SemanticTokenModifier[];
+}
+
+/** String literals and expressions are skipped, so that only operators outside them are matched */
+const CONDITION_TOKEN = /'[^']*'|"[^"]*"|\$[A-Za-z][^\s=!<>()&|,]*|(==|!=|<=|>=|&&|\|\||[<>!])/g;
+
+/**
+ * Lists the semantic tokens of a document, sorted and without overlaps.
+ */
+export function getSemanticTokens(yamlDoc: Document, text: string, model: ArazzoModel = buildArazzoModel(yamlDoc)): ArazzoSemanticToken[] {
+    const tokens: ArazzoSemanticToken[] = [];
+
+    for (const occurrence of collectSymbols(yamlDoc, text, model)) {
+        const kind = occurrence.symbol.kind;
+        if (kind === 'workflow' || kind === 'step') {
+            tokens.push({
+                start: occurrence.start,
+                end: occurrence.end,
+                type: kind === 'workflow' ? 'function' : 'method',
+                modifiers: occurrence.declaration ? ['declaration'] : []
+            });
+        }
+    }
+    // Identifiers inside expressions are already covered by the symbols
+    const identifiers = [...tokens];
+    const overlapsIdentifier = (start: number, end: number) => identifiers.some(t => t.start < end && start < t.end);
+
+    const conditions = new Set<Scalar>();
+    for (const occurrence of collectExpressions(yamlDoc, text, model)) {
+        const { match } = occurrence;
+        if (occurrence.context === 'condition') {
+            conditions.add(occurrence.node);
+        }
+        // Expressions that could not be located verbatim in the source are left alone
+        if (!match.expression || text.slice(match.start, match.end) !== match.text) {
+            continue;
+        }
+        const sourceEnd = match.start + 1 + match.expression.source.length;
+        tokens.push({ start: match.start, end: sourceEnd, type: 'keyword', modifiers: [] });
+
+        const hashIndex = match.text.indexOf('#');
+        const membersEnd = hashIndex >= 0 ? match.start + hashIndex : match.end;
+        let offset = sourceEnd;
+        for (const member of text.slice(sourceEnd, membersEnd).split('.').slice(1)) {
+            const start = offset + 1;
+            offset = start + member.length;
+            if (member !== '' && !overlapsIdentifier(start, offset)) {
+                tokens.push({ start, end: offset, type: 'property', modifiers: [] });
+            }
+        }
+        if (hashIndex >= 0) {
+            tokens.push({ start: membersEnd, end: match.end, type: 'regexp', modifiers: [] });
+        }
+    }
+
+    for (const condition of conditions) {
+        tokens.push(...scanOperators(condition, text));
+    }
+
+    return tokens.sort((a, b) => a.start - b.start);
+}
+
+function scanOperators(node: Scalar, text: string): ArazzoSemanticToken[] {
+    const value = String(node.value);
+    // Quotes and escapes shift the value against the source; operators are only located in verbatim values
+    const index = node.range ? text.slice(node.range[0], node.range[1]).indexOf(value) : -1;
+    if (index < 0) {
+        return [];
+    }
+    const base = node.range![0] + index;
+    const tokens: ArazzoSemanticToken[] = [];
+    for (const m of value.matchAll(CONDITION_TOKEN)) {
+        if (m[1]) {
+            tokens.push({ start: base + m.index!, end: base + m.index! + m[1].length, type: 'operator', modifiers: [] });
+        }
+    }
+    return tokens;
+}
@@ -0,0 +1,133 @@
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { Document, isMap } from 'yaml';
+import { parseArazzoDocument } from './document';
+import { ArazzoModel, SourceDescriptionModel } from './model';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Source descriptions
+// Loads the OpenAPI and Arazzo documents referenced by `sourceDescriptions`
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * File access used to load source descriptions, so open editors can take precedence over the disk
+ */
+export interface SourceFileReader {
+    /** A value that changes whenever the file content changes, undefined if the file does not exist */
+    version(filePath: string): string | number | undefined;
+    read(filePath: string): string | undefined;
+}
+
+export interface SourceDocument {
+    path: string;
+    text: string;
+    yamlDoc: Document.Parsed;
+}
+
+export interface LoadedSource {
+    description: SourceDescriptionModel;
+    /** Absolute path of a local source, undefined for remote URLs */
+    path?: string;
+    /** Parsed document, undefined when the source is remote or cannot be read */
+    document?: SourceDocument;
+}
+
+const REMOTE_URL = /^[a-z][a-z0-9+.-]*:\/\//i;
+
+/**
+ * Parsed source documents, re-read only when the reader reports a new version.
+ */
+export class SourceDocumentCache {
+    private readonly entries = new Map<string, { version: string | number; document: SourceDocument }>();
+
+    constructor(private readonly reader: SourceFileReader) {}
+
+    public get(filePath: string): SourceDocument | undefined {
+        const version = this.reader.version(filePath);
+        if (version === undefined) {
+            this.entries.delete(filePath);
+            return undefined;
+        }
+        const cached = this.entries.get(filePath);
+        if (cached && cached.version === version) {
+            return cached.document;
+        }
+        const text = this.reader.read(filePath);
+        if (text === undefined) {
+            return undefined;
+        }
+        const document = { path: filePath, text, yamlDoc: parseArazzoDocument(text).yamlDoc };
+        this.entries.set(filePath, { version, document });
+        return document;
+    }
+
+    public has(filePath: string): boolean {
+        return this.entries.has(filePath);
+    }
+
+    /**
+     * Finds the file a source description URL points at: relative to the referencing document
+     * first, then relative to each workspace folder.
+     */
+    public resolve(url: string, documentPath: string | undefined, workspaceRoots: string[]): string | undefined {
+        if (url.startsWith('file://')) {
+            try {
+                return fileURLToPath(url.split('#')[0]);
+            } catch {
+                // e.g. a host on a platform without UNC paths
+                return decodeUrl(url.slice('file://'.length).split('#')[0]);
+            }
+        }
+        if (REMOTE_URL.test(url)) {
+            return undefined;
+        }
+        const relative = decodeUrl(url.split('#')[0]);
+        if (path.isAbsolute(relative)) {
+            return relative;
+        }
+        const bases = documentPath ? [path.dirname(documentPath), ...workspaceRoots] : workspaceRoots;
+        const candidates = bases.map(base => path.resolve(base, relative));
+        return candidates.find(candidate => this.reader.version(candidate) !== undefined) ?? candidates[0];
+    }
+}
+
+/**
+ * Decodes the escapes of a URL or URI fragment, keeping text that is not a valid escape as is, e.g. "100%".
+ */
+export function decodeUrl(text: string): string {
+    try {
+        return decodeURIComponent(text);
+    } catch {
+        return text;
+    }
+}
+
+export function isRemoteUrl(url: string): boolean {
+    return REMOTE_URL.test(url) && !url.startsWith('file://');
+}
+
+/**
+ * Loads every source description of a document that can be found locally.
+ */
+export function loadSourceDescriptions(
+    model: ArazzoModel,
+    documentPath: string | undefined,
+    cache: SourceDocumentCache,
+    workspaceRoots: string[]
+): LoadedSource[] {
+    return model.sourceDescriptions.map(description => {
+        const filePath = description.url ? cache.resolve(description.url, documentPath, workspaceRoots) : undefined;
+        return { description, path: filePath, document: filePath ? cache.get(filePath) : undefined };
+    });
+}
+
+/**
+ * Whether a source is an OpenAPI description, from its declared type or, lacking one, from its content
+ */
+export function isOpenApiSource(source: LoadedSource): boolean {
+    if (source.description.type) {
+        return source.description.type === 'openapi';
+    }
+    const root = source.document?.yamlDoc.contents;
+    return !isMap(root) || !root.has('arazzo');
+}
@@ -0,0 +1,205 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// Arazzo 1.0.1 field documentation
+// Field tables of the Arazzo Specification (see context/arazzo-spec.md), keyed like the
+// $defs of the JSON Schema in schema.ts
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export interface FieldDoc {
+    type: string;
+    description: string;
+    required?: boolean;
+}
+
+export interface ObjectDoc {
+    title: string;
+    fields: Record<string, FieldDoc>;
+}
+
+const ACTION_FIELDS: Record<string, FieldDoc> = {
+    name: { type: 'string', description: 'The name of the action. Names are case sensitive.', required: true },
+    workflowId: {
+        type: 'string',
+        description: 'The workflowId referencing an existing workflow within the Arazzo Description to transfer to upon success of the step. Only used when `type` is "goto". Mutually exclusive with `stepId`.'
+    },
+    stepId: {
+        type: 'string',
+        description: 'The stepId to transfer to upon success of the step. Only used when `type` is "goto". The referenced step must be within the current workflow. Mutually exclusive with `workflowId`.'
+    },
+    criteria: {
+        type: '[Criterion Object]',
+        description: 'A list of assertions to determine if this action shall be executed. Each assertion is described using a Criterion Object. All criteria must be satisfied for the action to be executed.'
+    }
+};
+
+export const OBJECT_DOCS: Record<string, ObjectDoc> = {
+    root: {
+        title: 'Arazzo Specification Object',
+        fields: {
+            arazzo: { type: 'string', description: 'This string MUST be the version number of the Arazzo Specification that the Arazzo Description uses.', required: true },
+            info: { type: 'Info Object', description: 'Provides metadata about the workflows contain within the Arazzo Description.', required: true },
+            sourceDescriptions: {
+                type: '[Source Description Object]',
+                description: 'A list of source descriptions (such as an OpenAPI description) this Arazzo Description SHALL apply to.',
+                required: true
+            },
+            workflows: { type: '[Workflow Object]', description: 'A list of workflows. The list MUST have at least one entry.', required: true },
+            components: { type: 'Components Object', description: 'An element to hold various schemas for the Arazzo Description.' }
+        }
+    },
+    info: {
+        title: 'Info Object',
+        fields: {
+            title: { type: 'string', description: 'A human readable title of the Arazzo Description.', required: true },
+            summary: { type: 'string', description: 'A short summary of the Arazzo Description.' },
+            description: { type: 'string', description: 'A description of the purpose of the workflows defined.' },
+            version: { type: 'string', description: 'The version identifier of the Arazzo document.', required: true }
+        }
+    },
+    sourceDescription: {
+        title: 'Source Description Object',
+        fields: {
+            name: { type: 'string', description: 'A unique name for the source description.', required: true },
+            url: { type: 'string', description: 'A URL to a source description to be used by a workflow.', required: true },
+            type: { type: 'string', description: 'The type of source description. Possible values are "openapi" or "arazzo".' },
+            description: { type: 'string', description: 'A description of the source description.' }
+        }
+    },
+    workflow: {
+        title: 'Workflow Object',
+        fields: {
+            workflowId: { type: 'string', description: 'Unique string to represent the workflow.', required: true },
+            summary: { type: 'string', description: 'A summary of the purpose or objective of the workflow.' },
+            description: { type: 'string', description: 'A description of the workflow.' },
+            inputs: { type: 'JSON Schema', description: 'A JSON Schema 2020-12 object representing the input parameters used by this workflow.' },
+            dependsOn: { type: '[string]', description: 'A list of workflows that MUST be completed before this workflow can be processed.' },
+            steps: {
+                type: '[Step Object]',
+                description: 'An ordered list of steps where each step represents a call to an API operation or to another workflow.',
+                required: true
+            },
+            successActions: { type: '[Success Action Object]', description: 'A list of success actions that are applicable for all steps described under this workflow.' },
+            failureActions: { type: '[Failure Action Object]', description: 'A list of failure actions that are applicable for all steps described under this workflow.' },
+            outputs: { type: 'Map[string, {expression}]', description: 'A map between a friendly name and a dynamic output value.' },
+            parameters: { type: '[Parameter Object]', description: 'A list of parameters that are applicable for all steps described under this workflow.' }
+        }
+    },
+    step: {
+        title: 'Step Object',
+        fields: {
+            description: { type: 'string', description: 'A description of the step.' },
+            stepId: { type: 'string', description: 'Unique string to represent the step.', required: true },
+            operationId: { type: 'string', description: 'The name of an existing, resolvable operation.' },
+            operationPath: {
+                type: 'string',
+                description: 'A reference to a Source Description Object combined with a JSON Pointer to reference an operation.'
+            },
+            workflowId: { type: 'string', description: 'The workflowId referencing an existing workflow within the Arazzo Description.' },
+            parameters: { type: '[Parameter Object]', description: 'A list of parameters that MUST be passed to an operation or workflow.' },
+            requestBody: { type: 'Request Body Object', description: 'The request body to pass to an operation.' },
+            successCriteria: { type: '[Criterion Object]', description: 'A list of assertions to determine the success of the step.' },
+            onSuccess: { type: '[Success Action Object]', description: 'An array of success action objects that specify what to do upon step success.' },
+            onFailure: { type: '[Failure Action Object]', description: 'An array of failure action objects that specify what to do upon step failure.' },
+            outputs: { type: 'Map[string, {expression}]', description: 'A map between a friendly name and a dynamic output value.' }
+        }
+    },
+    parameter: {
+        title: 'Parameter Object',
+        fields: {
+            name: { type: 'string', description: 'The name of the parameter. Parameter names are case sensitive.', required: true },
+            in: {
+                type: 'string',
+                description: 'The location of the parameter. Possible values are "path", "query", "header" or "cookie". Required when the step calls an operation.'
+            },
+            value: { type: 'Any | {expression}', description: 'The value to pass in the parameter. The value can be a constant or a Runtime Expression.', required: true },
+            reference: { type: '{expression}', description: 'A runtime expression used to reference the desired object, e.g. `$components.parameters.page`.' }
+        }
+    },
+    successAction: {
+        title: 'Success Action Object',
+        fields: {
+            ...ACTION_FIELDS,
+            type: { type: 'string', description: 'The type of action to take. Possible values are "end" or "goto".', required: true },
+            reference: { type: '{expression}', description: 'A runtime expression used to reference the desired object, e.g. `$components.successActions.done`.' }
+        }
+    },
+    failureAction: {
+        title: 'Failure Action Object',
+        fields: {
+            ...ACTION_FIELDS,
+            type: { type: 'string', description: 'The type of action to take. Possible values are "end", "retry" or "goto".', required: true },
+            retryAfter: {
+                type: 'number',
+                description: 'A non-negative decimal indicating the seconds to delay after the step failure before another attempt shall be made. Only used when `type` is "retry".'
+            },
+            retryLimit: {
+                type: 'integer',
+                description: 'A non-negative integer indicating how many attempts to retry the step may be attempted before failing the overall step. Only used when `type` is "retry".'
+            },
+            reference: { type: '{expression}', description: 'A runtime expression used to reference the desired object, e.g. `$components.failureActions.retryLater`.' }
+        }
+    },
+    components: {
+        title: 'Components Object',
+        fields: {
+            inputs: { type: 'Map[string, JSON Schema]', description: 'An object to hold reusable JSON Schema objects to be referenced from workflow inputs.' },
+            parameters: { type: 'Map[string, Parameter Object]', description: 'An object to hold reusable Parameter Objects.' },
+            successActions: { type: 'Map[string, Success Action Object]', description: 'An object to hold reusable Success Actions Objects.' },
+            failureActions: { type: 'Map[string, Failure Action Object]', description: 'An object to hold reusable Failure Actions Objects.' },
+            schemas: { type: 'Map[string, JSON Schema]', description: 'Reusable schema definitions (extension).' }
+        }
+    },
+    criterion: {
+        title: 'Criterion Object',
+        fields: {
+            context: { type: '{expression}', description: 'A Runtime Expression used to set the context for the condition to be applied on.' },
+            condition: { type: 'string', description: 'The condition to apply.', required: true },
+            type: { type: 'string | Criterion Expression Type Object', description: 'The type of condition to be applied. Options: simple, regex, jsonpath, xpath.' }
+        }
+    },
+    criterionExpressionType: {
+        title: 'Criterion Expression Type Object',
+        fields: {
+            type: { type: 'string', description: 'The type of condition to be applied. Options: jsonpath, xpath.', required: true },
+            version: {
+                type: 'string',
+                description: 'A short hand string representing the version of the expression type. For jsonpath: "draft-goessner-dispatch-jsonpath-00". For xpath: "xpath-30", "xpath-20" or "xpath-10".',
+                required: true
+            }
+        }
+    },
+    requestBody: {
+        title: 'Request Body Object',
+        fields: {
+            contentType: { type: 'string', description: 'The Content-Type for the request content.' },
+            payload: { type: 'Any', description: 'A value representing the request body payload. The value can be a literal value or can contain Runtime Expressions.' },
+            replacements: {
+                type: '[Payload Replacement Object]',
+                description: 'A list of locations and values to set within a payload.'
+            }
+        }
+    },
+    payloadReplacement: {
+        title: 'Payload Replacement Object',
+        fields: {
+            target: { type: 'string', description: 'A JSON Pointer or XPath Expression which MUST be resolved against the request body. Used to identify where a value should be set.', required: true },
+            value: { type: 'Any | {expression}', description: 'The value set within the target location. The value can be a constant or a Runtime Expression.', required: true }
+        }
+    }
+};
+
+/**
+ * What each runtime expression source evaluates to (section 4.7)
+ */
+export const EXPRESSION_DOCS: Record<string, string> = {
+    url: 'The URL of the request.',
+    method: 'The HTTP method of the request.',
+    statusCode: 'The HTTP status code of the response.',
+    request: 'A header, query or path parameter, or the body, of the request.',
+    response: 'A header or the body of the response.',
+    inputs: 'An input of the current workflow.',
+    outputs: 'An output of the current workflow.',
+    steps: 'An output of a step of the current workflow.',
+    workflows: 'An input or output of a workflow of the Arazzo Description.',
+    sourceDescriptions: 'The URL of a source description, or an operation or workflow it describes.',
+    components: 'A reusable object of the `components` section.'
+};
@@ -0,0 +1,68 @@
+import { StepResult } from './runner';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Step failures
+// Why a step of a run failed, worded for test reports
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export interface StepFailure {
+    /** The error or failed criteria, followed by the response */
+    message: string;
+    /** Values to diff, when the failure compares an actual value with an expected one */
+    expected?: string;
+    actual?: string;
+}
+
+/** Response bodies longer than this are cut in messages */
+const MAX_BODY_LENGTH = 2000;
+
+function formatValue(value: unknown): string {
+    return typeof value === 'string' ? value : JSON.stringify(value, null, 2) ?? 'undefined';
+}
+
+/**
+ * Describes why a step failed or could not be executed: its error or failed criteria, with the
+ * actual response and the values of the first failed comparison to diff.
+ */
+export function describeStepFailure(step: StepResult): StepFailure {
+    const lines: string[] = [];
+    let diff: { expected: string; actual: string } | undefined;
+
+    if (step.error) {
+        lines.push(step.error);
+    }
+    for (const criterion of step.criteria.filter(c => !c.passed)) {
+        lines.push(`Criterion not satisfied: ${criterion.condition}${criterion.error ? ` (${criterion.error})` : ''}`);
+        for (const comparison of criterion.comparisons ?? []) {
+            lines.push(`  ${comparison.text}: actual ${formatValue(comparison.actual)}`);
+            if (!diff && comparison.operator === '==') {
+                diff = { expected: formatValue(comparison.expected), actual: formatValue(comparison.actual) };
+            }
+        }
+        if (!criterion.error && !criterion.comparisons?.length) {
+            lines.push(`  ${criterion.explanation}`);
+        }
+        if (!diff && criterion.type !== 'simple' && criterion.context !== undefined) {
+            // The pattern or path against the value it was applied to
+            diff = { expected: criterion.condition, actual: formatValue(criterion.context) };
+        }
+    }
+    if (step.workflow?.status === 'failed') {
+        lines.push(`Workflow ${step.workflow.workflowId} failed${step.workflow.error ? `: ${step.workflow.error}` : ''}`);
+    }
+    if (lines.length === 0) {
+        lines.push(`Step ${step.stepId} failed`);
+    }
+
+    if (step.response) {
+        const body = step.response.bodyText.length > MAX_BODY_LENGTH
+            ? `${step.response.bodyText.slice(0, MAX_BODY_LENGTH)}…`
+            : step.response.bodyText;
+        lines.push('', `${step.request?.method ?? ''} ${step.request?.url ?? ''} → ${step.response.statusCode}`.trim());
+        if (body) {
+            lines.push(body);
+        }
+    }
+    return { message: lines.join('\n'), ...diff };
+}
+
@@ -0,0 +1,50 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// "Did you mean" suggestions
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Returns the candidate closest to `value` by edit distance, if it is close enough to be a likely typo.
+ */
+export function findClosestMatch(value: string, candidates: Iterable<string>): string | undefined {
+    const maxDistance = Math.max(2, Math.floor(value.length / 3));
+    let best: string | undefined;
+    let bestDistance = Infinity;
+    for (const candidate of candidates) {
+        const distance = candidate.toLowerCase() === value.toLowerCase() ? 0.5 : editDistance(value, candidate);
+        if (distance < bestDistance) {
+            best = candidate;
+            bestDistance = distance;
+        }
+    }
+    return bestDistance <= maxDistance ? best : undefined;
+}
+
+/**
+ * Appends a "Did you mean" hint to a message when a close candidate exists.
+ */
+export function withSuggestion(message: string, value: string, candidates: Iterable<string>): string {
+    const suggestion = findClosestMatch(value, candidates);
+    return suggestion ? `${message}. Did you mean "${suggestion}"?` : message;
+}
+
+/**
+ * Levenshtein distance, counting an adjacent transposition as one edit
+ */
+export function editDistance(a: string, b: string): number {
+    const rows = a.length + 1;
+    const cols = b.length + 1;
+    const d: number[][] = Array.from({ length: rows }, (_, i) => [i, ...new Array<number>(cols - 1).fill(0)]);
+    for (let j = 0; j < cols; j++) {
+        d[0][j] = j;
+    }
+    for (let i = 1; i < rows; i++) {
+        for (let j = 1; j < cols; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+            if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+                d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+            }
+        }
+    }
+    return d[a.length][b.length];
+}
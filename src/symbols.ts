@@ -0,0 +1,317 @@
+import { Document, isMap, isScalar, isSeq } from 'yaml';
+import { collectExpressions } from './expression-validation';
+import { ArazzoModel, COMPONENT_SECTIONS, Declaration, WorkflowModel, buildArazzoModel, findStep, findWorkflow, forEachMapItem } from './model';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Symbols
+// Every declaration of, and reference to, a named Arazzo object in a document
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export type ArazzoSymbol =
+    | { kind: 'source'; name: string }
+    /** `source` is set for workflows of another Arazzo document, referenced as $sourceDescriptions.<source>.<name> */
+    | { kind: 'workflow'; name: string; source?: string }
+    | { kind: 'step'; workflow: string; name: string }
+    /** `source` is set for inputs of workflows of another Arazzo document, bound by the parameters of steps calling them */
+    | { kind: 'input'; workflow: string; name: string; source?: string }
+    | { kind: 'workflowOutput'; workflow: string; name: string }
+    | { kind: 'stepOutput'; workflow: string; step: string; name: string }
+    | { kind: 'component'; section: string; name: string }
+    /** `name` is the operationId as written in the step, e.g. "petStore.getPetById" */
+    | { kind: 'operation'; name: string };
+
+export interface SymbolOccurrence {
+    symbol: ArazzoSymbol;
+    /** Source offsets of the name */
+    start: number;
+    end: number;
+    declaration: boolean;
+}
+
+const SOURCE_WORKFLOW_PATTERN = /^\$sourceDescriptions\.([^.]+)\.(.+)$/;
+const INPUTS_REF_PATTERN = /^#\/components\/inputs\/(.+)$/;
+
+/**
+ * Identity of a symbol: occurrences with the same key name the same object.
+ */
+export function symbolKey(symbol: ArazzoSymbol): string {
+    switch (symbol.kind) {
+        case 'source':
+        case 'operation':
+            return `${symbol.kind}:${symbol.name}`;
+        case 'workflow':
+            return `workflow:${symbol.source ?? ''}:${symbol.name}`;
+        case 'input':
+            return symbol.source ? `input:${symbol.source}:${symbol.workflow}:${symbol.name}` : `input:${symbol.workflow}:${symbol.name}`;
+        case 'step':
+        case 'workflowOutput':
+            return `${symbol.kind}:${symbol.workflow}:${symbol.name}`;
+        case 'stepOutput':
+            return `stepOutput:${symbol.workflow}:${symbol.step}:${symbol.name}`;
+        case 'component':
+            return `component:${symbol.section}:${symbol.name}`;
+    }
+}
+
+/**
+ * Lists the declarations and references of every named object of a document, in document order.
+ */
+export function collectSymbols(yamlDoc: Document, text: string, model: ArazzoModel = buildArazzoModel(yamlDoc)): SymbolOccurrence[] {
+    const occurrences: SymbolOccurrence[] = [];
+    const add = (symbol: ArazzoSymbol, start: number, end: number, declaration = false) => {
+        occurrences.push({ symbol, start, end, declaration });
+    };
+    // Adds `part` of a scalar value, or the whole value
+    const addValue = (node: unknown, symbol: ArazzoSymbol, declaration = false, part?: { offset: number; length: number }) => {
+        if (!isScalar(node) || !node.range) {
+            return;
+        }
+        const value = String(node.value);
+        const index = text.slice(node.range[0], node.range[1]).indexOf(value);
+        if (index < 0) {
+            return;
+        }
+        const start = node.range[0] + index + (part?.offset ?? 0);
+        add(symbol, start, start + (part?.length ?? value.length), declaration);
+    };
+    const addDeclarations = (declarations: Declaration[] | undefined, symbol: (name: string) => ArazzoSymbol) => {
+        declarations?.forEach(d => addValue(d.nameNode, symbol(d.name), true));
+    };
+
+    const addWorkflowReference = (node: unknown) => {
+        if (!isScalar(node) || typeof node.value !== 'string') {
+            return;
+        }
+        const match = SOURCE_WORKFLOW_PATTERN.exec(node.value);
+        if (match) {
+            const sourceOffset = '$sourceDescriptions.'.length;
+            addValue(node, { kind: 'source', name: match[1] }, false, { offset: sourceOffset, length: match[1].length });
+            addValue(node, { kind: 'workflow', name: match[2], source: match[1] }, false, {
+                offset: sourceOffset + match[1].length + 1,
+                length: match[2].length
+            });
+        } else {
+            addValue(node, { kind: 'workflow', name: node.value });
+        }
+    };
+    // The parameters of a step calling a workflow name its inputs
+    const addInputParameters = (parameters: unknown, workflowId: unknown) => {
+        if (!isScalar(workflowId) || typeof workflowId.value !== 'string') {
+            return;
+        }
+        const match = SOURCE_WORKFLOW_PATTERN.exec(workflowId.value);
+        const workflow = match ? match[2] : workflowId.value;
+        forEachMapItem(parameters, parameter => {
+            const name = parameter.get('name', true);
+            if (isScalar(name) && typeof name.value === 'string') {
+                addValue(name, match ? { kind: 'input', workflow, name: name.value, source: match[1] } : { kind: 'input', workflow, name: name.value });
+            }
+        });
+    };
+    const addActions = (actions: unknown, workflow: WorkflowModel | undefined) => {
+        forEachMapItem(actions, action => {
+            const stepId = action.get('stepId', true);
+            if (workflow && isScalar(stepId)) {
+                addValue(stepId, { kind: 'step', workflow: workflow.name, name: String(stepId.value) });
+            }
+            addWorkflowReference(action.get('workflowId', true));
+        });
+    };
+
+    // Declarations
+    for (const source of model.sourceDescriptions) {
+        addValue(source.nameNode, { kind: 'source', name: source.name }, true);
+    }
+    for (const workflow of model.workflows) {
+        addValue(workflow.nameNode, { kind: 'workflow', name: workflow.name }, true);
+        addDeclarations(workflow.inputs, name => ({ kind: 'input', workflow: workflow.name, name }));
+        addDeclarations(workflow.outputs, name => ({ kind: 'workflowOutput', workflow: workflow.name, name }));
+        for (const step of workflow.steps) {
+            addValue(step.nameNode, { kind: 'step', workflow: workflow.name, name: step.name }, true);
+            addDeclarations(step.outputs, name => ({ kind: 'stepOutput', workflow: workflow.name, step: step.name, name }));
+        }
+    }
+    for (const section of COMPONENT_SECTIONS) {
+        addDeclarations(model.components[section], name => ({ kind: 'component', section, name }));
+    }
+
+    // References outside runtime expressions
+    for (const workflow of model.workflows) {
+        const dependsOn = workflow.node.get('dependsOn', true);
+        if (isSeq(dependsOn)) {
+            dependsOn.items.forEach(addWorkflowReference);
+        }
+        const inputs = workflow.node.get('inputs', true);
+        const ref = isMap(inputs) ? inputs.get('$ref', true) : undefined;
+        const refMatch = isScalar(ref) ? INPUTS_REF_PATTERN.exec(String(ref.value)) : null;
+        if (refMatch) {
+            addValue(ref, { kind: 'component', section: 'inputs', name: refMatch[1] }, false, {
+                offset: '#/components/inputs/'.length,
+                length: refMatch[1].length
+            });
+        }
+        addActions(workflow.node.get('successActions', true), workflow);
+        addActions(workflow.node.get('failureActions', true), workflow);
+
+        for (const step of workflow.steps) {
+            const workflowId = step.node.get('workflowId', true);
+            addWorkflowReference(workflowId);
+            addInputParameters(step.node.get('parameters', true), workflowId);
+            addActions(step.node.get('onSuccess', true), workflow);
+            addActions(step.node.get('onFailure', true), workflow);
+
+            const operationId = step.node.get('operationId', true);
+            if (isScalar(operationId) && typeof operationId.value === 'string') {
+                addValue(operationId, { kind: 'operation', name: operationId.value });
+                // Source of the "$sourceDescriptions.<source>.<operationId>" and "<source>.<operationId>" forms
+                const qualified = SOURCE_WORKFLOW_PATTERN.exec(operationId.value);
+                const prefix = operationId.value.split('.')[0];
+                if (qualified) {
+                    addValue(operationId, { kind: 'source', name: qualified[1] }, false, {
+                        offset: '$sourceDescriptions.'.length,
+                        length: qualified[1].length
+                    });
+                } else if (prefix !== operationId.value && model.sourceDescriptions.some(s => s.name === prefix)) {
+                    addValue(operationId, { kind: 'source', name: prefix }, false, { offset: 0, length: prefix.length });
+                }
+            }
+        }
+    }
+    const components = isMap(yamlDoc.contents) ? yamlDoc.contents.get('components', true) : undefined;
+    if (isMap(components)) {
+        for (const section of ['successActions', 'failureActions']) {
+            const actions = components.get(section, true);
+            if (isMap(actions)) {
+                // The stepId of a reusable action depends on where it is used
+                actions.items.forEach(pair => isMap(pair.value) && addWorkflowReference(pair.value.get('workflowId', true)));
+            }
+        }
+    }
+
+    // References in runtime expressions
+    for (const occurrence of collectExpressions(yamlDoc, text, model)) {
+        const { expression } = occurrence.match;
+        if (!expression) {
+            continue;
+        }
+        const at = (offset: number, name: string) => [occurrence.match.start + offset, occurrence.match.start + offset + name.length] as const;
+        const [first, second] = expression.path;
+        const prefix = `$${expression.source}.`.length;
+        const workflow = occurrence.workflow;
+
+        switch (expression.source) {
+            case 'steps': {
+                if (!workflow || !first) {
+                    break;
+                }
+                add({ kind: 'step', workflow: workflow.name, name: first }, ...at(prefix, first));
+                const output = expression.path.slice(2).join('.');
+                if (second === 'outputs' && output) {
+                    const name = findDeclaredName(findStep(workflow, first)?.outputs, output);
+                    add({ kind: 'stepOutput', workflow: workflow.name, step: first, name }, ...at(prefix + first.length + '.outputs.'.length, name));
+                }
+                break;
+            }
+            case 'workflows': {
+                if (!first) {
+                    break;
+                }
+                add({ kind: 'workflow', name: first }, ...at(prefix, first));
+                const member = expression.path.slice(2).join('.');
+                if (member && (second === 'outputs' || second === 'inputs')) {
+                    const target = findWorkflow(model, first);
+                    const kind = second === 'outputs' ? 'workflowOutput' : 'input';
+                    const name = findDeclaredName(second === 'outputs' ? target?.outputs : target?.inputs, member);
+                    add({ kind, workflow: first, name }, ...at(prefix + first.length + second.length + 2, name));
+                }
+                break;
+            }
+            case 'inputs': {
+                const member = expression.path.join('.');
+                if (workflow && member) {
+                    const name = findDeclaredName(workflow.inputs, member);
+                    add({ kind: 'input', workflow: workflow.name, name }, ...at(prefix, name));
+                }
+                break;
+            }
+            case 'sourceDescriptions':
+                if (first) {
+                    add({ kind: 'source', name: first }, ...at(prefix, first));
+                }
+                break;
+            case 'components': {
+                const name = expression.path.slice(1).join('.');
+                if (first && name) {
+                    add({ kind: 'component', section: first, name }, ...at(prefix + first.length + 1, name));
+                }
+                break;
+            }
+        }
+    }
+
+    return occurrences.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Returns the occurrence whose name contains `offset`.
+ */
+export function findSymbolAt(occurrences: SymbolOccurrence[], offset: number): SymbolOccurrence | undefined {
+    // The narrowest one, e.g. the source part of "petStore.getPetById"
+    return occurrences
+        .filter(o => o.start <= offset && offset <= o.end)
+        .sort((a, b) => (a.end - a.start) - (b.end - b.start))[0];
+}
+
+export function findDeclaration(occurrences: SymbolOccurrence[], symbol: ArazzoSymbol): SymbolOccurrence | undefined {
+    const key = symbolKey(symbol);
+    return occurrences.find(o => o.declaration && symbolKey(o.symbol) === key);
+}
+
+/**
+ * Lists the occurrences of a symbol. Symbols sharing a declaration are the same object, e.g. the
+ * inputs of two workflows using the same `components.inputs` schema.
+ */
+export function findOccurrences(occurrences: SymbolOccurrence[], symbol: ArazzoSymbol): SymbolOccurrence[] {
+    const keys = new Set([symbolKey(symbol)]);
+    const declaration = findDeclaration(occurrences, symbol);
+    if (declaration) {
+        occurrences
+            .filter(o => o.declaration && o.start === declaration.start)
+            .forEach(o => keys.add(symbolKey(o.symbol)));
+    }
+    return occurrences.filter(o => keys.has(symbolKey(o.symbol)));
+}
+
+const NAME_PATTERNS: Record<ArazzoSymbol['kind'], RegExp | undefined> = {
+    source: /^[A-Za-z0-9_-]+$/,
+    workflow: /^[A-Za-z0-9_-]+$/,
+    step: /^[A-Za-z0-9_-]+$/,
+    component: /^[a-zA-Z0-9.\-_]+$/,
+    input: /^[^.\s#]+$/,
+    workflowOutput: /^[a-zA-Z0-9.\-_]+$/,
+    stepOutput: /^[a-zA-Z0-9.\-_]+$/,
+    operation: undefined
+};
+
+/**
+ * Why a symbol cannot be renamed to `newName`, or undefined if it can.
+ */
+export function checkNewName(symbol: ArazzoSymbol, newName: string): string | undefined {
+    const pattern = NAME_PATTERNS[symbol.kind];
+    if (!pattern) {
+        return 'Operations are declared in the OpenAPI description and cannot be renamed here';
+    }
+    if (!pattern.test(newName)) {
+        return `"${newName}" is not a valid name, it must match ${pattern.source}`;
+    }
+    return undefined;
+}
+
+/**
+ * The declared name `member` ("a" or "a.b.c") starts with, since declared names may contain dots and
+ * expressions may address into a value. Falls back to the first segment.
+ */
+export function findDeclaredName(declarations: Declaration[] | undefined, member: string): string {
+    const declaration = declarations?.find(d => member === d.name || member.startsWith(`${d.name}.`));
+    return declaration?.name ?? member.split('.')[0];
+}
@@ -0,0 +1,132 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { main } from '../cli';
+
+const PETSTORE = `openapi: 3.1.0
+info:
+  title: Petstore
+  version: 1.0.0
+servers:
+  - url: https://petstore.example.com/v1
+paths:
+  /pets/{petId}:
+    get:
+      operationId: getPet
+      parameters:
+        - name: petId
+          in: path
+          required: true
+          schema:
+            type: integer
+`;
+
+const ARAZZO = `arazzo: 1.0.1
+info:
+  title: Adoption
+  version: 1.0.0
+sourceDescriptions:
+  - name: petStore
+    url: ./petstore.yaml
+    type: openapi
+workflows:
+  - workflowId: adopt
+    steps:
+      - stepId: find
+        operationId: getPet
+        parameters:
+          - name: petId
+            in: path
+            value: 1
+        successCriteria:
+          - condition: $response.body#/status == 'available'
+`;
+
+suite('Arazzo CLI Test Suite', () => {
+	let cwd: string;
+	let stdout: string[];
+	let stderr: string[];
+	const run = (args: string[], fetch?: typeof globalThis.fetch) => main(args, {
+		stdout: text => stdout.push(text),
+		stderr: text => stderr.push(text),
+		cwd,
+		fetch
+	});
+
+	setup(() => {
+		cwd = fs.mkdtempSync(path.join(os.tmpdir(), 'arazzo-cli-'));
+		fs.writeFileSync(path.join(cwd, 'petstore.yaml'), PETSTORE);
+		fs.writeFileSync(path.join(cwd, 'adopt.arazzo.yaml'), ARAZZO);
+		stdout = [];
+		stderr = [];
+	});
+
+	teardown(() => {
+		fs.rmSync(cwd, { recursive: true, force: true });
+	});
+
+	test('validate should find the documents of a directory and fail on errors', async () => {
+		assert.strictEqual(await run(['validate', '.']), 0);
+		assert.strictEqual(stdout.join('\n'), '✔ 1 file checked, no problems');
+
+		fs.writeFileSync(path.join(cwd, 'adopt.arazzo.yaml'), ARAZZO.replace('operationId: getPet', 'operationId: getPets'));
+		stdout = [];
+		assert.strictEqual(await run(['validate', 'adopt.arazzo.yaml', '--format', 'json']), 1);
+		const [report] = JSON.parse(stdout.join('\n'));
+		assert.strictEqual(report.path, 'adopt.arazzo.yaml');
+		assert.deepStrictEqual(report.problems.map((p: { code: string; startLine: number }) => [p.code, p.startLine]), [['unknown-operation', 13]]);
+	});
+
+	test('validate should list problems in document order with stable rule ids', async () => {
+		fs.writeFileSync(path.join(cwd, 'adopt.arazzo.yaml'), `${ARAZZO.replace('operationId: getPet', 'operationId: getPets')}        retries: 2\n`);
+		assert.strictEqual(await run(['validate', 'adopt.arazzo.yaml']), 1);
+		assert.deepStrictEqual(stdout.join('\n').split('\n').filter(line => /^ {2}\d/.test(line)).map(line => line.trim().split(' ')[0]), ['13:22', '20:9']);
+
+		stdout = [];
+		assert.strictEqual(await run(['validate', 'adopt.arazzo.yaml', '-f', 'sarif']), 1);
+		const { results, tool } = JSON.parse(stdout.join('\n')).runs[0];
+		assert.deepStrictEqual(results.map((result: { ruleId: string }) => result.ruleId), ['unknown-operation', 'schema/additionalProperties']);
+		assert.deepStrictEqual(tool.driver.rules, [{ id: 'unknown-operation' }, { id: 'schema/additionalProperties' }]);
+	});
+
+	test('validate should only report the syntax error of an invalid JSON document', async () => {
+		fs.writeFileSync(path.join(cwd, 'adopt.arazzo.json'), '{\n  "arazzo": "1.0.1",\n  "info": {},\n}\n');
+		assert.strictEqual(await run(['validate', 'adopt.arazzo.json', '--format', 'json']), 1);
+		const [report] = JSON.parse(stdout.join('\n'));
+		assert.deepStrictEqual(report.problems.map((p: { code: string; startLine: number }) => [p.code, p.startLine]), [['syntax', 4]]);
+	});
+
+	test('validate should accept source URLs that are not valid URI escapes', async () => {
+		fs.renameSync(path.join(cwd, 'petstore.yaml'), path.join(cwd, '100%.yaml'));
+		fs.writeFileSync(path.join(cwd, 'adopt.arazzo.yaml'), ARAZZO.replace('./petstore.yaml', './100%.yaml'));
+		assert.strictEqual(await run(['validate', 'adopt.arazzo.yaml']), 0, stderr.join('\n'));
+		assert.strictEqual(stdout.join('\n'), '✔ 1 file checked, no problems');
+	});
+
+	test('run should report failed criteria in JUnit and SARIF and exit with 1', async () => {
+		const pet = (status: string): typeof fetch => async () => new Response(JSON.stringify({ status }), { headers: { 'content-type': 'application/json' } });
+		assert.strictEqual(await run(['run', 'adopt.arazzo.yaml'], pet('available')), 0);
+		assert.match(stdout.join('\n'), /✔ 1 workflow passed/);
+
+		stdout = [];
+		assert.strictEqual(await run(['run', 'adopt.arazzo.yaml', '-f', 'junit'], pet('sold')), 1);
+		const junit = stdout.join('\n');
+		assert.match(junit, /<testsuite name="adopt.arazzo.yaml#adopt" tests="1" failures="1" errors="0" skipped="0">/);
+		assert.match(junit, /<failure message="Criterion not satisfied: \$response.body#\/status == &apos;available&apos;">/);
+
+		stdout = [];
+		assert.strictEqual(await run(['run', 'adopt.arazzo.yaml', '-f', 'sarif'], pet('sold')), 1);
+		const [result] = JSON.parse(stdout.join('\n')).runs[0].results;
+		assert.strictEqual(result.ruleId, 'step-failed');
+		assert.deepStrictEqual(result.locations[0].physicalLocation.region, { startLine: 12, startColumn: 17, endLine: 12, endColumn: 21 });
+	});
+
+	test('Invalid usage should exit with 2', async () => {
+		assert.strictEqual(await run(['deploy']), 2);
+		assert.match(stderr[0], /^Unknown command: deploy/);
+		assert.strictEqual(await run(['graph', 'adopt.arazzo.yaml', '-f', 'svg']), 2);
+		assert.strictEqual(await run(['graph', 'adopt.arazzo.yaml', '-w', 'adopt']), 0);
+		assert.match(stdout.join('\n'), /^flowchart TB/);
+	});
+});
@@ -0,0 +1,110 @@
+import * as assert from 'assert';
+import { ArazzoCodeAction, TextEdit, getCodeActions } from '../code-actions';
+import { parseArazzoDocument } from '../document';
+import { buildArazzoModel } from '../model';
+import { validateReferences } from '../references';
+import { validateArazzo } from '../validation';
+
+const CONTENT = `arazzo: 1.0.1
+info:
+  title: Adoption
+  version: 1.0.0
+sourceDescriptions:
+  - name: petStore
+    url: ./petstore.yaml
+workflows:
+  - workflowId: adopt
+    steps:
+      - stepId: find
+        operationId: findPet
+        parameters:
+          - name: petId
+            value: 1
+        onSuccess:
+          - name: next
+            type: goto
+            stepId: adpot
+      - stepId: adopt
+        operationId: adoptPet
+`;
+
+/**
+ * Code actions at the first occurrence of `target` in `content`
+ */
+function actionsAt(content: string, target: string): ArazzoCodeAction[] {
+	const { yamlDoc } = parseArazzoDocument(content);
+	const model = buildArazzoModel(yamlDoc);
+	const problems = [...validateArazzo(yamlDoc), ...validateReferences(yamlDoc, model)];
+	const offset = content.indexOf(target);
+	return getCodeActions({ text: content, yamlDoc, model, sources: [], format: 'yaml' }, offset, offset, problems);
+}
+
+function apply(content: string, edits: TextEdit[]): string {
+	return [...edits]
+		.sort((a, b) => b.start - a.start)
+		.reduce((text, edit) => text.slice(0, edit.start) + edit.newText + text.slice(edit.end), content);
+}
+
+suite('Arazzo Code Actions Test Suite', () => {
+	test('A misspelled stepId should be changed to the closest step, or created', () => {
+		const actions = actionsAt(CONTENT, 'adpot');
+		assert.deepStrictEqual(actions.map(a => a.title), ['Change to "adopt"', 'Create step "adpot"', 'Extract action to components.successActions']);
+		assert.ok(apply(CONTENT, actions[0].edits).includes('            stepId: adopt\n'));
+		assert.ok(apply(CONTENT, actions[1].edits).endsWith(`        operationId: adoptPet
+      - stepId: adpot
+        operationId: ""
+`));
+	});
+
+	test('A missing "in" should offer every location', () => {
+		const actions = actionsAt(CONTENT, 'name: petId');
+		assert.deepStrictEqual(actions.map(a => a.title), ['Add "in: path"', 'Add "in: query"', 'Add "in: header"', 'Add "in: cookie"']);
+		assert.ok(apply(CONTENT, actions[1].edits).includes(`          - name: petId
+            value: 1
+            in: query
+`));
+	});
+
+	test('Missing required fields should be added with a placeholder', () => {
+		const content = CONTENT.replace('  version: 1.0.0\n', '');
+		const [action] = actionsAt(content, 'info');
+		assert.strictEqual(action.title, 'Add missing "version"');
+		assert.ok(apply(content, action.edits).startsWith('arazzo: 1.0.1\ninfo:\n  title: Adoption\n  version: ""\n'));
+	});
+
+	test('Source descriptions without a type should get one', () => {
+		const [action] = actionsAt(CONTENT, 'petStore');
+		assert.strictEqual(action.title, 'Add "type: openapi"');
+		assert.ok(apply(CONTENT, action.edits).includes('    url: ./petstore.yaml\n    type: openapi\n'));
+	});
+
+	test('Inline actions should be extracted to components', () => {
+		const action = actionsAt(CONTENT, 'type: goto').find(a => a.kind === 'refactor.extract');
+		assert.strictEqual(apply(CONTENT, action!.edits), CONTENT.replace(`          - name: next
+            type: goto
+            stepId: adpot`, `          - reference: $components.successActions.next`) + `components:
+  successActions:
+    next:
+      name: next
+      type: goto
+      stepId: adpot
+`);
+	});
+
+	test('Extracted actions should be keyed by their name without the characters keys do not allow', () => {
+		const content = CONTENT.replace('- name: next', `- name: 'retry: later'`);
+		const action = actionsAt(content, 'type: goto').find(a => a.kind === 'refactor.extract');
+		const extracted = apply(content, action!.edits);
+		assert.ok(extracted.includes('          - reference: $components.successActions.retry_later\n'));
+		assert.ok(extracted.endsWith(`components:
+  successActions:
+    retry_later:
+      name: "retry: later"
+      type: goto
+      stepId: adpot
+`), extracted);
+		const { yamlDoc } = parseArazzoDocument(extracted);
+		const problems = [...validateArazzo(yamlDoc), ...validateReferences(yamlDoc, buildArazzoModel(yamlDoc))];
+		assert.deepStrictEqual(problems.filter(p => /retry|component/i.test(p.message)).map(p => p.message), []);
+	});
+});
@@ -0,0 +1,221 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { getCompletionContext, getCompletions, getExpressionCompletions } from '../completion';
+import { parseArazzoDocument } from '../document';
+import { buildArazzoModel } from '../model';
+import { SourceDocumentCache, loadSourceDescriptions } from '../sources';
+
+/**
+ * Completes at the "|" marker of `content`
+ */
+function complete(content: string) {
+	const offset = content.indexOf('|');
+	return getCompletions(content.slice(0, offset) + content.slice(offset + 1), offset);
+}
+
+function labels(content: string): string[] {
+	return complete(content).map(c => c.label);
+}
+
+const PETSTORE = `
+openapi: 3.1.0
+info:
+  title: Petstore
+  version: 1.0.0
+paths:
+  /pets/{petId}:
+    get:
+      operationId: getPetById
+      parameters:
+        - name: petId
+          in: path
+          schema:
+            type: integer
+      responses:
+        '200':
+          description: OK
+          headers:
+            ETag:
+              schema:
+                type: string
+          content:
+            application/json:
+              schema:
+                $ref: '#/components/schemas/Pet'
+components:
+  schemas:
+    Pet:
+      type: object
+      properties:
+        id:
+          type: integer
+        tags:
+          type: array
+          items:
+            properties:
+              label:
+                type: string
+`;
+
+/**
+ * Completes the runtime expression at the "|" marker of `content`, with the petstore as its only source
+ */
+function expressions(content: string): string[] {
+	const offset = content.indexOf('|');
+	const text = content.slice(0, offset) + content.slice(offset + 1);
+	const root = path.resolve('/workspace');
+	const cache = new SourceDocumentCache({
+		version: filePath => filePath === path.join(root, 'petstore.yaml') ? 1 : undefined,
+		read: () => PETSTORE
+	});
+	const { yamlDoc } = parseArazzoDocument(text);
+	const model = buildArazzoModel(yamlDoc);
+	const sources = loadSourceDescriptions(model, path.join(root, 'pets.arazzo.yaml'), cache, []);
+	return getExpressionCompletions(text, offset, model, sources).map(c => c.label);
+}
+
+const HEADER = `arazzo: 1.0.1
+info:
+  title: Test
+  version: 1.0.0
+workflows:
+  - workflowId: buy
+    steps:
+`;
+
+suite('Arazzo Completion Test Suite', () => {
+	test('The context should follow the indentation of the lines above', () => {
+		const content = `${HEADER}      - stepId: order
+        onFailure:
+          - name: again
+            |`;
+		const offset = content.indexOf('|');
+		const context = getCompletionContext(content.slice(0, offset), offset);
+		assert.deepStrictEqual(context?.path, ['workflows', '[]', 'steps', '[]', 'onFailure', '[]']);
+		assert.deepStrictEqual([...context.siblings.keys()], ['name']);
+	});
+
+	test('Keys should be those of the object under the cursor, minus the ones already written', () => {
+		const keys = labels(`${HEADER}      - stepId: order
+        |`);
+		assert.ok(keys.includes('operationId'));
+		assert.ok(keys.includes('successCriteria'));
+		assert.ok(!keys.includes('stepId'));
+		assert.ok(!keys.includes('workflows'));
+
+		const root = labels(`arazzo: 1.0.1
+|`);
+		assert.deepStrictEqual(root, ['info', 'sourceDescriptions', 'workflows', 'components']);
+	});
+
+	test('Keys should depend on the values of their siblings', () => {
+		const end = labels(`${HEADER}      - stepId: order
+        onFailure:
+          - name: stop
+            type: end
+            |`);
+		assert.ok(!end.includes('stepId'));
+		assert.ok(!end.includes('retryLimit'));
+
+		const retry = labels(`${HEADER}      - stepId: order
+        onFailure:
+          - name: again
+            type: retry
+            |`);
+		assert.ok(retry.includes('retryLimit'));
+	});
+
+	test('Values should be the enum of the key', () => {
+		assert.deepStrictEqual(labels(`${HEADER}      - stepId: order
+        onFailure:
+          - name: again
+            type: |`), ['end', 'retry', 'goto']);
+		assert.deepStrictEqual(labels(`${HEADER}      - stepId: order
+        parameters:
+          - name: id
+            in: q|`), ['path', 'query', 'header', 'cookie']);
+		assert.deepStrictEqual(labels(`${HEADER}      - stepId: order
+        successCriteria:
+          - condition: $.ok
+            context: $response.body
+            type: |`), ['simple', 'regex', 'jsonpath', 'xpath']);
+	});
+
+	test('Snippets should insert whole list items at the right indentation', () => {
+		const completions = complete(`${HEADER}      |`);
+		const step = completions.find(c => c.label === 'step');
+		assert.strictEqual(step?.insertText, '- stepId: ${1:stepId}\n  operationId: ${2:operationId}\n  successCriteria:\n    - condition: \\$statusCode == ${3:200}');
+		assert.strictEqual(step.start, HEADER.length + 6);
+
+		const actions = complete(`${HEADER}      - stepId: order
+        onSuccess:
+          - |`).filter(c => c.kind === 'snippet');
+		assert.deepStrictEqual(actions.map(c => c.label), ['goto action', 'end action']);
+		assert.strictEqual(actions[0].insertText, 'name: ${1:name}\n  type: goto\n  stepId: ${2:stepId}');
+	});
+
+	test('Expressions should offer what is in scope at the cursor', () => {
+		const content = `arazzo: 1.0.1
+info:
+  title: Test
+  version: 1.0.0
+sourceDescriptions:
+  - name: petStore
+    url: ./petstore.yaml
+workflows:
+  - workflowId: adopt
+    inputs:
+      type: object
+      properties:
+        petId:
+          type: integer
+    steps:
+      - stepId: find
+        operationId: getPetById
+        parameters:
+          - name: petId
+            in: path
+            value: $inputs.petId
+        outputs:
+          id: $response.body#/id
+      - stepId: adopt
+        operationId: getPetById
+        parameters:
+          - name: petId
+            in: path
+            value: $|
+        successCriteria:
+          - condition: $statusCode == 200
+        outputs:
+          tag: $response.body#/tags/0/label
+components:
+  parameters:
+    page:
+      name: page
+      in: query
+      value: 1
+`;
+		const offered = expressions(content);
+		for (const expected of [
+			'$inputs.petId',
+			'$steps.find.outputs.id',
+			'$components.parameters.page',
+			'$sourceDescriptions.petStore.url',
+			'$sourceDescriptions.petStore.getPetById',
+			'$request.path.petId',
+			'$response.header.ETag',
+			'$response.body#/id',
+			'$response.body#/tags/0/label'
+		]) {
+			assert.ok(offered.includes(expected), expected);
+		}
+		// The step has not run yet when its parameters are evaluated
+		assert.ok(!offered.includes('$steps.adopt.outputs.tag'));
+		assert.ok(expressions(content.replace('$|', '$inputs.petId').replace('== 200', '== 200 && $|')).includes('$steps.adopt.outputs.tag'));
+	});
+
+	test('Keys starting with "$" should not be completed as expressions', () => {
+		assert.deepStrictEqual(expressions(`${HEADER}    inputs:
+      $|`), []);
+	});
+});
@@ -0,0 +1,89 @@
+import * as assert from 'assert';
+import { evaluateCondition, evaluateCriterion } from '../criteria';
+import { RuntimeState } from '../runtime';
+
+const STATE: RuntimeState = {
+	inputs: { limit: 10 },
+	outputs: {},
+	steps: {},
+	workflows: {},
+	sourceDescriptions: {},
+	components: {},
+	response: {
+		statusCode: 200,
+		headers: { 'content-type': 'application/json' },
+		body: { pets: [{ name: 'Rex', status: 'Available' }], total: 12 },
+		bodyText: ''
+	}
+};
+
+suite('Arazzo Criteria Test Suite', () => {
+	test('Simple conditions should support comparisons and logical operators', () => {
+		assert.strictEqual(evaluateCondition('$statusCode == 200', STATE), true);
+		assert.strictEqual(evaluateCondition('$statusCode == 200 && $response.body#/total > $inputs.limit', STATE), true);
+		assert.strictEqual(evaluateCondition('$statusCode != 200 || !($response.body#/total <= 12)', STATE), false);
+		assert.strictEqual(evaluateCondition('$response.body#/missing == null', STATE), true);
+	});
+
+	test('String comparisons should be case insensitive', () => {
+		assert.strictEqual(evaluateCondition(`$response.body#/pets/0/status == 'available'`, STATE), true);
+		assert.strictEqual(evaluateCondition(`$response.header.Content-Type == 'APPLICATION/JSON'`, STATE), true);
+	});
+
+	test('Regex, JSONPath and XPath criteria should evaluate against their context', () => {
+		assert.ok(evaluateCriterion({ context: '$statusCode', condition: '^2\\d\\d$', type: 'regex' }, STATE).passed);
+		assert.ok(evaluateCriterion({ context: '$response.body', condition: '$.pets[?(@.name == "Rex")]', type: 'jsonpath' }, STATE).passed);
+		assert.ok(!evaluateCriterion({ context: '$response.body', condition: '$.pets[?(@.name == "Tom")]', type: 'jsonpath' }, STATE).passed);
+
+		const xml: RuntimeState = { ...STATE, response: { ...STATE.response!, body: '<pets><pet>Rex</pet></pets>' } };
+		assert.ok(evaluateCriterion({ context: '$response.body', condition: 'count(//pet) = 1', type: { type: 'xpath', version: 'xpath-10' } }, xml).passed);
+	});
+
+	test('Criteria that cannot be evaluated should fail with an error', () => {
+		const result = evaluateCriterion({ condition: '$statusCode ==', type: 'simple' }, STATE);
+		assert.strictEqual(result.passed, false);
+		assert.strictEqual(result.error, 'Unexpected end of condition: $statusCode ==');
+		assert.strictEqual(evaluateCriterion({ condition: '.*', type: 'regex' }, STATE).error, 'A regex criterion requires a context');
+	});
+
+	test('Failed simple conditions should report the comparisons that did not hold', () => {
+		const result = evaluateCriterion({ condition: `$statusCode == 201 && $response.body#/pets/0/name == 'Tom'` }, STATE);
+		assert.deepStrictEqual(result.comparisons, [
+			{ text: '$statusCode == 201', operator: '==', actual: 200, expected: 201 },
+			{ text: `$response.body#/pets/0/name == 'Tom'`, operator: '==', actual: 'Rex', expected: 'Tom' }
+		]);
+		assert.strictEqual(evaluateCriterion({ condition: '$statusCode == 200 || $statusCode == 201' }, STATE).comparisons, undefined);
+	});
+
+	test('Criteria should explain why they passed or failed', () => {
+		assert.strictEqual(evaluateCriterion({ condition: '$statusCode == 200' }, STATE).explanation, '$statusCode == 200 is true');
+		assert.strictEqual(evaluateCriterion({ condition: '$statusCode < 100' }, STATE).explanation, '$statusCode < 100 is false: 200 < 100');
+		assert.strictEqual(evaluateCriterion({ context: '$statusCode', condition: '^4', type: 'regex' }, STATE).explanation, '"200" does not match /^4/');
+
+		const jsonPath = evaluateCriterion({ context: '$response.body', condition: '$.pets[*].name', type: 'jsonpath' }, STATE);
+		assert.strictEqual(jsonPath.version, 'draft-goessner-dispatch-jsonpath-00');
+		assert.strictEqual(jsonPath.explanation, '$.pets[*].name selects 1 value');
+		assert.deepStrictEqual(jsonPath.matches, ['Rex']);
+	});
+
+	test('XPath criteria should support the functions of XPath 2.0 and 3.0 and reject unknown versions', () => {
+		const xml: RuntimeState = { ...STATE, response: { ...STATE.response!, body: '<pets><pet>Rex</pet><pet>Tom</pet></pets>' } };
+		const result = evaluateCriterion({ context: '$response.body', condition: `//pet[lower-case(.) = 'rex']`, type: { type: 'xpath', version: 'xpath-20' } }, xml);
+		assert.strictEqual(result.passed, true);
+		assert.deepStrictEqual(result.matches, ['Rex']);
+		assert.strictEqual(evaluateCriterion({ context: '$response.body', condition: `string-join(//pet, ',') = 'Rex,Tom'`, type: 'xpath' }, xml).explanation,
+			`string-join(//pet, ',') = 'Rex,Tom' evaluates to true`);
+		assert.match(evaluateCriterion({ context: '$response.body', condition: `upper-case(//pet) = 'REX'`, type: { type: 'xpath', version: 'xpath-10' } }, xml).error!, /Unknown function/);
+		assert.strictEqual(evaluateCriterion({ context: '$response.body', condition: '//pet', type: { type: 'xpath', version: 'xpath-40' } }, xml).error,
+			'Unsupported xpath version: xpath-40, expected one of xpath-30, xpath-20, xpath-10');
+	});
+
+	test('XPath criteria should fail on contexts that are not valid XML', () => {
+		for (const body of ['<pets><pet>Rex</pets>', '<pets><pet a="1" a="2">Rex</pet></pets>']) {
+			const xml: RuntimeState = { ...STATE, response: { ...STATE.response!, body } };
+			const result = evaluateCriterion({ context: '$response.body', condition: 'count(//pet) = 1', type: 'xpath' }, xml);
+			assert.strictEqual(result.passed, false);
+			assert.match(result.error!, /^The context of an xpath criterion is not valid XML: /);
+		}
+	});
+});
@@ -0,0 +1,196 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { DebugProtocol } from '@vscode/debugprotocol';
+import { ArazzoDebugSession } from '../debugger';
+import { SourceDocumentCache } from '../sources';
+
+const ROOT = path.resolve('/workspace');
+const DOCUMENT = path.join(ROOT, 'items.arazzo.yaml');
+
+const API = `
+openapi: 3.1.0
+info:
+  title: Items
+  version: 1.0.0
+servers:
+  - url: http://items.test
+paths:
+  /items/{id}:
+    get:
+      operationId: getItem
+`;
+
+const ARAZZO = `arazzo: 1.0.1
+info:
+  title: Items
+  version: 1.0.0
+sourceDescriptions:
+  - name: api
+    url: ./api.yaml
+    type: openapi
+workflows:
+  - workflowId: main
+    steps:
+      - stepId: first
+        operationId: getItem
+        parameters:
+          - name: id
+            in: path
+            value: $inputs.id
+        outputs:
+          name: $response.body#/name
+      - stepId: sub
+        workflowId: child
+      - stepId: last
+        operationId: getItem
+        parameters:
+          - name: id
+            in: path
+            value: $steps.first.outputs.name
+  - workflowId: child
+    steps:
+      - stepId: nested
+        operationId: getItem
+        parameters:
+          - name: id
+            in: path
+            value: other
+`;
+
+/**
+ * Drives a session as the editor would, answering requests and queuing events
+ */
+class Client {
+	private seq = 1;
+	private readonly responses = new Map<number, (response: DebugProtocol.Response) => void>();
+	private readonly events: DebugProtocol.Event[] = [];
+	private waiting: (() => void) | undefined;
+	public readonly output: string[] = [];
+	public readonly session: ArazzoDebugSession;
+
+	constructor() {
+		const files: Record<string, string> = { [DOCUMENT]: ARAZZO, [path.join(ROOT, 'api.yaml')]: API };
+		const cache = new SourceDocumentCache({
+			version: filePath => filePath in files ? 1 : undefined,
+			read: filePath => files[filePath]
+		});
+		const fetch = async (url: string | URL | Request) => {
+			const id = String(url).split('/').pop();
+			return new Response(JSON.stringify({ name: `item-${id}` }), { status: 200, headers: { 'Content-Type': 'application/json' } });
+		};
+		this.session = new ArazzoDebugSession(message => this.receive(message), { cache, fetch: fetch as typeof globalThis.fetch });
+	}
+
+	public request<T = unknown>(command: string, args?: unknown): Promise<T> {
+		const seq = this.seq++;
+		return new Promise((resolve, reject) => {
+			this.responses.set(seq, response => response.success ? resolve(response.body) : reject(new Error(response.message)));
+			this.session.handleMessage({ seq, type: 'request', command, arguments: args } as DebugProtocol.Request);
+		});
+	}
+
+	public async event(name: string): Promise<DebugProtocol.Event> {
+		for (;;) {
+			const index = this.events.findIndex(e => e.event === name);
+			if (index >= 0) {
+				return this.events.splice(index, 1)[0];
+			}
+			await new Promise<void>(resolve => this.waiting = resolve);
+		}
+	}
+
+	public async stack(): Promise<string[]> {
+		const { stackFrames } = await this.request<DebugProtocol.StackTraceResponse['body']>('stackTrace', { threadId: 1 });
+		return stackFrames.map(frame => `${frame.name}:${frame.line}`);
+	}
+
+	private receive(message: DebugProtocol.ProtocolMessage) {
+		if (message.type === 'response') {
+			const response = message as DebugProtocol.Response;
+			this.responses.get(response.request_seq)?.(response);
+		} else if (message.type === 'event') {
+			const event = message as DebugProtocol.Event;
+			if (event.event === 'output') {
+				this.output.push(event.body.output);
+			} else {
+				this.events.push(event);
+				this.waiting?.();
+			}
+		}
+	}
+}
+
+async function launch(client: Client, lines: number[]): Promise<DebugProtocol.SetBreakpointsResponse['body']> {
+	await client.request('initialize', { adapterID: 'arazzo', linesStartAt1: true });
+	await client.event('initialized');
+	const breakpoints = await client.request<DebugProtocol.SetBreakpointsResponse['body']>('setBreakpoints', {
+		source: { path: DOCUMENT },
+		breakpoints: lines.map(line => ({ line }))
+	});
+	const launched = client.request('launch', { document: DOCUMENT, workflowId: 'main', inputs: { id: '1' } });
+	await client.request('configurationDone');
+	await launched;
+	return breakpoints;
+}
+
+suite('Arazzo Debugger Test Suite', () => {
+	test('Breakpoints should move to the step enclosing their line', async () => {
+		const client = new Client();
+		const { breakpoints } = await launch(client, [17, 2]);
+		assert.deepStrictEqual(breakpoints.map(b => [b.verified, b.line]), [[true, 12], [false, 2]]);
+		assert.strictEqual((await client.event('stopped')).body.reason, 'breakpoint');
+		assert.deepStrictEqual(await client.stack(), ['main › first:12']);
+		await client.request('disconnect');
+		await client.event('terminated');
+	});
+
+	test('Stepping should go over and into sub-workflows', async () => {
+		const client = new Client();
+		await launch(client, [12]);
+		await client.event('stopped');
+
+		await client.request('next');
+		await client.event('stopped');
+		assert.deepStrictEqual(await client.stack(), ['main › sub:20']);
+
+		await client.request('stepIn');
+		await client.event('stopped');
+		assert.deepStrictEqual(await client.stack(), ['child › nested:30', 'main › sub:20']);
+
+		await client.request('stepOut');
+		await client.event('stopped');
+		assert.deepStrictEqual(await client.stack(), ['main › last:22']);
+
+		await client.request('continue');
+		await client.event('terminated');
+		assert.ok(client.output.some(line => line.startsWith('Workflow main passed')), client.output.join(''));
+	});
+
+	test('Variables and the Debug Console should show the runtime state', async () => {
+		const client = new Client();
+		await launch(client, [20]);
+		await client.event('stopped');
+
+		const { stackFrames } = await client.request<DebugProtocol.StackTraceResponse['body']>('stackTrace', { threadId: 1 });
+		const { scopes } = await client.request<DebugProtocol.ScopesResponse['body']>('scopes', { frameId: stackFrames[0].id });
+		const { variables } = await client.request<DebugProtocol.VariablesResponse['body']>('variables', { variablesReference: scopes[0].variablesReference });
+		assert.deepStrictEqual(variables.map(v => [v.name, v.value]), [
+			['$inputs', '{…}'],
+			['$steps', '{…}'],
+			['$workflows', '{}'],
+			['$statusCode', '200'],
+			['$response', '{…}']
+		]);
+		const response = variables.find(v => v.name === '$response')!;
+		const { variables: parts } = await client.request<DebugProtocol.VariablesResponse['body']>('variables', { variablesReference: response.variablesReference });
+		assert.deepStrictEqual(parts.map(v => v.name), ['header', 'body']);
+
+		const evaluate = (expression: string) => client.request<DebugProtocol.EvaluateResponse['body']>('evaluate', { expression, frameId: stackFrames[0].id });
+		assert.strictEqual((await evaluate('$steps.first.outputs.name')).result, '"item-1"');
+		assert.strictEqual((await evaluate('$statusCode == 200')).result, 'true');
+		await assert.rejects(evaluate('$nothing'));
+
+		await client.request('continue');
+		await client.event('terminated');
+	});
+});
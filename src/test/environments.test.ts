@@ -0,0 +1,34 @@
+import * as assert from 'assert';
+import { findSecretReferences, parseEnvironments, resolveEnvironment } from '../environments';
+
+const SETTING = {
+	dev: {
+		servers: { petStore: 'http://localhost:8080', ignored: 42 },
+		headers: { Authorization: 'Bearer ${secret:token}' },
+		inputs: { user: 'alice', credentials: { password: '${secret:password}' } }
+	},
+	prod: {
+		servers: { petStore: 'https://${secret:host}/v1' }
+	},
+	invalid: 'not a profile'
+};
+
+suite('Arazzo Environments Test Suite', () => {
+	test('Profiles should be read from the setting', () => {
+		const environments = parseEnvironments(SETTING);
+		assert.deepStrictEqual(Object.keys(environments), ['dev', 'prod']);
+		assert.deepStrictEqual(environments.dev.servers, { petStore: 'http://localhost:8080' });
+		assert.deepStrictEqual(environments.prod, { servers: { petStore: 'https://${secret:host}/v1' }, headers: {}, inputs: {} });
+		assert.deepStrictEqual(findSecretReferences(environments.dev), ['token', 'password']);
+	});
+
+	test('Secret references should be replaced by the secrets', async () => {
+		const secrets: Record<string, string> = { token: 'abc', password: 's3cret' };
+		const { dev, prod } = parseEnvironments(SETTING);
+		const resolved = await resolveEnvironment(dev, name => secrets[name]);
+		assert.deepStrictEqual(resolved.headers, { Authorization: 'Bearer abc' });
+		assert.deepStrictEqual(resolved.inputs, { user: 'alice', credentials: { password: 's3cret' } });
+		assert.deepStrictEqual(resolved.secrets, ['abc', 's3cret']);
+		await assert.rejects(resolveEnvironment(prod, name => secrets[name]), /Secret host is not set/);
+	});
+});
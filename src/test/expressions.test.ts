@@ -0,0 +1,149 @@
+import * as assert from 'assert';
+import { parseArazzoDocument } from '../document';
+import { validateExpressions } from '../expression-validation';
+import { parseRuntimeExpression, scanExpressions } from '../expressions';
+
+function validate(content: string) {
+	const { yamlDoc } = parseArazzoDocument(content);
+	return validateExpressions(yamlDoc, content).map(problem => ({
+		message: problem.message,
+		severity: problem.severity,
+		text: content.slice(problem.start, problem.end)
+	}));
+}
+
+suite('Arazzo Runtime Expression Test Suite', () => {
+	test('Well-formed expressions should parse', () => {
+		assert.deepStrictEqual(parseRuntimeExpression('$response.body#/items/0/id'), {
+			expression: { text: '$response.body#/items/0/id', source: 'response', path: ['body'], pointer: '/items/0/id' }
+		});
+		assert.deepStrictEqual(parseRuntimeExpression('$steps.login.outputs.token').expression?.path, ['login', 'outputs', 'token']);
+		assert.strictEqual(parseRuntimeExpression('$statusCode').issue, undefined);
+		assert.strictEqual(parseRuntimeExpression('$request.header.X-Api-Key').issue, undefined);
+	});
+
+	test('Malformed expressions should be rejected', () => {
+		assert.strictEqual(parseRuntimeExpression('$respons.body').issue?.message, 'Unknown runtime expression: $respons');
+		assert.strictEqual(parseRuntimeExpression('$response.headers.foo').issue?.message, '$response must be followed by .header, .query, .path or .body');
+		assert.strictEqual(parseRuntimeExpression('$steps.login.token').issue?.message, 'Expected $steps.<stepId>.outputs.<name>, got $steps.login.token');
+		assert.strictEqual(parseRuntimeExpression('$response.body#id').issue?.message, 'JSON pointer must start with "/": #id');
+		assert.strictEqual(parseRuntimeExpression('$statusCode.value').issue?.severity, 'error');
+	});
+
+	test('Dot notation into the body should suggest a JSON pointer', () => {
+		assert.deepStrictEqual(parseRuntimeExpression('$response.body.items[0].id').issue, {
+			message: 'Use a JSON pointer to address the body: $response.body#/items/0/id',
+			severity: 'warning'
+		});
+	});
+
+	test('Embedded and bare expressions should be found in text', () => {
+		const matches = scanExpressions('/pets/{$inputs.petId}?token=$steps.login.outputs.token', 'template');
+		assert.deepStrictEqual(matches.map(m => [m.text, m.embedded, m.issue?.severity]), [
+			['$inputs.petId', true, undefined],
+			['$steps.login.outputs.token', false, 'warning']
+		]);
+	});
+
+	test('Conditions should skip string literals', () => {
+		const matches = scanExpressions('$statusCode == 200 && $response.body#/name != \'$inputs.name\'', 'condition');
+		assert.deepStrictEqual(matches.map(m => m.text), ['$statusCode', '$response.body#/name']);
+	});
+
+	test('Expressions resolving against the document should have no problems', () => {
+		const problems = validate(`
+arazzo: 1.0.1
+sourceDescriptions:
+  - name: api
+    url: ./api.yaml
+workflows:
+  - workflowId: buy
+    inputs:
+      type: object
+      properties:
+        petId:
+          type: integer
+    steps:
+      - stepId: login
+        operationId: loginUser
+        successCriteria:
+          - condition: $statusCode == 200
+        outputs:
+          token: $response.body#/token
+      - stepId: order
+        operationPath: '{$sourceDescriptions.api.url}#/paths/~1pets~1{petId}/get'
+        parameters:
+          - name: petId
+            in: path
+            value: $inputs.petId
+          - name: Authorization
+            in: header
+            value: Bearer {$steps.login.outputs.token}
+        outputs:
+          orderId: $response.body#/id
+    outputs:
+      orderId: $steps.order.outputs.orderId
+`);
+		assert.deepStrictEqual(problems, []);
+	});
+
+	test('Unresolved expressions should be reported on the expression', () => {
+		const problems = validate(`
+workflows:
+  - workflowId: buy
+    inputs:
+      type: object
+      properties:
+        petId:
+          type: integer
+    steps:
+      - stepId: order
+        operationId: placeOrder
+        parameters:
+          - name: petId
+            in: path
+            value: $inputs.pet
+          - name: Authorization
+            in: header
+            value: "{$steps.login.outputs.token}"
+        outputs:
+          orderId: $response.body#/id
+      - stepId: login
+        operationId: loginUser
+    outputs:
+      orderId: $steps.order.outputs.id
+`);
+		assert.deepStrictEqual(problems, [
+			{ message: 'Input "pet" is not declared in the inputs of workflow "buy"', severity: 'error', text: '$inputs.pet' },
+			{ message: 'Step "login" does not run before step "order"', severity: 'error', text: '$steps.login.outputs.token' },
+			{ message: 'Step "order" does not declare output "id"', severity: 'error', text: '$steps.order.outputs.id' }
+		]);
+	});
+
+	test('Inputs declared in components should be followed', () => {
+		const problems = validate(`
+workflows:
+  - workflowId: buy
+    inputs:
+      $ref: '#/components/inputs/buyInputs'
+    steps:
+      - stepId: order
+        operationId: placeOrder
+        parameters:
+          - name: petId
+            in: path
+            value: $inputs.petId
+          - name: quantity
+            in: query
+            value: $inputs.quantity
+components:
+  inputs:
+    buyInputs:
+      type: object
+      properties:
+        petId:
+          type: integer
+`);
+		assert.deepStrictEqual(problems.map(p => p.text), ['$inputs.quantity']);
+	});
+});
@@ -52,6 +52,86 @@ arazzo: 1.0.1
 		assert.ok(messages.some(m => m.includes('Missing required field: workflows')), 'Missing workflows error not found');
 	});
 
+	test('YAML document with an arazzo root key should switch to the Arazzo language', async () => {
+		const content = `
+arazzo: 1.0.1
+info:
+  title: Test
+  version: 1.0.0
+`;
+		const doc = await vscode.workspace.openTextDocument({
+			content,
+			language: 'yaml'
+		});
+
+		await new Promise(resolve => setTimeout(resolve, 1000));
+
+		const reopened = vscode.workspace.textDocuments.find(d => d.uri.toString() === doc.uri.toString());
+		assert.strictEqual(reopened?.languageId, 'arazzo');
+	});
+
+	test('Non-Arazzo YAML document should be left alone', async () => {
+		const content = `
+apiVersion: v1
+kind: ConfigMap
+metadata:
+  name: test
+`;
+		const doc = await vscode.workspace.openTextDocument({
+			content,
+			language: 'yaml'
+		});
+
+		await new Promise(resolve => setTimeout(resolve, 1000));
+
+		assert.strictEqual(doc.languageId, 'yaml');
+		const diagnostics = vscode.languages.getDiagnostics(doc.uri);
+		assert.strictEqual(diagnostics.length, 0, `Expected 0 diagnostics, got ${diagnostics.length}: ${JSON.stringify(diagnostics)}`);
+	});
+
+	test('JSON Arazzo document should be validated with JSON source ranges', async () => {
+		const content = `{
+  "arazzo": "1.0.1",
+  "sourceDescriptions": [
+    { "name": "test", "url": "http://example.com", "type": "swagger" }
+  ],
+  "workflows": [
+    { "workflowId": "testWorkflow", "steps": [ { "stepId": "testStep", "operationId": "testOp" } ] }
+  ]
+}`;
+		const doc = await vscode.workspace.openTextDocument({
+			content,
+			language: 'json'
+		});
+
+		await new Promise(resolve => setTimeout(resolve, 1000));
+
+		const reopened = vscode.workspace.textDocuments.find(d => d.uri.toString() === doc.uri.toString());
+		assert.strictEqual(reopened?.languageId, 'arazzo-json');
+
+		const diagnostics = vscode.languages.getDiagnostics(doc.uri);
+		assert.ok(diagnostics.some(d => d.message.includes('Missing required field: info')), 'Missing info error not found');
+		const typeError = diagnostics.find(d => d.message.includes('Type must be'));
+		assert.ok(typeError, 'Invalid type error not found');
+		assert.strictEqual(doc.getText(typeError.range), '"swagger"');
+	});
+
+	test('JSON syntax errors should be reported by the JSON parser', async () => {
+		const content = `{
+  "arazzo": "1.0.1",
+}`;
+		const doc = await vscode.workspace.openTextDocument({
+			content,
+			language: 'json'
+		});
+
+		await new Promise(resolve => setTimeout(resolve, 1000));
+
+		const diagnostics = vscode.languages.getDiagnostics(doc.uri);
+		assert.strictEqual(diagnostics.length, 1, `Expected 1 diagnostic, got ${diagnostics.length}: ${JSON.stringify(diagnostics)}`);
+		assert.strictEqual(diagnostics[0].range.start.line, 2);
+	});
+
 	test('Outline should provide correct symbols', async () => {
 		const content = `
 arazzo: 1.0.1
@@ -104,4 +184,68 @@ workflows:
 		assert.strictEqual(myStep.detail, 'My Step Description');
 		assert.strictEqual(myStep.kind, vscode.SymbolKind.Function);
 	});
+
+	const LENS_CONTENT = `
+arazzo: 1.0.1
+info:
+  title: Test
+  version: 1.0.0
+sourceDescriptions:
+  - name: petStore
+    url: http://example.com
+    type: openapi
+workflows:
+  - workflowId: adopt
+    steps:
+      - stepId: find
+        operationId: findPet
+        onSuccess:
+          - name: found
+            type: goto
+            stepId: confirm
+      - stepId: confirm
+        operationId: adoptPet
+`;
+
+	test('CodeLens should offer run, flowchart, preview and references on workflows and steps', async () => {
+		const doc = await vscode.workspace.openTextDocument({
+			content: LENS_CONTENT,
+			language: 'yaml'
+		});
+
+		await new Promise(resolve => setTimeout(resolve, 1000));
+
+		const lenses = await vscode.commands.executeCommand<vscode.CodeLens[]>('vscode.executeCodeLensProvider', doc.uri, 100);
+		const titlesAt = (text: string) => lenses
+			.filter(lens => lens.range.start.line === doc.positionAt(LENS_CONTENT.indexOf(text)).line)
+			.map(lens => lens.command?.title);
+
+		assert.deepStrictEqual(titlesAt('workflowId: adopt'), ['Run workflow', 'Open flowchart', 'Show in preview', '0 references']);
+		assert.deepStrictEqual(titlesAt('stepId: find'), ['Open flowchart', 'Show in preview', '0 references']);
+		assert.deepStrictEqual(titlesAt('- stepId: confirm'), ['Open flowchart', 'Show in preview', '1 reference']);
+
+		const preview = lenses.find(lens => lens.command?.command === 'arazzo-vscode.showInPreview' && lens.command.arguments?.[2] === 'confirm');
+		assert.deepStrictEqual(preview?.command?.arguments?.slice(1), ['adopt', 'confirm']);
+		const flowchart = lenses.find(lens => lens.command?.command === 'arazzo-vscode.openFlowchartAt');
+		assert.deepStrictEqual(flowchart?.command?.arguments?.slice(1), ['adopt']);
+	});
+
+	test('CodeLens commands should open the flowchart and the preview of the document', async () => {
+		const doc = await vscode.workspace.openTextDocument({
+			content: LENS_CONTENT,
+			language: 'yaml'
+		});
+
+		await new Promise(resolve => setTimeout(resolve, 1000));
+
+		await vscode.commands.executeCommand('arazzo-vscode.openFlowchartAt', doc.uri, 'adopt');
+		await vscode.commands.executeCommand('arazzo-vscode.showInPreview', doc.uri, 'adopt', 'confirm');
+
+		const webviews = vscode.window.tabGroups.all
+			.flatMap(group => group.tabs)
+			.filter(tab => tab.input instanceof vscode.TabInputWebview)
+			.map(tab => tab.label);
+		assert.ok(webviews.some(label => label.startsWith('Flowchart')), `Flowchart panel not found in ${webviews.join(', ')}`);
+		assert.ok(webviews.some(label => label.startsWith('Preview')), `Preview panel not found in ${webviews.join(', ')}`);
+	});
 });
@@ -0,0 +1,138 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { parseArazzoDocument } from '../document';
+import { FixtureRecorder, createReplayFetch, getFixturePath, parseFixture } from '../fixtures';
+import { runWorkflow } from '../runner';
+import { SourceDocumentCache } from '../sources';
+
+const ROOT = path.resolve('/workspace');
+
+const PETSTORE = `
+openapi: 3.1.0
+info:
+  title: Petstore
+  version: 1.0.0
+servers:
+  - url: https://petstore.example.com/v1
+paths:
+  /pets/{petId}:
+    get:
+      operationId: getPet
+  /pets/{petId}/adopt:
+    post:
+      operationId: adoptPet
+`;
+
+const ARAZZO = `arazzo: 1.0.1
+info:
+  title: Adoption
+  version: 1.0.0
+sourceDescriptions:
+  - name: petStore
+    url: ./petstore.yaml
+    type: openapi
+workflows:
+  - workflowId: adopt
+    inputs:
+      type: object
+      properties:
+        petId:
+          type: integer
+    steps:
+      - stepId: find
+        operationId: getPet
+        parameters:
+          - name: petId
+            in: path
+            value: $inputs.petId
+        successCriteria:
+          - condition: $statusCode == 200
+        outputs:
+          name: $response.body#/name
+      - stepId: adopt
+        operationId: adoptPet
+        parameters:
+          - name: petId
+            in: path
+            value: $inputs.petId
+        successCriteria:
+          - condition: $statusCode == 204
+`;
+
+suite('Arazzo Fixtures Test Suite', () => {
+	const files: Record<string, string> = { [path.join(ROOT, 'petstore.yaml')]: PETSTORE };
+	const cache = new SourceDocumentCache({
+		version: filePath => filePath in files ? 1 : undefined,
+		read: filePath => files[filePath]
+	});
+	const document = { path: path.join(ROOT, 'adopt.arazzo.yaml'), text: ARAZZO, yamlDoc: parseArazzoDocument(ARAZZO).yamlDoc };
+
+	const server: typeof fetch = async input => String(input).endsWith('/adopt')
+		? new Response(null, { status: 204 })
+		: new Response(JSON.stringify({ name: 'Rex' }), { status: 200, headers: { 'content-type': 'application/json', 'set-cookie': 'session=1' } });
+
+	test('Fixtures should be kept next to their document', () => {
+		assert.strictEqual(getFixturePath(document.path, 'adopt'), path.join(ROOT, 'adopt.arazzo.adopt.fixture.json'));
+	});
+
+	test('Recorded runs should replay offline with the same results', async () => {
+		const recorder = new FixtureRecorder(server);
+		const recorded = await runWorkflow({
+			document, cache, workflowId: 'adopt', inputs: { petId: 7 },
+			headers: { authorization: 'Bearer secret' },
+			fetch: recorder.fetch,
+			listener: recorder.listen()
+		});
+		assert.strictEqual(recorded.status, 'passed', recorded.error);
+
+		const fixture = parseFixture(JSON.stringify(recorder.toFixture({ workflowId: 'adopt', inputs: { petId: 7 } }, recorded)));
+		assert.deepStrictEqual(fixture.exchanges.map(e => [e.stepId, e.request.method, e.request.url, e.response.statusCode]), [
+			['find', 'GET', 'https://petstore.example.com/v1/pets/7', 200],
+			['adopt', 'POST', 'https://petstore.example.com/v1/pets/7/adopt', 204]
+		]);
+		assert.strictEqual(fixture.exchanges[0].request.headers.authorization, '<redacted>');
+		assert.strictEqual(fixture.exchanges[0].response.headers['set-cookie'], '<redacted>');
+		assert.strictEqual(fixture.exchanges[0].response.body, '{"name":"Rex"}');
+
+		const replayed = await runWorkflow({
+			document, cache, workflowId: 'adopt', inputs: fixture.inputs, servers: fixture.servers,
+			fetch: createReplayFetch(fixture)
+		});
+		assert.strictEqual(replayed.status, 'passed', replayed.error);
+		assert.deepStrictEqual(replayed.outputs, recorded.outputs);
+		assert.deepStrictEqual(replayed.steps.map(s => s.outputs), recorded.steps.map(s => s.outputs));
+	});
+
+	test('Environment headers and secrets should be redacted from recordings', async () => {
+		const echo: typeof fetch = async (input, init) => new Response(
+			JSON.stringify({ name: 'Rex', token: new Headers(init?.headers).get('x-auth-token') }),
+			{ status: String(input).endsWith('/adopt') ? 201 : 200, headers: { 'content-type': 'application/json' } }
+		);
+		const recorder = new FixtureRecorder(echo, { headers: ['X-Auth-Token', 'X-Tenant'], secrets: ['t0ken'] });
+		const inputs = { petId: 7, credentials: { token: 't0ken' } };
+		await runWorkflow({
+			document, cache, workflowId: 'adopt', inputs,
+			headers: { 'X-Auth-Token': 't0ken', 'X-Tenant': 'acme' },
+			fetch: recorder.fetch,
+			listener: recorder.listen()
+		});
+
+		const fixture = recorder.toFixture({ workflowId: 'adopt', inputs });
+		assert.deepStrictEqual(fixture.exchanges[0].request.headers['x-auth-token'], '<redacted>');
+		assert.deepStrictEqual(fixture.exchanges[0].request.headers['x-tenant'], '<redacted>');
+		assert.deepStrictEqual(fixture.inputs, { petId: 7, credentials: { token: '<redacted>' } });
+		assert.ok(!JSON.stringify(fixture).includes('t0ken'));
+	});
+
+	test('Requests missing from a fixture should fail their step', async () => {
+		const recorder = new FixtureRecorder(server);
+		await runWorkflow({ document, cache, workflowId: 'adopt', inputs: { petId: 7 }, fetch: recorder.fetch, listener: recorder.listen() });
+		const replayed = await runWorkflow({
+			document, cache, workflowId: 'adopt', inputs: { petId: 8 },
+			fetch: createReplayFetch(recorder.toFixture({ workflowId: 'adopt', inputs: { petId: 7 } }))
+		});
+		assert.strictEqual(replayed.status, 'failed');
+		assert.match(replayed.steps[0].error ?? replayed.error ?? '', /No recorded response for GET https:\/\/petstore\.example\.com\/v1\/pets\/8/);
+		assert.throws(() => parseFixture('{}'), /Not an Arazzo run fixture/);
+	});
+});
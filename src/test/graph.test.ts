@@ -0,0 +1,86 @@
+import * as assert from 'assert';
+import { parseArazzoDocument } from '../document';
+import { buildWorkflowGraph, toDot, toMermaid } from '../graph';
+import { buildArazzoModel } from '../model';
+
+const ARAZZO = `arazzo: 1.0.1
+info:
+  title: Adoption
+  version: 1.0.0
+sourceDescriptions:
+  - name: petStore
+    url: ./petstore.yaml
+    type: openapi
+workflows:
+  - workflowId: adopt
+    inputs:
+      type: object
+      properties:
+        petId:
+          type: integer
+    steps:
+      - stepId: find
+        operationId: getPet
+        onSuccess:
+          - name: sold
+            type: goto
+            stepId: notify
+        onFailure:
+          - reference: $components.failureActions.retryOnce
+          - name: giveUp
+            type: end
+      - stepId: adopt
+        workflowId: confirm
+      - stepId: notify
+        operationId: notifyOwner
+    outputs:
+      name: $steps.find.outputs.name
+  - workflowId: confirm
+    steps:
+      - stepId: confirm
+        operationId: adoptPet
+components:
+  failureActions:
+    retryOnce:
+      name: retryOnce
+      type: retry
+      retryLimit: 1
+`;
+
+suite('Arazzo Graph Test Suite', () => {
+	const model = buildArazzoModel(parseArazzoDocument(ARAZZO).yamlDoc);
+
+	test('Graphs should follow the steps and their actions', () => {
+		const graph = buildWorkflowGraph(model, model.workflows[0]);
+		assert.deepStrictEqual(graph.nodes.map(node => [node.id, node.label, node.detail]), [
+			['$start', 'Inputs: petId', undefined],
+			['find', 'find', 'getPet'],
+			['adopt', 'adopt', 'workflow confirm'],
+			['notify', 'notify', 'notifyOwner'],
+			['$end', 'Outputs: name', undefined],
+			['$error', 'Failed', undefined]
+		]);
+		assert.deepStrictEqual(graph.edges.map(edge => [edge.from, edge.to, edge.kind, edge.label]), [
+			['$start', 'find', 'next', undefined],
+			['find', 'notify', 'success', 'sold'],
+			['find', 'find', 'failure', 'retryOnce'],
+			['find', '$error', 'failure', 'giveUp'],
+			['adopt', 'notify', 'next', undefined],
+			['notify', '$end', 'next', undefined]
+		]);
+	});
+
+	test('Graphs should render as Mermaid and Graphviz, one subgraph per workflow', () => {
+		const graphs = model.workflows.map(workflow => buildWorkflowGraph(model, workflow));
+		assert.strictEqual(toMermaid([graphs[1]]), [
+			'flowchart TB',
+			'  confirm__start(["Start"])',
+			'  confirm_confirm["confirm<br/>adoptPet"]',
+			'  confirm__end(["End"])',
+			'  confirm__start --> confirm_confirm',
+			'  confirm_confirm --> confirm__end'
+		].join('\n'));
+		assert.match(toMermaid(graphs), /subgraph adopt_\["adopt"\][\s\S]*adopt_find -.->\|"giveUp"\| adopt__error/);
+		assert.match(toDot(graphs), /"adopt\/find" -> "adopt\/\$error" \[label="giveUp", style=dashed\];/);
+	});
+});
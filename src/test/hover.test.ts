@@ -0,0 +1,100 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { parseArazzoDocument } from '../document';
+import { getHover } from '../hover';
+import { buildArazzoModel } from '../model';
+import { SourceDocumentCache, loadSourceDescriptions } from '../sources';
+
+const ROOT = path.resolve('/workspace');
+
+const PETSTORE = `
+openapi: 3.1.0
+info:
+  title: Petstore
+  version: 1.0.0
+paths:
+  /pets/{petId}:
+    get:
+      operationId: getPetById
+      summary: Find a pet by its ID
+      responses:
+        '200':
+          description: OK
+`;
+
+const CONTENT = `arazzo: 1.0.1
+info:
+  title: Adoption
+  version: 1.0.0
+sourceDescriptions:
+  - name: petStore
+    url: ./petstore.yaml
+workflows:
+  - workflowId: adopt
+    steps:
+      - stepId: find
+        operationId: getPetById
+        parameters:
+          - reference: $components.parameters.trace
+        outputs:
+          pet: $response.body#/pet
+      - stepId: check
+        workflowId: other
+        successCriteria:
+          - condition: $statusCode == 200
+        outputs:
+          name: $steps.find.outputs.pet
+components:
+  parameters:
+    trace:
+      name: X-Trace
+      in: header
+      value: abc
+`;
+
+/**
+ * Hover contents at the first occurrence of `target`, shifted by `delta` characters
+ */
+function hoverAt(target: string, delta = 0): string | undefined {
+	const cache = new SourceDocumentCache({
+		version: filePath => filePath === path.join(ROOT, 'petstore.yaml') ? 1 : undefined,
+		read: () => PETSTORE
+	});
+	const { yamlDoc } = parseArazzoDocument(CONTENT);
+	const model = buildArazzoModel(yamlDoc);
+	const sources = loadSourceDescriptions(model, path.join(ROOT, 'adopt.arazzo.yaml'), cache, []);
+	return getHover(CONTENT, CONTENT.indexOf(target) + delta, yamlDoc, model, sources, 'yaml')?.contents;
+}
+
+suite('Arazzo Hover Test Suite', () => {
+	test('Fields should be explained from the specification', () => {
+		assert.strictEqual(
+			hoverAt('successCriteria'),
+			'`successCriteria`: `[Criterion Object]`\n\nA list of assertions to determine the success of the step.\n\n*Step Object*'
+		);
+		assert.ok(hoverAt('workflowId: adopt')?.endsWith('*Workflow Object*'));
+		assert.ok(hoverAt('in: header')?.includes('*Parameter Object*'));
+	});
+
+	test('Step outputs should show the expression producing them', () => {
+		assert.strictEqual(hoverAt('outputs.pet', 8), 'Output `pet` of step `find`\n\n```yaml\n$response.body#/pet\n```');
+	});
+
+	test('Operations should show their method, path and summary', () => {
+		assert.strictEqual(
+			hoverAt('getPetById'),
+			'**GET** `/pets/{petId}`\n\nFind a pet by its ID\n\nOperation `getPetById` of source description `petStore`'
+		);
+	});
+
+	test('Component references should show the resolved object', () => {
+		assert.strictEqual(
+			hoverAt('trace', 2),
+			'Component `parameters.trace`\n\n```yaml\nname: X-Trace\nin: header\nvalue: abc\n```'
+		);
+	});
+
+	test('Other expressions should be explained', () => {
+		assert.strictEqual(hoverAt('$statusCode', 2), '`$statusCode`\n\nThe HTTP status code of the response.');
+	});
+});
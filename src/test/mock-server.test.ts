@@ -0,0 +1,202 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { parseArazzoDocument } from '../document';
+import { MockRequestLog, collectMockRoutes, startMockServer, synthesizeResponse } from '../mock-server';
+import { runWorkflow } from '../runner';
+import { SourceDocumentCache } from '../sources';
+
+const ROOT = path.resolve('/workspace');
+
+const PETSTORE = `
+openapi: 3.1.0
+info:
+  title: Petstore
+  version: 1.0.0
+servers:
+  - url: https://petstore.example.com/v1
+paths:
+  /pets/{petId}:
+    get:
+      operationId: getPet
+      responses:
+        '200':
+          description: The pet
+          content:
+            application/json:
+              schema:
+                $ref: '#/components/schemas/Pet'
+        '404':
+          description: Unknown pet
+          content:
+            application/json:
+              example:
+                message: not found
+  /pets/findByStatus:
+    get:
+      operationId: findPets
+      responses:
+        '200':
+          description: The pets
+  /pets/{petId}/adopt:
+    post:
+      operationId: adoptPet
+      responses:
+        2XX:
+          description: Adopted
+components:
+  schemas:
+    Pet:
+      type: object
+      properties:
+        id:
+          type: integer
+        name:
+          type: string
+          example: Rex
+        status:
+          type: string
+          enum: [available, sold]
+        tags:
+          type: array
+          items:
+            type: string
+`;
+
+const ARAZZO = `arazzo: 1.0.1
+info:
+  title: Adoption
+  version: 1.0.0
+sourceDescriptions:
+  - name: petStore
+    url: ./petstore.yaml
+    type: openapi
+workflows:
+  - workflowId: adopt
+    steps:
+      - stepId: find
+        operationId: getPet
+        parameters:
+          - name: petId
+            in: path
+            value: 1
+        successCriteria:
+          - condition: $statusCode == 200 && $response.body#/status == 'sold'
+          - condition: $response.body#/owner/age > 17
+        onFailure:
+          - name: giveUp
+            type: end
+        outputs:
+          name: $response.body#/name
+      - stepId: adopt
+        workflowId: confirm
+  - workflowId: confirm
+    steps:
+      - stepId: confirm
+        operationId: adoptPet
+        parameters:
+          - name: petId
+            in: path
+            value: 1
+  - workflowId: unrelated
+    steps:
+      - stepId: other
+        operationId: getPet
+`;
+
+suite('Arazzo Mock Server Test Suite', () => {
+	const files: Record<string, string> = { [path.join(ROOT, 'petstore.yaml')]: PETSTORE };
+	const cache = new SourceDocumentCache({
+		version: filePath => filePath in files ? 1 : undefined,
+		read: filePath => files[filePath]
+	});
+	const document = { path: path.join(ROOT, 'adopt.arazzo.yaml'), text: ARAZZO, yamlDoc: parseArazzoDocument(ARAZZO).yamlDoc };
+
+	test('Routes should cover the operations of the workflow and those it moves to', () => {
+		const routes = collectMockRoutes({ document, cache, workflowId: 'adopt' });
+		assert.deepStrictEqual(routes.map(r => [r.operation.operationId, r.steps.map(s => s.stepId)]), [['getPet', ['find']], ['adoptPet', ['confirm']]]);
+	});
+
+	test('Responses should be synthesised so the success criteria pass', () => {
+		const [find, adopt] = collectMockRoutes({ document, cache, workflowId: 'adopt' });
+		assert.deepStrictEqual(synthesizeResponse(find), {
+			statusCode: 200,
+			headers: { 'content-type': 'application/json' },
+			body: { id: 0, name: 'Rex', status: 'sold', tags: ['string'], owner: { age: 18 } }
+		});
+		assert.deepStrictEqual(synthesizeResponse(adopt), { statusCode: 200, headers: {}, body: undefined });
+		assert.deepStrictEqual(synthesizeResponse(find, { fail: true }).body, { message: 'not found' });
+		assert.strictEqual(synthesizeResponse(find, { statusCode: 503 }).statusCode, 503);
+	});
+
+	test('Workflows should run against the mock server, overrides taking failure branches', async () => {
+		const logs: MockRequestLog[] = [];
+		const mock = await startMockServer({ document, cache, workflowId: 'adopt', onRequest: log => logs.push(log) });
+		try {
+			const passed = await runWorkflow({ document, cache, workflowId: 'adopt', servers: mock.servers });
+			assert.strictEqual(passed.status, 'passed', passed.error);
+			assert.deepStrictEqual(passed.steps[0].outputs, { name: 'Rex' });
+			assert.deepStrictEqual(logs.map(l => [l.method, l.url, l.unsatisfied]), [
+				['GET', '/petStore/pets/1', []],
+				['POST', '/petStore/pets/1/adopt', []]
+			]);
+
+			const failing = await startMockServer({ document, cache, workflowId: 'adopt', overrides: { find: { fail: true } } });
+			try {
+				const failed = await runWorkflow({ document, cache, workflowId: 'adopt', servers: failing.servers });
+				assert.strictEqual(failed.status, 'failed');
+				assert.strictEqual(failed.steps[0].response?.statusCode, 404);
+				assert.deepStrictEqual(failed.steps[0].action, { type: 'end', name: 'giveUp', stepId: undefined, workflowId: undefined });
+			} finally {
+				await failing.close();
+			}
+		} finally {
+			await mock.close();
+		}
+	});
+
+	test('Concrete paths should be matched before templated ones, whatever the step order', async () => {
+		const steps = {
+			find: `      - stepId: search
+        operationId: findPets
+`,
+			get: `      - stepId: get
+        operationId: getPet
+`
+		};
+		for (const order of [[steps.get, steps.find], [steps.find, steps.get]]) {
+			const text = `${ARAZZO.slice(0, ARAZZO.indexOf('workflows:'))}workflows:
+  - workflowId: browse
+    steps:
+${order.join('')}`;
+			const logs: MockRequestLog[] = [];
+			const mock = await startMockServer({
+				document: { ...document, text, yamlDoc: parseArazzoDocument(text).yamlDoc },
+				cache,
+				workflowId: 'browse',
+				onRequest: log => logs.push(log)
+			});
+			try {
+				await fetch(`${mock.servers.petStore}/pets/findByStatus`);
+				await fetch(`${mock.servers.petStore}/pets/1`);
+				assert.deepStrictEqual(logs.map(l => l.route?.operation.operationId), ['findPets', 'getPet']);
+			} finally {
+				await mock.close();
+			}
+		}
+	});
+
+	test('Steps calling the same operation should not be overridden differently', async () => {
+		const text = ARAZZO.replace(`      - stepId: confirm
+        operationId: adoptPet`, `      - stepId: recheck
+        operationId: getPet
+      - stepId: confirm
+        operationId: adoptPet`);
+		const shared = { ...document, text, yamlDoc: parseArazzoDocument(text).yamlDoc };
+		await assert.rejects(
+			startMockServer({ document: shared, cache, workflowId: 'adopt', overrides: { find: { fail: true } } }),
+			/Steps find and recheck both call GET \/pets\/\{petId\}, they need the same override/
+		);
+		const mock = await startMockServer({ document: shared, cache, workflowId: 'adopt', overrides: { find: { fail: true }, recheck: { fail: true } } });
+		await mock.close();
+	});
+});
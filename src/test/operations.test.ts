@@ -0,0 +1,125 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { parseArazzoDocument } from '../document';
+import { buildArazzoModel } from '../model';
+import { validateOperations } from '../operations';
+import { SourceDocumentCache, loadSourceDescriptions } from '../sources';
+
+const ROOT = path.resolve('/workspace');
+
+const PETSTORE = `
+openapi: 3.1.0
+info:
+  title: Petstore
+  version: 1.0.0
+paths:
+  /pets:
+    get:
+      operationId: listPets
+      responses:
+        '200':
+          description: OK
+    post:
+      operationId: createPet
+      responses:
+        '201':
+          description: Created
+  /pets/{petId}:
+    get:
+      operationId: getPetById
+      responses:
+        '200':
+          description: OK
+`;
+
+function validate(content: string, files: Record<string, string> = { 'openapi/petstore.yaml': PETSTORE }) {
+	const cache = new SourceDocumentCache({
+		version: filePath => files[path.relative(ROOT, filePath)] === undefined ? undefined : 1,
+		read: filePath => files[path.relative(ROOT, filePath)]
+	});
+	const { yamlDoc } = parseArazzoDocument(content);
+	const model = buildArazzoModel(yamlDoc);
+	const sources = loadSourceDescriptions(model, path.join(ROOT, 'flows', 'buy.arazzo.yaml'), cache, [ROOT]);
+	return validateOperations(model, sources).map(problem => ({
+		message: problem.message,
+		text: content.slice(problem.start, problem.end)
+	}));
+}
+
+const SOURCES = `
+arazzo: 1.0.1
+sourceDescriptions:
+  - name: petStore
+    url: openapi/petstore.yaml
+    type: openapi
+`;
+
+suite('Arazzo Operation Resolution Test Suite', () => {
+	test('Existing operations should resolve in every form', () => {
+		const problems = validate(`${SOURCES}
+workflows:
+  - workflowId: buy
+    steps:
+      - stepId: a
+        operationId: listPets
+      - stepId: b
+        operationId: petStore.createPet
+      - stepId: c
+        operationId: $sourceDescriptions.petStore.getPetById
+      - stepId: d
+        operationPath: '{$sourceDescriptions.petStore.url}#/paths/~1pets~1{petId}/get'
+`);
+		assert.deepStrictEqual(problems, []);
+	});
+
+	test('Unknown operationId should suggest the closest operation', () => {
+		const problems = validate(`${SOURCES}
+workflows:
+  - workflowId: buy
+    steps:
+      - stepId: a
+        operationId: getPetByID
+      - stepId: b
+        operationId: petStore.deletePet
+`);
+		assert.deepStrictEqual(problems, [
+			{ message: 'Unknown operationId "getPetByID". Did you mean "getPetById"?', text: 'getPetByID' },
+			{ message: 'Unknown operationId "deletePet" in source description "petStore"', text: 'petStore.deletePet' }
+		]);
+	});
+
+	test('Unknown operationPath should be reported', () => {
+		const problems = validate(`${SOURCES}
+workflows:
+  - workflowId: buy
+    steps:
+      - stepId: a
+        operationPath: '{$sourceDescriptions.petStore.url}#/paths/~1pet~1{petId}/get'
+      - stepId: b
+        operationPath: '{$sourceDescriptions.petStore.url}#/paths/~1pets/delete'
+`);
+		assert.deepStrictEqual(problems.map(p => p.message), [
+			'Unknown path "/pet/{petId}" in source description "petStore". Did you mean "/pets/{petId}"?',
+			'Path "/pets" has no delete operation in source description "petStore". Available: get, post'
+		]);
+	});
+
+	test('Missing local sources should be reported and remote ones skipped', () => {
+		const problems = validate(`
+arazzo: 1.0.1
+sourceDescriptions:
+  - name: local
+    url: ./missing.yaml
+  - name: remote
+    url: https://example.com/openapi.yaml
+workflows:
+  - workflowId: buy
+    steps:
+      - stepId: a
+        operationId: anything
+`, {});
+		assert.deepStrictEqual(problems, [
+			{ message: `Source description file not found: ${path.join(ROOT, 'flows', 'missing.yaml')}`, text: './missing.yaml' }
+		]);
+	});
+});
@@ -0,0 +1,120 @@
+import * as assert from 'assert';
+import { parseArazzoDocument } from '../document';
+import { validateReferences } from '../references';
+
+function validate(content: string) {
+	const { yamlDoc } = parseArazzoDocument(content);
+	return validateReferences(yamlDoc).map(problem => ({
+		message: problem.message,
+		text: content.slice(problem.start, problem.end)
+	}));
+}
+
+suite('Arazzo Cross-Reference Validation Test Suite', () => {
+	test('Resolvable references should have no problems', () => {
+		const problems = validate(`
+arazzo: 1.0.1
+sourceDescriptions:
+  - name: api
+    url: ./api.yaml
+  - name: flows
+    url: ./flows.arazzo.yaml
+    type: arazzo
+workflows:
+  - workflowId: login
+    steps:
+      - stepId: loginStep
+        operationId: loginUser
+  - workflowId: buy
+    dependsOn: [login, $sourceDescriptions.flows.setup]
+    steps:
+      - stepId: first
+        workflowId: login
+        parameters:
+          - reference: $components.parameters.auth
+        onSuccess:
+          - name: next
+            type: goto
+            stepId: second
+      - stepId: second
+        operationId: buyPet
+        onFailure:
+          - reference: $components.failureActions.retryLater
+components:
+  parameters:
+    auth:
+      name: Authorization
+      in: header
+      value: token
+  failureActions:
+    retryLater:
+      name: retryLater
+      type: retry
+`);
+		assert.deepStrictEqual(problems, []);
+	});
+
+	test('Dangling goto stepId should be reported', () => {
+		const problems = validate(`
+workflows:
+  - workflowId: buy
+    steps:
+      - stepId: first
+        operationId: op
+        onFailure:
+          - name: back
+            type: goto
+            stepId: frist
+`);
+		assert.deepStrictEqual(problems, [{ message: 'Unknown stepId "frist" in workflow "buy"', text: 'frist' }]);
+	});
+
+	test('Unknown workflows in dependsOn and steps should be reported', () => {
+		const problems = validate(`
+workflows:
+  - workflowId: buy
+    dependsOn: [setup]
+    steps:
+      - stepId: first
+        workflowId: login
+`);
+		assert.deepStrictEqual(problems, [
+			{ message: 'Unknown workflowId: setup', text: 'setup' },
+			{ message: 'Unknown workflowId: login', text: 'login' }
+		]);
+	});
+
+	test('Unresolved component references should be reported', () => {
+		const problems = validate(`
+workflows:
+  - workflowId: buy
+    steps:
+      - stepId: first
+        operationId: op
+        parameters:
+          - reference: $components.parameters.foo
+`);
+		assert.deepStrictEqual(problems, [{ message: 'Unknown component: $components.parameters.foo', text: '$components.parameters.foo' }]);
+	});
+
+	test('Duplicate identifiers should be reported on the duplicate', () => {
+		const content = `
+workflows:
+  - workflowId: buy
+    steps:
+      - stepId: first
+        operationId: op
+      - stepId: first
+        operationId: op
+  - workflowId: buy
+    steps:
+      - stepId: only
+        operationId: op
+`;
+		const problems = validate(content);
+		assert.deepStrictEqual(problems.map(p => p.message), [
+			'Duplicate workflowId: buy',
+			'Duplicate stepId "first" in workflow "buy"'
+		]);
+	});
+});
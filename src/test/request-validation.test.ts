@@ -0,0 +1,217 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { parseArazzoDocument } from '../document';
+import { buildArazzoModel } from '../model';
+import { validateOperations } from '../operations';
+import { SourceDocumentCache, loadSourceDescriptions } from '../sources';
+
+const ROOT = path.resolve('/workspace');
+
+const PETSTORE = `
+openapi: 3.0.3
+info:
+  title: Petstore
+  version: 1.0.0
+paths:
+  /pets:
+    post:
+      operationId: createPet
+      parameters:
+        - $ref: '#/components/parameters/TraceId'
+      requestBody:
+        required: true
+        content:
+          application/json:
+            schema:
+              $ref: '#/components/schemas/Pet'
+      responses:
+        '201':
+          description: Created
+  /pets/{petId}:
+    parameters:
+      - name: petId
+        in: path
+        schema:
+          type: integer
+    get:
+      operationId: getPetById
+      parameters:
+        - name: fields
+          in: query
+          schema:
+            type: string
+      responses:
+        '200':
+          description: OK
+components:
+  parameters:
+    TraceId:
+      name: X-Trace-Id
+      in: header
+      required: true
+      schema:
+        type: string
+  schemas:
+    Pet:
+      type: object
+      required: [name]
+      properties:
+        name:
+          type: string
+        age:
+          type: integer
+          minimum: 0
+          exclusiveMinimum: true
+        nickname:
+          type: string
+          nullable: true
+`;
+
+function validate(steps: string, petstore = PETSTORE) {
+	const content = `
+arazzo: 1.0.1
+sourceDescriptions:
+  - name: petStore
+    url: ./petstore.yaml
+workflows:
+  - workflowId: buy
+    steps:
+${steps}`;
+	const cache = new SourceDocumentCache({
+		version: filePath => filePath === path.join(ROOT, 'petstore.yaml') ? 1 : undefined,
+		read: () => petstore
+	});
+	const { yamlDoc } = parseArazzoDocument(content);
+	const model = buildArazzoModel(yamlDoc);
+	const sources = loadSourceDescriptions(model, path.join(ROOT, 'buy.arazzo.yaml'), cache, []);
+	return validateOperations(model, sources).map(problem => ({
+		message: problem.message,
+		text: content.slice(problem.start, problem.end)
+	}));
+}
+
+suite('Arazzo Request Validation Test Suite', () => {
+	test('Matching parameters and payload should have no problems', () => {
+		const problems = validate(`
+      - stepId: create
+        operationId: createPet
+        parameters:
+          - name: x-trace-id
+            in: header
+            value: abc
+          - name: Authorization
+            in: header
+            value: Bearer token
+        requestBody:
+          contentType: application/json; charset=utf-8
+          payload:
+            name: $inputs.name
+            age: 2
+      - stepId: get
+        operationId: getPetById
+        parameters:
+          - name: petId
+            in: path
+            value: $steps.create.outputs.id
+`);
+		assert.deepStrictEqual(problems, []);
+	});
+
+	test('Missing, misplaced and unknown parameters should be reported', () => {
+		const problems = validate(`
+      - stepId: get
+        operationId: getPetById
+        parameters:
+          - name: fields
+            in: header
+            value: name
+          - name: feilds
+            in: query
+            value: name
+`);
+		assert.deepStrictEqual(problems, [
+			{ message: 'Parameter "fields" is in query, not header, for operation "getPetById"', text: 'fields' },
+			{ message: 'Operation "getPetById" has no query parameter "feilds". Did you mean "fields"?', text: 'feilds' },
+			{ message: 'Missing required path parameter "petId" for operation "getPetById"', text: 'getPetById' }
+		]);
+	});
+
+	test('Request bodies should match the operation', () => {
+		const problems = validate(`
+      - stepId: noBody
+        operationId: createPet
+        parameters:
+          - name: X-Trace-Id
+            in: header
+            value: abc
+      - stepId: wrongType
+        operationId: createPet
+        parameters:
+          - name: X-Trace-Id
+            in: header
+            value: abc
+        requestBody:
+          contentType: application/xml
+          payload: <pet/>
+      - stepId: wrongPayload
+        operationId: createPet
+        parameters:
+          - name: X-Trace-Id
+            in: header
+            value: abc
+        requestBody:
+          payload:
+            age: -1
+          replacements:
+            - target: /name
+              value: $inputs.name
+      - stepId: unexpected
+        operationId: getPetById
+        parameters:
+          - name: petId
+            in: path
+            value: 1
+        requestBody:
+          payload: {}
+`);
+		assert.deepStrictEqual(problems, [
+			{ message: 'Missing required request body for operation "createPet"', text: 'createPet' },
+			{ message: 'Content type "application/xml" is not accepted by operation "createPet". Expected one of: application/json', text: 'application/xml' },
+			{ message: 'Payload /age must be > 0', text: '-1' },
+			{ message: 'Operation "getPetById" does not declare a request body', text: 'requestBody' }
+		]);
+	});
+
+	test('Nullable properties of OpenAPI 3.0 schemas should accept null', () => {
+		const step = (nickname: string) => `
+      - stepId: create
+        operationId: createPet
+        parameters:
+          - name: X-Trace-Id
+            in: header
+            value: abc
+        requestBody:
+          payload:
+            name: Rex
+            nickname: ${nickname}
+`;
+		assert.deepStrictEqual(validate(step('null')), []);
+		assert.deepStrictEqual(validate(step('1')), [{ message: 'Payload /nickname must be string,null', text: '1' }]);
+	});
+
+	test('Documents Ajv rejects should not have their payloads checked', () => {
+		const duplicated = PETSTORE.replace('      type: object\n      required: [name]', `      $id: pet\n      type: object\n      required: [name]`)
+			+ '    Other:\n      $id: pet\n      type: string\n';
+		assert.deepStrictEqual(validate(`
+      - stepId: create
+        operationId: createPet
+        parameters:
+          - name: X-Trace-Id
+            in: header
+            value: abc
+        requestBody:
+          payload:
+            age: -1
+`, duplicated), []);
+	});
+});
@@ -0,0 +1,297 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as path from 'path';
+import { parseArazzoDocument } from '../document';
+import { RunOptions, StepResult, runWorkflow } from '../runner';
+import { SourceDocumentCache } from '../sources';
+
+const ROOT = path.resolve('/workspace');
+
+const PETSTORE = `
+openapi: 3.1.0
+info:
+  title: Petstore
+  version: 1.0.0
+servers:
+  - url: http://localhost:{port}/v1
+    variables:
+      port:
+        default: '1'
+paths:
+  /login:
+    post:
+      operationId: login
+      requestBody:
+        content:
+          application/json: {}
+  /pets/{petId}:
+    get:
+      operationId: getPet
+      parameters:
+        - name: petId
+          in: path
+          required: true
+  /pets/{petId}/adopt:
+    post:
+      operationId: adoptPet
+  /status:
+    get:
+      operationId: getStatus
+`;
+
+const ARAZZO = `arazzo: 1.0.1
+info:
+  title: Adoption
+  version: 1.0.0
+sourceDescriptions:
+  - name: petStore
+    url: ./petstore.yaml
+    type: openapi
+workflows:
+  - workflowId: login
+    inputs:
+      type: object
+      properties:
+        user:
+          type: string
+          default: alice
+    steps:
+      - stepId: login
+        operationId: login
+        requestBody:
+          payload:
+            username: placeholder
+            client: vscode
+          replacements:
+            - target: /username
+              value: $inputs.user
+        successCriteria:
+          - condition: $statusCode == 200
+          - context: $response.body
+            condition: $.token
+            type: jsonpath
+        outputs:
+          token: $response.body#/token
+    outputs:
+      token: $steps.login.outputs.token
+  - workflowId: adopt
+    dependsOn:
+      - login
+    inputs:
+      type: object
+      properties:
+        petId:
+          type: integer
+    steps:
+      - stepId: find
+        operationId: getPet
+        parameters:
+          - name: petId
+            in: path
+            value: $inputs.petId
+          - name: Authorization
+            in: header
+            value: Bearer {$workflows.login.outputs.token}
+        successCriteria:
+          - condition: $statusCode == 200 && $response.body#/status == 'AVAILABLE'
+          - context: $response.header.content-type
+            condition: ^application/json
+            type: regex
+        onSuccess:
+          - name: alreadyAdopted
+            type: end
+            criteria:
+              - condition: $response.body#/owner != null
+        outputs:
+          name: $response.body#/name
+      - stepId: adopt
+        operationId: adoptPet
+        parameters:
+          - name: petId
+            in: path
+            value: $inputs.petId
+        outputs:
+          adopted: $statusCode
+    outputs:
+      name: $steps.find.outputs.name
+  - workflowId: waitForStatus
+    steps:
+      - stepId: status
+        operationId: getStatus
+        successCriteria:
+          - context: $response.body
+            condition: /status[text() = 'ready']
+            type: xpath
+        onFailure:
+          - name: again
+            type: retry
+            retryAfter: 1
+            retryLimit: 3
+            criteria:
+              - condition: $statusCode == 503
+  - workflowId: refreshThenWait
+    steps:
+      - stepId: refresh
+        operationId: getPet
+        parameters:
+          - name: petId
+            in: path
+            value: 1
+      - stepId: status
+        operationId: getStatus
+        successCriteria:
+          - context: $response.body
+            condition: /status[text() = 'ready']
+            type: xpath
+        onFailure:
+          - name: refreshFirst
+            type: retry
+            stepId: refresh
+            retryLimit: 3
+  - workflowId: loginWithText
+    steps:
+      - stepId: login
+        operationId: login
+        requestBody:
+          contentType: application/json
+          payload: |
+            { "username": "placeholder", "client": "vscode" }
+          replacements:
+            - target: /username
+              value: bob
+        outputs:
+          token: $response.body#/token
+`;
+
+interface Exchange {
+	method: string;
+	url: string;
+	headers: http.IncomingHttpHeaders;
+	body: string;
+}
+
+suite('Arazzo Workflow Runner Test Suite', () => {
+	let server: http.Server;
+	let exchanges: Exchange[];
+	let statusCalls: number;
+
+	suiteSetup(done => {
+		server = http.createServer((request, response) => {
+			let body = '';
+			request.on('data', chunk => body += chunk);
+			request.on('end', () => {
+				exchanges.push({ method: request.method!, url: request.url!, headers: request.headers, body });
+				const json = (status: number, value: unknown) => {
+					response.writeHead(status, { 'Content-Type': 'application/json' });
+					response.end(JSON.stringify(value));
+				};
+				if (request.url === '/v1/login') {
+					json(200, { token: `token-of-${JSON.parse(body).username}` });
+				} else if (request.url === '/v1/pets/1') {
+					json(200, { name: 'Rex', status: 'available', owner: null });
+				} else if (request.url === '/v1/pets/2') {
+					json(200, { name: 'Tom', status: 'available', owner: 'bob' });
+				} else if (request.url === '/v1/pets/1/adopt') {
+					json(201, {});
+				} else if (request.url === '/v1/status') {
+					statusCalls++;
+					response.writeHead(statusCalls < 3 ? 503 : 200, { 'Content-Type': 'application/xml' });
+					response.end(statusCalls < 3 ? '<status>busy</status>' : '<status>ready</status>');
+				} else {
+					json(404, {});
+				}
+			});
+		});
+		server.listen(0, '127.0.0.1', done);
+	});
+
+	suiteTeardown(done => {
+		server.close(done);
+	});
+
+	setup(() => {
+		exchanges = [];
+		statusCalls = 0;
+	});
+
+	const options = (workflowId: string, inputs: Record<string, unknown> = {}): RunOptions => {
+		const port = (server.address() as AddressInfo).port;
+		const files: Record<string, string> = {
+			[path.join(ROOT, 'petstore.yaml')]: PETSTORE.replace(`default: '1'`, `default: '${port}'`)
+		};
+		const cache = new SourceDocumentCache({
+			version: filePath => filePath in files ? 1 : undefined,
+			read: filePath => files[filePath]
+		});
+		const document = { path: path.join(ROOT, 'adopt.arazzo.yaml'), text: ARAZZO, yamlDoc: parseArazzoDocument(ARAZZO).yamlDoc };
+		return { document, cache, workflowId, inputs, sleep: async () => {} };
+	};
+
+	test('Workflows should run their dependencies, then each step in order', async () => {
+		const result = await runWorkflow(options('adopt', { petId: 1 }));
+		assert.strictEqual(result.status, 'passed', result.error);
+		assert.deepStrictEqual(result.outputs, { name: 'Rex' });
+		assert.deepStrictEqual(result.steps.map(s => [s.stepId, s.status]), [['find', 'passed'], ['adopt', 'passed']]);
+		assert.deepStrictEqual(exchanges.map(e => `${e.method} ${e.url}`), ['POST /v1/login', 'GET /v1/pets/1', 'POST /v1/pets/1/adopt']);
+
+		// The payload replacement used the default of the login input
+		assert.deepStrictEqual(JSON.parse(exchanges[0].body), { username: 'alice', client: 'vscode' });
+		assert.strictEqual(exchanges[0].headers['content-type'], 'application/json');
+		assert.strictEqual(exchanges[1].headers.authorization, 'Bearer token-of-alice');
+	});
+
+	test('Replacements of JSON text payloads should target JSON pointers', async () => {
+		const result = await runWorkflow(options('loginWithText'));
+		assert.strictEqual(result.status, 'passed', result.error);
+		assert.deepStrictEqual(JSON.parse(exchanges[0].body), { username: 'bob', client: 'vscode' });
+		assert.strictEqual(result.steps[0].outputs.token, 'token-of-bob');
+	});
+
+	test('Headers of the run should be added unless the step sets them', async () => {
+		const headers = { Authorization: 'Basic ignored', 'X-Environment': 'dev' };
+		const result = await runWorkflow({ ...options('adopt', { petId: 1 }), headers });
+		assert.strictEqual(result.status, 'passed', result.error);
+		assert.strictEqual(exchanges[1].headers.authorization, 'Bearer token-of-alice');
+		assert.strictEqual(exchanges[1].headers['x-environment'], 'dev');
+	});
+
+	test('Actions whose criteria pass should end the workflow', async () => {
+		const result = await runWorkflow(options('adopt', { petId: 2 }));
+		assert.strictEqual(result.status, 'passed', result.error);
+		assert.deepStrictEqual(result.steps[0].action, { type: 'end', name: 'alreadyAdopted', stepId: undefined, workflowId: undefined });
+		assert.deepStrictEqual(result.skipped, ['adopt']);
+	});
+
+	test('Failing steps should be retried up to the retry limit', async () => {
+		const ended: StepResult[] = [];
+		const run = options('waitForStatus');
+		const result = await runWorkflow({ ...run, listener: { onStepEnd: step => ended.push(step) } });
+		assert.strictEqual(result.status, 'passed', result.error);
+		assert.deepStrictEqual(ended.map(s => [s.attempt, s.status, s.action?.type]), [[1, 'failed', 'retry'], [2, 'failed', 'retry'], [3, 'passed', undefined]]);
+		assert.strictEqual(ended[0].response?.bodyText, '<status>busy</status>');
+	});
+
+	test('Steps run before a retry should be recorded with their attempt', async () => {
+		const ended: StepResult[] = [];
+		const result = await runWorkflow({ ...options('refreshThenWait'), listener: { onStepEnd: step => ended.push(step) } });
+		assert.strictEqual(result.status, 'passed', result.error);
+		const attempts = [['refresh', 1, 'passed'], ['status', 1, 'failed'], ['refresh', 2, 'passed'], ['status', 2, 'failed'], ['refresh', 3, 'passed'], ['status', 3, 'passed']];
+		assert.deepStrictEqual(result.steps.map(s => [s.stepId, s.attempt, s.status]), attempts);
+		assert.deepStrictEqual(ended.map(s => [s.stepId, s.attempt, s.status]), attempts);
+	});
+
+	test('Failing steps without an action should fail the workflow', async () => {
+		const result = await runWorkflow(options('adopt', { petId: 3 }));
+		assert.strictEqual(result.status, 'failed');
+		assert.strictEqual(result.steps[0].criteria[0].passed, false);
+		assert.deepStrictEqual(result.skipped, ['adopt']);
+	});
+
+	test('Servers may be overridden by source description', async () => {
+		const result = await runWorkflow({ ...options('login'), servers: { petStore: 'http://127.0.0.1:1/v1' } });
+		assert.strictEqual(result.status, 'failed');
+		assert.strictEqual(result.steps[0].status, 'error');
+		assert.strictEqual(result.steps[0].request?.url, 'http://127.0.0.1:1/v1/login');
+	});
+});
@@ -0,0 +1,65 @@
+import * as assert from 'assert';
+import { parseArazzoDocument } from '../document';
+import { getSemanticTokens } from '../semantic-tokens';
+
+const CONTENT = `arazzo: 1.0.1
+info:
+  title: Adoption
+  version: 1.0.0
+sourceDescriptions:
+  - name: petStore
+    url: ./petstore.yaml
+workflows:
+  - workflowId: adopt
+    steps:
+      - stepId: find
+        operationId: findPet
+        parameters:
+          - name: petId
+            in: path
+            value: '{$inputs.petId}'
+        successCriteria:
+          - condition: $statusCode == 200 && $response.body#/status != 'sold'
+        outputs:
+          pet: $response.body#/pet
+      - stepId: adopt
+        workflowId: adopt
+        parameters:
+          - name: pet
+            value: $steps.find.outputs.pet
+`;
+
+/**
+ * The tokens of CONTENT as "text:type[:modifier]"
+ */
+function tokens(): string[] {
+	const { yamlDoc } = parseArazzoDocument(CONTENT);
+	return getSemanticTokens(yamlDoc, CONTENT).map(t => [CONTENT.slice(t.start, t.end), t.type, ...t.modifiers].join(':'));
+}
+
+suite('Arazzo Semantic Tokens Test Suite', () => {
+	test('Expression sources, names and JSON pointers should be highlighted', () => {
+		const all = tokens();
+		for (const token of ['$inputs:keyword', 'petId:property', '$response:keyword', 'body:property', '#/pet:regexp', '$steps:keyword', 'outputs:property']) {
+			assert.ok(all.includes(token), token);
+		}
+	});
+
+	test('Workflow and step declarations should differ from references', () => {
+		const all = tokens();
+		assert.deepStrictEqual(
+			all.filter(t => /:(function|method)/.test(t)),
+			['adopt:function:declaration', 'find:method:declaration', 'adopt:method:declaration', 'adopt:function', 'find:method']
+		);
+	});
+
+	test('Criterion operators should be highlighted outside string literals', () => {
+		assert.deepStrictEqual(tokens().filter(t => t.endsWith(':operator')), ['==:operator', '&&:operator', '!=:operator']);
+	});
+
+	test('Tokens should be sorted and should not overlap', () => {
+		const { yamlDoc } = parseArazzoDocument(CONTENT);
+		const all = getSemanticTokens(yamlDoc, CONTENT);
+		all.slice(1).forEach((token, i) => assert.ok(all[i].end <= token.start, CONTENT.slice(token.start, token.end)));
+	});
+});
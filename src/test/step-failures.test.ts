@@ -0,0 +1,47 @@
+import * as assert from 'assert';
+import { evaluateCriterion } from '../criteria';
+import { RuntimeState } from '../runtime';
+import { StepResult } from '../runner';
+import { describeStepFailure } from '../step-failures';
+
+const RESPONSE = {
+	statusCode: 404,
+	headers: { 'content-type': 'application/json' },
+	body: { message: 'not found' },
+	bodyText: '{"message":"not found"}'
+};
+
+const STATE: RuntimeState = { inputs: {}, outputs: {}, steps: {}, workflows: {}, sourceDescriptions: {}, components: {}, response: RESPONSE };
+
+function step(result: Partial<StepResult>): StepResult {
+	return { workflowId: 'adopt', stepId: 'find', attempt: 1, status: 'failed', criteria: [], outputs: {}, ...result };
+}
+
+suite('Arazzo Step Failures Test Suite', () => {
+	test('Failed criteria should be described with the response and the values to diff', () => {
+		const failure = describeStepFailure(step({
+			request: { method: 'GET', url: 'https://petstore.example.com/pets/1', headers: {}, query: {}, path: {} },
+			response: RESPONSE,
+			criteria: [
+				evaluateCriterion({ condition: '$statusCode == 200' }, STATE),
+				evaluateCriterion({ condition: `$response.body#/message != 'not found'` }, STATE)
+			]
+		}));
+		assert.strictEqual(failure.message, [
+			'Criterion not satisfied: $statusCode == 200',
+			'  $statusCode == 200: actual 404',
+			`Criterion not satisfied: $response.body#/message != 'not found'`,
+			`  $response.body#/message != 'not found': actual not found`,
+			'',
+			'GET https://petstore.example.com/pets/1 → 404',
+			'{"message":"not found"}'
+		].join('\n'));
+		assert.strictEqual(failure.expected, '200');
+		assert.strictEqual(failure.actual, '404');
+	});
+
+	test('Errors should be described without a diff', () => {
+		const failure = describeStepFailure(step({ status: 'error', error: 'fetch failed' }));
+		assert.deepStrictEqual(failure, { message: 'fetch failed' });
+	});
+});
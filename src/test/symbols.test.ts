@@ -0,0 +1,146 @@
+import * as assert from 'assert';
+import { parseArazzoDocument } from '../document';
+import { checkNewName, collectSymbols, findDeclaration, findOccurrences, findSymbolAt, symbolKey } from '../symbols';
+
+const CONTENT = `
+arazzo: 1.0.1
+sourceDescriptions:
+  - name: api
+    url: ./api.yaml
+  - name: flows
+    url: ./flows.arazzo.yaml
+    type: arazzo
+workflows:
+  - workflowId: login
+    steps:
+      - stepId: auth
+        operationId: api.loginUser
+        outputs:
+          token: $response.body#/token
+    outputs:
+      token: $steps.auth.outputs.token
+  - workflowId: buy
+    dependsOn: [login, $sourceDescriptions.flows.setup]
+    inputs:
+      $ref: '#/components/inputs/buyInputs'
+    steps:
+      - stepId: order
+        operationId: placeOrder
+        parameters:
+          - name: petId
+            in: query
+            value: $inputs.petId
+          - name: Authorization
+            in: header
+            value: Bearer {$workflows.login.outputs.token}
+        onFailure:
+          - reference: $components.failureActions.retryLater
+          - name: again
+            type: goto
+            stepId: order
+components:
+  inputs:
+    buyInputs:
+      type: object
+      properties:
+        petId:
+          type: integer
+  failureActions:
+    retryLater:
+      name: retryLater
+      type: retry
+`;
+
+/**
+ * Finds the declaration of the symbol at the first occurrence of `reference`, as "name:line"
+ */
+function definitionOf(reference: string): string | undefined {
+	const { yamlDoc } = parseArazzoDocument(CONTENT);
+	const occurrences = collectSymbols(yamlDoc, CONTENT);
+	const symbol = findSymbolAt(occurrences, CONTENT.indexOf(reference));
+	const declaration = symbol && findDeclaration(occurrences, symbol.symbol);
+	return declaration && `${CONTENT.slice(declaration.start, declaration.end)}:${lineOf(declaration.start)}`;
+}
+
+function lineOf(offset: number): number {
+	return CONTENT.slice(0, offset).split('\n').length - 1;
+}
+
+suite('Arazzo Symbols Test Suite', () => {
+	test('References should resolve to their declaration', () => {
+		assert.strictEqual(definitionOf('login, $source'), 'login:9');
+		assert.strictEqual(definitionOf('auth.outputs.token'), 'auth:11');
+		assert.strictEqual(definitionOf('token}'), 'token:16');
+		assert.strictEqual(definitionOf('petId\n          - name: Authorization'), 'petId:41');
+		assert.strictEqual(definitionOf('retryLater\n'), 'retryLater:44');
+		assert.strictEqual(definitionOf(`buyInputs'`), 'buyInputs:38');
+	});
+
+	test('goto stepId should resolve to the step of the same workflow', () => {
+		const { yamlDoc } = parseArazzoDocument(CONTENT);
+		const occurrences = collectSymbols(yamlDoc, CONTENT);
+		const references = occurrences.filter(o => symbolKey(o.symbol) === 'step:buy:order');
+		assert.deepStrictEqual(references.map(o => o.declaration), [true, false]);
+	});
+
+	test('Operations and workflows of other sources should be recorded with their source', () => {
+		const { yamlDoc } = parseArazzoDocument(CONTENT);
+		const keys = collectSymbols(yamlDoc, CONTENT).filter(o => !o.declaration).map(o => symbolKey(o.symbol));
+		assert.ok(keys.includes('operation:api.loginUser'));
+		assert.ok(keys.includes('workflow:flows:setup'));
+		assert.ok(keys.includes('source:flows'));
+	});
+
+	test('Occurrences should cover the declaration and every reference', () => {
+		const { yamlDoc } = parseArazzoDocument(CONTENT);
+		const occurrences = collectSymbols(yamlDoc, CONTENT);
+		const lines = (name: string) => findOccurrences(occurrences, findSymbolAt(occurrences, CONTENT.indexOf(name))!.symbol)
+			.map(o => `${CONTENT.slice(o.start, o.end)}:${lineOf(o.start)}`);
+		assert.deepStrictEqual(lines('login, $source'), ['login:9', 'login:18', 'login:30']);
+		assert.deepStrictEqual(lines('flows.setup'), ['flows:5', 'flows:18']);
+		assert.deepStrictEqual(lines('api.loginUser'), ['api:3', 'api:12']);
+	});
+
+	test('Parameters of steps calling a workflow should reference its inputs', () => {
+		const content = `
+arazzo: 1.0.1
+sourceDescriptions:
+  - name: flows
+    url: ./flows.arazzo.yaml
+    type: arazzo
+workflows:
+  - workflowId: adopt
+    inputs:
+      type: object
+      properties:
+        petId:
+          type: integer
+    steps:
+      - stepId: find
+        operationId: getPet
+  - workflowId: main
+    steps:
+      - stepId: adopt
+        workflowId: adopt
+        parameters:
+          - name: petId
+            value: 1
+      - stepId: setup
+        workflowId: $sourceDescriptions.flows.setup
+        parameters:
+          - name: petId
+            value: 2
+`;
+		const { yamlDoc } = parseArazzoDocument(content);
+		const occurrences = collectSymbols(yamlDoc, content);
+		const line = (offset: number) => content.slice(0, offset).split('\n').length - 1;
+		assert.deepStrictEqual(findOccurrences(occurrences, { kind: 'input', workflow: 'adopt', name: 'petId' }).map(o => [line(o.start), o.declaration]), [[11, true], [21, false]]);
+		assert.deepStrictEqual(occurrences.filter(o => o.symbol.kind === 'input' && o.symbol.source).map(o => [symbolKey(o.symbol), line(o.start)]), [['input:flows:setup:petId', 26]]);
+	});
+
+	test('New names should be checked against the identifier syntax', () => {
+		assert.strictEqual(checkNewName({ kind: 'step', workflow: 'buy', name: 'order' }, 'place-order'), undefined);
+		assert.ok(checkNewName({ kind: 'step', workflow: 'buy', name: 'order' }, 'place order'));
+		assert.ok(checkNewName({ kind: 'operation', name: 'api.loginUser' }, 'login'));
+	});
+});
@@ -0,0 +1,138 @@
+import * as assert from 'assert';
+import { parseArazzoDocument } from '../document';
+import { validateArazzo } from '../validation';
+
+function validate(content: string) {
+	const { yamlDoc } = parseArazzoDocument(content);
+	return validateArazzo(yamlDoc).map(problem => ({
+		message: problem.message,
+		text: content.slice(problem.start, problem.end)
+	}));
+}
+
+const header = `
+arazzo: 1.0.1
+info:
+  title: Test
+  version: 1.0.0
+sourceDescriptions:
+  - name: test
+    url: http://example.com
+    type: openapi
+`;
+
+suite('Arazzo Schema Validation Test Suite', () => {
+	test('Valid document should have no problems', () => {
+		const problems = validate(`${header}
+workflows:
+  - workflowId: testWorkflow
+    steps:
+      - stepId: testStep
+        operationId: testOp
+        parameters:
+          - name: id
+            in: path
+            value: $inputs.id
+        successCriteria:
+          - condition: $statusCode == 200
+          - context: $response.body
+            type:
+              type: jsonpath
+              version: draft-goessner-dispatch-jsonpath-00
+            condition: $.id
+        onFailure:
+          - name: retry
+            type: retry
+            retryAfter: 1
+            retryLimit: 3
+`);
+		assert.deepStrictEqual(problems, []);
+	});
+
+	test('Unknown properties should be reported on their key', () => {
+		const problems = validate(`${header}
+workflows:
+  - workflowId: testWorkflow
+    stepz: []
+    steps:
+      - stepId: testStep
+        operationId: testOp
+`);
+		assert.deepStrictEqual(problems, [{ message: 'Unknown property: stepz', text: 'stepz' }]);
+	});
+
+	test('Identifiers should match the id pattern', () => {
+		const problems = validate(`${header}
+workflows:
+  - workflowId: test workflow
+    steps:
+      - stepId: testStep
+        operationId: testOp
+`);
+		assert.strictEqual(problems.length, 1);
+		assert.strictEqual(problems[0].text, 'test workflow');
+	});
+
+	test('operationId, operationPath and workflowId should be exclusive', () => {
+		const problems = validate(`${header}
+workflows:
+  - workflowId: testWorkflow
+    steps:
+      - stepId: testStep
+        operationId: testOp
+        workflowId: other
+`);
+		assert.deepStrictEqual(problems, [{
+			message: 'Step must contain exactly one of "operationId", "operationPath" or "workflowId"',
+			text: 'stepId'
+		}]);
+	});
+
+	test('retryAfter and retryLimit should only be allowed on retry actions', () => {
+		const problems = validate(`${header}
+workflows:
+  - workflowId: testWorkflow
+    steps:
+      - stepId: testStep
+        operationId: testOp
+        onFailure:
+          - name: stop
+            type: end
+            retryLimit: 2
+`);
+		assert.deepStrictEqual(problems, [{ message: 'retryLimit is only allowed on "retry" actions', text: 'retryLimit' }]);
+	});
+
+	test('Criterion expression type versions should be checked', () => {
+		const problems = validate(`${header}
+workflows:
+  - workflowId: testWorkflow
+    steps:
+      - stepId: testStep
+        operationId: testOp
+        successCriteria:
+          - context: $response.body
+            condition: //id
+            type:
+              type: xpath
+              version: draft-goessner-dispatch-jsonpath-00
+`);
+		assert.strictEqual(problems.length, 1);
+		assert.strictEqual(problems[0].text, 'draft-goessner-dispatch-jsonpath-00');
+	});
+
+	test('Payload replacements should require a value', () => {
+		const problems = validate(`${header}
+workflows:
+  - workflowId: testWorkflow
+    steps:
+      - stepId: testStep
+        operationId: testOp
+        requestBody:
+          payload: {}
+          replacements:
+            - target: /id
+`);
+		assert.deepStrictEqual(problems, [{ message: 'Missing required field: value', text: 'target' }]);
+	});
+});
@@ -0,0 +1,198 @@
+import Ajv2020, { ErrorObject, ValidateFunction } from 'ajv/dist/2020';
+import { Document, isMap, isScalar } from 'yaml';
+import { PathSegment, getKeyNodeAtPath, getNodeAtPath, getNodeOffsets } from './document';
+import { arazzoSchema } from './schema';
+
+export type ProblemSeverity = 'error' | 'warning' | 'information' | 'hint';
+
+/**
+ * A validation problem located by character offsets in the source text
+ */
+export interface ArazzoProblem {
+    message: string;
+    severity: ProblemSeverity;
+    start: number;
+    end: number;
+    /** Identifier of the rule that reported the problem, `schema/<keyword>` for the schema ones */
+    code: string;
+    /** Details quick fixes need, e.g. the object missing a required property */
+    data?: ProblemData;
+}
+
+export interface ProblemData {
+    /** JSON pointer to the object the problem is about */
+    pointer?: string;
+    property?: string;
+}
+
+let schemaValidator: ValidateFunction | undefined;
+
+function getSchemaValidator(): ValidateFunction {
+    if (!schemaValidator) {
+        // verbose keeps the failing subschema around so `x-message` annotations can be read
+        const ajv = new Ajv2020({ allErrors: true, strict: false, verbose: true });
+        schemaValidator = ajv.compile(arazzoSchema);
+    }
+    return schemaValidator;
+}
+
+/**
+ * Validates a parsed Arazzo description against the Arazzo 1.0.1 schema.
+ */
+export function validateArazzo(yamlDoc: Document): ArazzoProblem[] {
+    if (!yamlDoc.contents || !isMap(yamlDoc.contents)) {
+        return [];
+    }
+
+    let data: unknown;
+    try {
+        data = yamlDoc.toJS();
+    } catch (e) {
+        // Unresolvable aliases and the like are already reported as syntax errors
+        return [];
+    }
+
+    const validator = getSchemaValidator();
+    if (validator(data) || !validator.errors) {
+        return [];
+    }
+
+    const errors = validator.errors;
+    // Branch failures of a failed oneOf only restate the oneOf error
+    const oneOfErrors = errors.filter(e => e.keyword === 'oneOf');
+    const isBranchError = (error: ErrorObject) => oneOfErrors.some(o =>
+        o !== error && error.schemaPath.startsWith(`${o.schemaPath}/`) && error.instancePath.startsWith(o.instancePath)
+    );
+
+    const problems: ArazzoProblem[] = [];
+    const seen = new Set<string>();
+    for (const error of errors) {
+        if (isBranchError(error)) {
+            continue;
+        }
+        const problem = toProblem(error, yamlDoc);
+        if (!problem) {
+            continue;
+        }
+        const key = `${problem.start}:${problem.end}:${problem.message}`;
+        if (!seen.has(key)) {
+            seen.add(key);
+            problems.push(problem);
+        }
+    }
+    return problems;
+}
+
+function toProblem(error: ErrorObject, yamlDoc: Document): ArazzoProblem | undefined {
+    const path = pointerToPath(error.instancePath);
+    const label = describePath(path);
+    const customMessage = error.keyword !== 'type' ? getCustomMessage(error) : undefined;
+    const params = error.params as Record<string, any>;
+
+    let target: [number, number] = getNodeOffsets(getNodeAtPath(yamlDoc, path));
+    let message: string;
+    let data: ProblemData | undefined;
+
+    switch (error.keyword) {
+        case 'if':
+        case 'propertyNames':
+            // Reported through the errors of the failing subschema
+            return undefined;
+        case 'required':
+            message = customMessage ?? `Missing required field: ${params.missingProperty}`;
+            target = getOwnerOffsets(yamlDoc, path);
+            data = { pointer: error.instancePath, property: params.missingProperty };
+            break;
+        case 'additionalProperties':
+            message = `Unknown property: ${params.additionalProperty}`;
+            target = getNodeOffsets(getKeyNodeAtPath(yamlDoc, [...path, params.additionalProperty]));
+            break;
+        case 'type':
+            message = `${label} must be ${withArticle(String(params.type))}`;
+            break;
+        case 'enum':
+            message = customMessage ?? `${label} must be one of: ${params.allowedValues.map((v: unknown) => JSON.stringify(v)).join(', ')}`;
+            break;
+        case 'const':
+            message = customMessage ?? `${label} must be ${JSON.stringify(params.allowedValue)}`;
+            break;
+        case 'minItems':
+            message = params.limit === 1
+                ? `${label} must have at least one entry`
+                : `${label} must have at least ${params.limit} entries`;
+            break;
+        case 'uniqueItems':
+            message = `${label} must not contain duplicate entries`;
+            target = getNodeOffsets(getNodeAtPath(yamlDoc, [...path, params.i]));
+            break;
+        case 'minimum':
+            message = `${label} must be greater than or equal to ${params.limit}`;
+            break;
+        case 'pattern':
+            if (error.propertyName !== undefined) {
+                message = customMessage ?? `Invalid name "${error.propertyName}": must match ${params.pattern}`;
+                target = getNodeOffsets(getKeyNodeAtPath(yamlDoc, [...path, error.propertyName]));
+            } else {
+                message = customMessage ?? `${label} must match the pattern ${params.pattern}`;
+            }
+            break;
+        case 'oneOf':
+            message = customMessage ?? `${label} must match exactly one of the allowed shapes`;
+            target = getOwnerOffsets(yamlDoc, path);
+            break;
+        case 'not':
+            message = customMessage ?? `${label} is not allowed here`;
+            target = path.length > 0 && getKeyNodeAtPath(yamlDoc, path)
+                ? getNodeOffsets(getKeyNodeAtPath(yamlDoc, path))
+                : getOwnerOffsets(yamlDoc, path);
+            break;
+        default:
+            message = customMessage ?? `${label} ${error.message ?? 'is invalid'}`;
+    }
+
+    return { message, severity: 'error', start: target[0], end: target[1], code: `schema/${error.keyword}`, ...(data ? { data } : {}) };
+}
+
+function getCustomMessage(error: ErrorObject): string | undefined {
+    const parentSchema = error.parentSchema as Record<string, unknown> | undefined;
+    const message = parentSchema?.['x-message'];
+    return typeof message === 'string' ? message : undefined;
+}
+
+/**
+ * Offsets to flag for a problem about a whole object: the key it sits under, or its first key
+ * when it is a list entry or the document root.
+ */
+function getOwnerOffsets(yamlDoc: Document, path: PathSegment[]): [number, number] {
+    const key = getKeyNodeAtPath(yamlDoc, path);
+    if (key) {
+        return getNodeOffsets(key);
+    }
+    const node = getNodeAtPath(yamlDoc, path);
+    if (isMap(node) && node.items.length > 0 && isScalar(node.items[0].key)) {
+        return getNodeOffsets(node.items[0].key);
+    }
+    return getNodeOffsets(node);
+}
+
+function pointerToPath(pointer: string): PathSegment[] {
+    if (!pointer) {
+        return [];
+    }
+    return pointer.split('/').slice(1).map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+function describePath(path: PathSegment[]): string {
+    if (path.length === 0) {
+        return 'Document';
+    }
+    const last = String(path[path.length - 1]);
+    if (/^\d+$/.test(last) && path.length > 1) {
+        return `${path[path.length - 2]}[${last}]`;
+    }
+    return last;
+}
+
+function withArticle(type: string): string {
+    return /^[aeiou]/.test(type) ? `an ${type}` : `a ${type}`;
+}
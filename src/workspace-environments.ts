@@ -0,0 +1,153 @@
+import * as vscode from 'vscode';
+import { isArazzoDocument } from './language';
+import { EnvironmentProfile, findSecretReferences, parseEnvironments, resolveEnvironment } from './environments';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Environment profiles in the workspace
+// Profiles come from the `arazzo.environments` setting, their secrets from the SecretStorage
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const ACTIVE_ENVIRONMENT_KEY = 'arazzo.activeEnvironment';
+
+let extensionContext: vscode.ExtensionContext | undefined;
+let statusBarItem: vscode.StatusBarItem | undefined;
+
+export function getEnvironments(): Record<string, EnvironmentProfile> {
+    return parseEnvironments(vscode.workspace.getConfiguration('arazzo').get('environments'));
+}
+
+/**
+ * Name of the profile workflow runs use, undefined when none is selected or it no longer exists.
+ */
+export function getActiveEnvironment(): string | undefined {
+    const name = extensionContext?.workspaceState.get<string>(ACTIVE_ENVIRONMENT_KEY);
+    return name !== undefined && name in getEnvironments() ? name : undefined;
+}
+
+function secretKey(environment: string, name: string): string {
+    return `arazzo.environments.${environment}.${name}`;
+}
+
+/**
+ * Loads a profile, by default the active one, with its secrets. Undefined when no profile applies.
+ */
+export async function resolveEnvironmentProfile(name = getActiveEnvironment()): Promise<EnvironmentProfile | undefined> {
+    if (name === undefined || !extensionContext) {
+        return undefined;
+    }
+    const profile = getEnvironments()[name];
+    if (!profile) {
+        throw new Error(`Unknown environment: ${name}`);
+    }
+    const secrets = extensionContext.secrets;
+    try {
+        return await resolveEnvironment(profile, secret => secrets.get(secretKey(name, secret)));
+    } catch (e) {
+        throw new Error(`Environment ${name}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+}
+
+function updateStatusBar() {
+    if (!statusBarItem) {
+        return;
+    }
+    const editor = vscode.window.activeTextEditor;
+    if (editor && isArazzoDocument(editor.document)) {
+        statusBarItem.text = `$(server-environment) ${getActiveEnvironment() ?? 'No environment'}`;
+        statusBarItem.show();
+    } else {
+        statusBarItem.hide();
+    }
+}
+
+async function selectEnvironment() {
+    const environments = getEnvironments();
+    const names = Object.keys(environments);
+    if (names.length === 0) {
+        const open = 'Open Settings';
+        if (await vscode.window.showInformationMessage('No Arazzo environment is configured', open) === open) {
+            vscode.commands.executeCommand('workbench.action.openSettings', 'arazzo.environments');
+        }
+        return;
+    }
+
+    const active = getActiveEnvironment();
+    const none = 'No environment';
+    const items: vscode.QuickPickItem[] = [
+        ...names.map(name => ({
+            label: name,
+            description: name === active ? 'active' : undefined,
+            detail: Object.entries(environments[name].servers).map(([source, url]) => `${source}: ${url}`).join(', ') || undefined
+        })),
+        { label: none, description: active === undefined ? 'active' : undefined }
+    ];
+    const choice = await vscode.window.showQuickPick(items, { placeHolder: 'Select the environment of workflow runs' });
+    if (!choice) {
+        return;
+    }
+    await extensionContext?.workspaceState.update(ACTIVE_ENVIRONMENT_KEY, choice.label === none ? undefined : choice.label);
+    updateStatusBar();
+}
+
+async function setEnvironmentSecret() {
+    const environments = getEnvironments();
+    const names = Object.keys(environments);
+    if (names.length === 0) {
+        vscode.window.showInformationMessage('No Arazzo environment is configured');
+        return;
+    }
+    const environment = names.length === 1
+        ? names[0]
+        : await vscode.window.showQuickPick(names, { placeHolder: 'Select the environment of the secret' });
+    if (!environment) {
+        return;
+    }
+
+    // Secrets are referenced as ${secret:name} in the profile
+    const references = findSecretReferences(environments[environment]);
+    const name = references.length > 0
+        ? await vscode.window.showQuickPick(references, { placeHolder: 'Select the secret to set' })
+        : await vscode.window.showInputBox({ prompt: 'Name of the secret, referenced as ${secret:name} in the environment' });
+    if (!name) {
+        return;
+    }
+
+    const value = await vscode.window.showInputBox({
+        prompt: `Value of ${name} in the ${environment} environment, leave empty to delete it`,
+        password: true,
+        ignoreFocusOut: true
+    });
+    if (value === undefined || !extensionContext) {
+        return;
+    }
+    if (value === '') {
+        await extensionContext.secrets.delete(secretKey(environment, name));
+    } else {
+        await extensionContext.secrets.store(secretKey(environment, name), value);
+    }
+}
+
+/**
+ * Registers the environment commands and the status bar item showing the active profile.
+ */
+export function registerEnvironments(context: vscode.ExtensionContext) {
+    extensionContext = context;
+    statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 100);
+    statusBarItem.command = 'arazzo-vscode.selectEnvironment';
+    statusBarItem.tooltip = 'Environment of Arazzo workflow runs';
+
+    context.subscriptions.push(
+        statusBarItem,
+        vscode.commands.registerCommand('arazzo-vscode.selectEnvironment', selectEnvironment),
+        vscode.commands.registerCommand('arazzo-vscode.setEnvironmentSecret', setEnvironmentSecret),
+        vscode.window.onDidChangeActiveTextEditor(updateStatusBar),
+        // The language of a document changes once it is detected as Arazzo
+        vscode.workspace.onDidOpenTextDocument(updateStatusBar),
+        vscode.workspace.onDidChangeConfiguration(e => {
+            if (e.affectsConfiguration('arazzo.environments')) {
+                updateStatusBar();
+            }
+        })
+    );
+    updateStatusBar();
+}
@@ -0,0 +1,86 @@
+import * as vscode from 'vscode';
+import { EnvironmentProfile } from './environments';
+import { MockOverride, MockServer, startMockServer } from './mock-server';
+import { SourceDocument } from './sources';
+import { getWorkspaceRoots, sourceCache } from './workspace-sources';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Mock servers in the workspace
+// One mock server per Arazzo document, which the runs of that document are sent to
+// ═══════════════════════════════════════════════════════════════════════════════
+
+interface RunningMock {
+    workflowId: string;
+    server: MockServer;
+}
+
+const mocks = new Map<string, RunningMock>();
+let outputChannel: vscode.OutputChannel | undefined;
+
+function log(line: string) {
+    outputChannel ??= vscode.window.createOutputChannel('Arazzo Mock Server');
+    outputChannel.appendLine(line);
+}
+
+/**
+ * Starts a mock server for a workflow, replacing the one the document already has.
+ */
+export async function startWorkspaceMock(document: SourceDocument, workflowId: string, overrides: Record<string, MockOverride>): Promise<MockServer> {
+    await stopWorkspaceMock(document.path);
+    const server = await startMockServer({
+        document,
+        cache: sourceCache,
+        workspaceRoots: getWorkspaceRoots(),
+        workflowId,
+        overrides,
+        onRequest: request => {
+            const steps = request.route?.steps.map(step => step.stepId).join(', ');
+            log(`${request.method} ${request.url} → ${request.response.statusCode}${steps ? ` (${steps})` : ''}`);
+            request.unsatisfied.forEach(criterion => log(`  unsatisfied criterion of ${criterion}`));
+        }
+    });
+    mocks.set(document.path, { workflowId, server });
+    log(`Mock server of ${workflowId} listening on ${server.url}`);
+    for (const route of server.routes) {
+        log(`  ${route.operation.method.toUpperCase()} ${server.servers[route.sourceName]}${route.operation.path}`);
+    }
+    return server;
+}
+
+export async function stopWorkspaceMock(documentPath: string) {
+    const mock = mocks.get(documentPath);
+    if (mock) {
+        mocks.delete(documentPath);
+        await mock.server.close();
+        log(`Mock server of ${mock.workflowId} stopped`);
+    }
+}
+
+export function getRunningMocks(): { documentPath: string; workflowId: string; url: string }[] {
+    return [...mocks].map(([documentPath, mock]) => ({ documentPath, workflowId: mock.workflowId, url: mock.server.url }));
+}
+
+/**
+ * Points the sources of a run at the mock server of its document, if one is running.
+ */
+export function applyMockServers(documentPath: string, environment: EnvironmentProfile | undefined): EnvironmentProfile | undefined {
+    const mock = mocks.get(documentPath);
+    if (!mock) {
+        return environment;
+    }
+    return {
+        ...environment,
+        servers: { ...environment?.servers, ...mock.server.servers },
+        headers: environment?.headers ?? {},
+        inputs: environment?.inputs ?? {}
+    };
+}
+
+export function registerMockServers(context: vscode.ExtensionContext) {
+    context.subscriptions.push({
+        dispose: () => {
+            [...mocks.keys()].forEach(stopWorkspaceMock);
+            outputChannel?.dispose();
+        }
+    });
+}
@@ -0,0 +1,138 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { isMap } from 'yaml';
+import { parseArazzoDocument } from './document';
+import { getDocumentFormat } from './language';
+import { ArazzoModel, buildArazzoModel } from './model';
+import { LoadedSource, SourceDocument, SourceDocumentCache, SourceFileReader, loadSourceDescriptions } from './sources';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Source descriptions in the workspace
+// Reads source descriptions from open editors first, then from the disk
+// ═══════════════════════════════════════════════════════════════════════════════
+
+function findOpenDocument(filePath: string): vscode.TextDocument | undefined {
+    return vscode.workspace.textDocuments.find(d => d.uri.scheme === 'file' && d.uri.fsPath === filePath);
+}
+
+const workspaceReader: SourceFileReader = {
+    version(filePath) {
+        const document = findOpenDocument(filePath);
+        if (document) {
+            return `editor:${document.version}`;
+        }
+        try {
+            const stat = fs.statSync(filePath);
+            return stat.isFile() ? stat.mtimeMs : undefined;
+        } catch {
+            return undefined;
+        }
+    },
+    read(filePath) {
+        const document = findOpenDocument(filePath);
+        if (document) {
+            return document.getText();
+        }
+        try {
+            return fs.readFileSync(filePath, 'utf8');
+        } catch {
+            return undefined;
+        }
+    }
+};
+
+export const sourceCache = new SourceDocumentCache(workspaceReader);
+
+/**
+ * Loads the source descriptions of an Arazzo document open in the editor.
+ */
+export function loadDocumentSources(document: vscode.TextDocument, model: ArazzoModel): LoadedSource[] {
+    const documentPath = document.uri.scheme === 'file' ? document.uri.fsPath : undefined;
+    return loadSourceDescriptions(model, documentPath, sourceCache, getWorkspaceRoots());
+}
+
+export function getWorkspaceRoots(): string[] {
+    return (vscode.workspace.workspaceFolders ?? [])
+        .filter(folder => folder.uri.scheme === 'file')
+        .map(folder => folder.uri.fsPath);
+}
+
+export interface ReferencingDocument {
+    document: SourceDocument;
+    /** Names of the source descriptions pointing at the referenced file */
+    sourceNames: string[];
+}
+
+/**
+ * Finds the Arazzo documents of the workspace with an `arazzo` source description pointing at `filePath`.
+ */
+export async function findReferencingDocuments(filePath: string): Promise<ReferencingDocument[]> {
+    const uris = await vscode.workspace.findFiles('**/*.{yaml,yml,json}', '**/node_modules/**');
+    const referencing: ReferencingDocument[] = [];
+    for (const uri of uris) {
+        const text = uri.fsPath === filePath ? undefined : workspaceReader.read(uri.fsPath);
+        // Cheap pre-check so OpenAPI descriptions and unrelated files are not parsed
+        if (!text || !/arazzo/.test(text) || !text.includes(path.basename(filePath))) {
+            continue;
+        }
+        const document = sourceCache.get(uri.fsPath);
+        if (!document || !isMap(document.yamlDoc.contents) || !document.yamlDoc.contents.has('arazzo')) {
+            continue;
+        }
+        const sources = loadSourceDescriptions(buildArazzoModel(document.yamlDoc), document.path, sourceCache, getWorkspaceRoots());
+        const sourceNames = sources.filter(s => s.path === filePath).map(s => s.description.name);
+        if (sourceNames.length > 0) {
+            referencing.push({ document, sourceNames });
+        }
+    }
+    return referencing;
+}
+
+/**
+ * Whether one of `paths` is a source description of an Arazzo document open in the editor.
+ */
+export function usesSourceDescriptions(document: vscode.TextDocument, paths: Set<string>): boolean {
+    const { yamlDoc } = parseArazzoDocument(document.getText(), getDocumentFormat(document));
+    return loadDocumentSources(document, buildArazzoModel(yamlDoc)).some(source => source.path !== undefined && paths.has(source.path));
+}
+
+/** Milliseconds changes are gathered for, so typing in a source description is not handled on every keystroke */
+const SOURCE_CHANGE_DELAY = 300;
+
+/**
+ * Calls `onChange` with the paths of the loaded source descriptions that changed, in an editor or
+ * on disk, and of the files created.
+ */
+export function registerSourceWatcher(context: vscode.ExtensionContext, onChange: (paths: Set<string>) => void) {
+    const pending = new Set<string>();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const schedule = (uri: vscode.Uri) => {
+        pending.add(uri.fsPath);
+        clearTimeout(timer);
+        timer = setTimeout(() => {
+            const paths = new Set(pending);
+            pending.clear();
+            onChange(paths);
+        }, SOURCE_CHANGE_DELAY);
+    };
+    const changed = (uri: vscode.Uri) => {
+        if (uri.scheme === 'file' && sourceCache.has(uri.fsPath)) {
+            schedule(uri);
+        }
+    };
+    const watcher = vscode.workspace.createFileSystemWatcher('**/*.{yaml,yml,json}');
+    context.subscriptions.push(
+        watcher,
+        watcher.onDidChange(changed),
+        watcher.onDidCreate(uri => {
+            // A missing source may have been created
+            if (uri.scheme === 'file') {
+                schedule(uri);
+            }
+        }),
+        watcher.onDidDelete(changed),
+        vscode.workspace.onDidChangeTextDocument(e => changed(e.document.uri)),
+        { dispose: () => clearTimeout(timer) }
+    );
+}
@@ -0,0 +1,315 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import { Node, isMap } from 'yaml';
+import { getLineAndCharacter, getNodeOffsets } from './document';
+import { createReplayFetch, getFixturePath, parseFixture } from './fixtures';
+import { isArazzoDocument } from './language';
+import { startMockServer } from './mock-server';
+import { buildArazzoModel } from './model';
+import { RunOptions, StepResult, WorkflowResult, runWorkflow } from './runner';
+import { SourceDocument } from './sources';
+import { describeStepFailure } from './step-failures';
+import { resolveEnvironmentProfile } from './workspace-environments';
+import { getWorkspaceRoots, sourceCache } from './workspace-sources';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Workflow tests
+// The workflows of the workspace in the Test Explorer, run against their APIs, a mock server or fixtures
+// ═══════════════════════════════════════════════════════════════════════════════
+
+type TestData =
+    | { kind: 'document' }
+    | { kind: 'workflow'; workflowId: string }
+    | { kind: 'step'; workflowId: string; stepId: string };
+
+/** Where the requests of a test run go */
+type RunTarget = 'api' | 'mock' | 'fixture';
+
+let controller: vscode.TestController | undefined;
+const testData = new WeakMap<vscode.TestItem, TestData>();
+
+function toRange(text: string, node: Node): vscode.Range {
+    const [start, end] = getNodeOffsets(node);
+    const from = getLineAndCharacter(text, start);
+    const to = getLineAndCharacter(text, end);
+    return new vscode.Range(from.line, from.character, to.line, to.character);
+}
+
+function readText(uri: vscode.Uri): string | undefined {
+    const open = vscode.workspace.textDocuments.find(d => d.uri.toString() === uri.toString());
+    if (open) {
+        return open.getText();
+    }
+    try {
+        return fs.readFileSync(uri.fsPath, 'utf8');
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Lists the workflows of a file and their steps, removing the file when it declares none.
+ */
+function updateDocumentTests(uri: vscode.Uri) {
+    if (!controller || uri.scheme !== 'file') {
+        return;
+    }
+    const tests = controller;
+    const id = uri.toString();
+    // Cheap pre-check so unrelated files are not parsed
+    const text = readText(uri);
+    const document = text && /arazzo/.test(text) ? sourceCache.get(uri.fsPath) : undefined;
+    const model = document && isMap(document.yamlDoc.contents) && document.yamlDoc.contents.has('arazzo')
+        ? buildArazzoModel(document.yamlDoc)
+        : undefined;
+    if (!document || !model || model.workflows.length === 0) {
+        tests.items.delete(id);
+        return;
+    }
+
+    const file = tests.items.get(id) ?? tests.createTestItem(id, vscode.workspace.asRelativePath(uri), uri);
+    testData.set(file, { kind: 'document' });
+    file.children.replace(model.workflows.map(workflow => {
+        const item = tests.createTestItem(`${id}#${workflow.name}`, workflow.name, uri);
+        item.range = toRange(document.text, workflow.nameNode);
+        testData.set(item, { kind: 'workflow', workflowId: workflow.name });
+        item.children.replace(workflow.steps.map(step => {
+            const stepItem = tests.createTestItem(`${id}#${workflow.name}/${step.name}`, step.name, uri);
+            stepItem.range = toRange(document.text, step.nameNode);
+            testData.set(stepItem, { kind: 'step', workflowId: workflow.name, stepId: step.name });
+            return stepItem;
+        }));
+        return item;
+    }));
+    tests.items.add(file);
+}
+
+async function discoverTests() {
+    const uris = await vscode.workspace.findFiles('**/*.{yaml,yml,json}', '**/node_modules/**');
+    uris.forEach(updateDocumentTests);
+}
+
+/**
+ * Options of a run against the target: the active environment, plus the servers of a mock server
+ * or the responses of the recorded fixture.
+ */
+async function prepareRun(target: RunTarget, document: SourceDocument, workflowId: string): Promise<Partial<RunOptions> & { close?: () => Promise<void> }> {
+    if (target === 'fixture') {
+        const fixturePath = getFixturePath(document.path, workflowId);
+        if (!fs.existsSync(fixturePath)) {
+            throw new Error(`No fixture is recorded for ${workflowId}, record one with the Record Arazzo Workflow Run command`);
+        }
+        const fixture = parseFixture(fs.readFileSync(fixturePath, 'utf8'));
+        return { inputs: fixture.inputs, servers: fixture.servers, fetch: createReplayFetch(fixture) };
+    }
+
+    const environment = await resolveEnvironmentProfile();
+    const options = { inputs: environment?.inputs, servers: environment?.servers, headers: environment?.headers };
+    if (target === 'mock') {
+        const server = await startMockServer({ document, cache: sourceCache, workspaceRoots: getWorkspaceRoots(), workflowId });
+        return { ...options, servers: { ...options.servers, ...server.servers }, close: () => server.close() };
+    }
+    return options;
+}
+
+function toTestMessage(step: StepResult, item: vscode.TestItem): vscode.TestMessage {
+    const failure = describeStepFailure(step);
+    const message = failure.expected !== undefined && failure.actual !== undefined
+        ? vscode.TestMessage.diff(failure.message, failure.expected, failure.actual)
+        : new vscode.TestMessage(failure.message);
+    if (item.uri && item.range) {
+        message.location = new vscode.Location(item.uri, item.range);
+    }
+    return message;
+}
+
+/**
+ * Marks the steps by their last execution, and the workflow by its result.
+ */
+function reportResult(run: vscode.TestRun, workflowItem: vscode.TestItem, steps: vscode.TestItem[], result: WorkflowResult, durations: Map<string, number>) {
+    const lastResults = new Map(result.steps.map(step => [step.stepId, step]));
+    for (const item of steps) {
+        const data = testData.get(item);
+        const step = data?.kind === 'step' ? lastResults.get(data.stepId) : undefined;
+        if (!step) {
+            run.skipped(item);
+        } else if (step.status === 'passed') {
+            run.passed(item, durations.get(step.stepId));
+        } else if (step.status === 'failed') {
+            run.failed(item, toTestMessage(step, item), durations.get(step.stepId));
+        } else {
+            run.errored(item, toTestMessage(step, item), durations.get(step.stepId));
+        }
+    }
+
+    const duration = [...durations.values()].reduce((total, value) => total + value, 0);
+    if (result.status === 'passed') {
+        run.passed(workflowItem, duration);
+        return;
+    }
+    const failed = [...lastResults.values()].find(step => step.status !== 'passed');
+    run.failed(workflowItem, failed ? toTestMessage(failed, workflowItem) : new vscode.TestMessage(result.error ?? `${result.workflowId} failed`), duration);
+}
+
+async function runWorkflowTest(target: RunTarget, run: vscode.TestRun, workflowItem: vscode.TestItem, steps: vscode.TestItem[], token: vscode.CancellationToken) {
+    const data = testData.get(workflowItem);
+    if (data?.kind !== 'workflow' || !workflowItem.uri) {
+        return;
+    }
+    const { workflowId } = data;
+    run.started(workflowItem);
+    const document = sourceCache.get(workflowItem.uri.fsPath);
+    if (!document) {
+        run.errored(workflowItem, new vscode.TestMessage(`Cannot read ${workflowItem.uri.fsPath}`));
+        return;
+    }
+
+    const stepItems = new Map<string, vscode.TestItem>();
+    for (const item of steps) {
+        const stepData = testData.get(item);
+        if (stepData?.kind === 'step') {
+            stepItems.set(stepData.stepId, item);
+        }
+    }
+    const starts = new Map<string, number>();
+    const durations = new Map<string, number>();
+    const abort = new AbortController();
+    const cancellation = token.onCancellationRequested(() => abort.abort());
+    let close: (() => Promise<void>) | undefined;
+    try {
+        const prepared = await prepareRun(target, document, workflowId);
+        close = prepared.close;
+        const result = await runWorkflow({
+            ...prepared,
+            document,
+            cache: sourceCache,
+            workspaceRoots: getWorkspaceRoots(),
+            workflowId,
+            signal: abort.signal,
+            listener: {
+                onStepStart: (stepWorkflowId, stepId) => {
+                    const item = stepWorkflowId === workflowId ? stepItems.get(stepId) : undefined;
+                    if (item) {
+                        run.started(item);
+                        starts.set(stepId, Date.now());
+                    }
+                },
+                onStepEnd: step => {
+                    if (step.workflowId !== workflowId) {
+                        return;
+                    }
+                    const start = starts.get(step.stepId);
+                    if (start !== undefined) {
+                        durations.set(step.stepId, (durations.get(step.stepId) ?? 0) + Date.now() - start);
+                    }
+                    const exchange = step.response ? `${step.request?.method} ${step.request?.url} → ${step.response.statusCode}` : step.error ?? '';
+                    run.appendOutput(`${step.stepId} #${step.attempt}: ${step.status} ${exchange}\r\n`, undefined, stepItems.get(step.stepId));
+                }
+            }
+        });
+        if (token.isCancellationRequested) {
+            run.skipped(workflowItem);
+            steps.forEach(item => run.skipped(item));
+        } else {
+            reportResult(run, workflowItem, steps, result, durations);
+        }
+    } catch (e) {
+        // The environment, mock server or fixture could not be loaded, nothing ran
+        const message = new vscode.TestMessage(e instanceof Error ? e.message : String(e));
+        run.errored(workflowItem, message);
+        steps.forEach(item => run.errored(item, message));
+    } finally {
+        cancellation.dispose();
+        await close?.();
+    }
+}
+
+async function runTests(target: RunTarget, request: vscode.TestRunRequest, token: vscode.CancellationToken) {
+    if (!controller) {
+        return;
+    }
+    const run = controller.createTestRun(request);
+
+    // Workflows to run, with the steps to report on; a step alone still runs its whole workflow
+    const queue = new Map<vscode.TestItem, vscode.TestItem[]>();
+    const excluded = (item: vscode.TestItem) => request.exclude?.includes(item) ?? false;
+    const add = (item: vscode.TestItem) => {
+        const data = testData.get(item);
+        if (excluded(item) || !data) {
+            return;
+        }
+        if (data.kind === 'document') {
+            item.children.forEach(add);
+        } else if (data.kind === 'workflow') {
+            const steps: vscode.TestItem[] = [];
+            item.children.forEach(step => {
+                if (!excluded(step)) {
+                    steps.push(step);
+                }
+            });
+            queue.set(item, steps);
+        } else if (item.parent && !excluded(item.parent)) {
+            const steps = queue.get(item.parent) ?? [];
+            if (!steps.includes(item)) {
+                steps.push(item);
+            }
+            queue.set(item.parent, steps);
+        }
+    };
+    if (request.include) {
+        request.include.forEach(add);
+    } else {
+        controller.items.forEach(add);
+    }
+
+    for (const [workflowItem, steps] of queue) {
+        run.enqueued(workflowItem);
+        steps.forEach(item => run.enqueued(item));
+    }
+    for (const [workflowItem, steps] of queue) {
+        if (token.isCancellationRequested) {
+            run.skipped(workflowItem);
+            steps.forEach(item => run.skipped(item));
+            continue;
+        }
+        await runWorkflowTest(target, run, workflowItem, steps, token);
+    }
+    run.end();
+}
+
+/**
+ * Registers the test controller listing the workflows of the workspace, with run profiles for
+ * their APIs, a mock server and the recorded fixtures.
+ */
+export function registerWorkflowTests(context: vscode.ExtensionContext) {
+    const tests = controller = vscode.tests.createTestController('arazzo', 'Arazzo Workflows');
+    tests.resolveHandler = async item => {
+        if (!item) {
+            await discoverTests();
+        }
+    };
+    tests.refreshHandler = () => discoverTests();
+    tests.createRunProfile('Run', vscode.TestRunProfileKind.Run, (request, token) => runTests('api', request, token), true);
+    tests.createRunProfile('Run against Mock Server', vscode.TestRunProfileKind.Run, (request, token) => runTests('mock', request, token));
+    tests.createRunProfile('Replay Fixtures', vscode.TestRunProfileKind.Run, (request, token) => runTests('fixture', request, token));
+
+    const watcher = vscode.workspace.createFileSystemWatcher('**/*.{yaml,yml,json}');
+    context.subscriptions.push(
+        tests,
+        watcher,
+        watcher.onDidCreate(updateDocumentTests),
+        watcher.onDidChange(updateDocumentTests),
+        watcher.onDidDelete(uri => tests.items.delete(uri.toString())),
+        vscode.workspace.onDidOpenTextDocument(document => {
+            if (isArazzoDocument(document)) {
+                updateDocumentTests(document.uri);
+            }
+        }),
+        vscode.workspace.onDidChangeTextDocument(e => {
+            if (isArazzoDocument(e.document) || tests.items.get(e.document.uri.toString())) {
+                updateDocumentTests(e.document.uri);
+            }
+        })
+    );
+    vscode.workspace.textDocuments.filter(isArazzoDocument).forEach(document => updateDocumentTests(document.uri));
+}
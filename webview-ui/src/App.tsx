@@ -1,7 +1,10 @@
 import { useState, useEffect } from 'react';
 import UnifiedDocumentationView from './components/UnifiedDocumentationView';
 import FlowchartView from './components/FlowchartView';
+import RunView from './components/RunView';
 import { ArazzoSpec } from './types/arazzo';
+import { applyRunEvent, initialRunState, RunState } from './lib/run-state';
+import type { RunMode } from './types/run';
 
 // Mock data for initial render if needed, or empty
 const emptySpec: ArazzoSpec = {
@@ -17,8 +20,11 @@ const vscode = window.acquireVsCodeApi ? window.acquireVsCodeApi() : null;
 function App() {
   const [spec, setSpec] = useState<ArazzoSpec>(emptySpec);
   const [isDark, setIsDark] = useState(true);
-  const [viewMode, setViewMode] = useState<'documentation' | 'flowchart'>('documentation');
+  const [viewMode, setViewMode] = useState<'documentation' | 'flowchart' | 'run'>('documentation');
   const [selectedWorkflowId, setSelectedWorkflowId] = useState<string | undefined>(undefined);
+  const [runInputs, setRunInputs] = useState<Record<string, unknown>>({});
+  const [run, setRun] = useState<RunState>(initialRunState);
+  const [runMode, setRunMode] = useState<RunMode>('run');
 
   useEffect(() => {
     // Listen for messages from the extension
@@ -33,10 +39,28 @@ function App() {
         if (message.workflowId) {
             setSelectedWorkflowId(message.workflowId);
         }
+      } else if (message.type === 'run-init') {
+        setSpec(message.spec);
+        setViewMode('run');
+        setSelectedWorkflowId(message.workflowId);
+        setRunInputs(message.inputs);
+        setRunMode(message.mode ?? 'run');
+        setRun(initialRunState);
+        if (message.autoStart) {
+            startRun(message.inputs);
+        }
+      } else if (message.type === 'update-run') {
+        setSpec(message.spec);
+      } else if (message.type === 'run-event') {
+        setRun(state => applyRunEvent(state, message.event));
       } else if (message.type === 'select-workflow') {
           setSelectedWorkflowId(message.workflowId);
       } else if (message.type === 'scroll-to-step') {
-          handleStepClick(message.stepId, message.workflowId);
+          if (message.stepId) {
+              handleStepClick(message.stepId, message.workflowId);
+          } else {
+              highlightElement(`workflow-${message.workflowId}`);
+          }
       }
     };
 
@@ -67,6 +91,13 @@ function App() {
     };
   }, []);
 
+  const startRun = (inputs: Record<string, unknown>) => {
+    setRun({ ...initialRunState, running: true });
+    if (vscode) {
+        vscode.postMessage({ type: 'run', inputs });
+    }
+  };
+
   const handleStepClick = (stepId: string, workflowId?: string) => {
     // If workflowId is not provided, we can't construct the ID reliably
     // But we can try to find it if we assume unique step IDs or just search
@@ -74,7 +105,10 @@ function App() {
         console.warn('No workflowId provided for navigation to step:', stepId);
         return;
     }
-    const elementId = `step-${workflowId}-${stepId}`;
+    highlightElement(`step-${workflowId}-${stepId}`);
+  };
+
+  const highlightElement = (elementId: string) => {
     const element = document.getElementById(elementId);
     if (element) {
       element.scrollIntoView({ behavior: 'smooth', block: 'start' });
@@ -101,7 +135,19 @@ function App() {
 
   return (
     <div className="min-h-screen bg-[var(--vscode-editor-background)] text-[var(--vscode-editor-foreground)]">
-      {viewMode === 'flowchart' ? (
+      {viewMode === 'run' && selectedWorkflowId ? (
+        <RunView
+            spec={spec}
+            workflowId={selectedWorkflowId}
+            isDark={isDark}
+            mode={runMode}
+            inputs={runInputs}
+            onInputsChange={setRunInputs}
+            run={run}
+            onRun={() => startRun(runInputs)}
+            onCancel={() => vscode?.postMessage({ type: 'cancel' })}
+        />
+      ) : viewMode === 'flowchart' ? (
         <FlowchartView 
             spec={spec} 
             isDark={isDark} 
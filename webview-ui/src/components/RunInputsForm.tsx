@@ -0,0 +1,193 @@
+import { useState } from 'react';
+import type { WorkflowInputs, SchemaProperty } from '../types/arazzo';
+import SchemaEditor from './SchemaEditor';
+
+interface RunInputsFormProps {
+    /** Inputs schema of the workflow, the form has one field per property */
+    inputs?: WorkflowInputs;
+    values: Record<string, unknown>;
+    onChange: (values: Record<string, unknown>) => void;
+    isDark?: boolean;
+    disabled?: boolean;
+}
+
+/**
+ * Form for the input values of a workflow run, generated from its `inputs` schema
+ */
+export default function RunInputsForm({
+    inputs,
+    values,
+    onChange,
+    isDark = false,
+    disabled = false,
+}: RunInputsFormProps) {
+    const [mode, setMode] = useState<'form' | 'json'>('form');
+    const properties = inputs?.properties || {};
+    const required = inputs?.required || [];
+
+    const setValue = (key: string, value: unknown) => {
+        const newValues = { ...values };
+        if (value === undefined) {
+            delete newValues[key];
+        } else {
+            newValues[key] = value;
+        }
+        onChange(newValues);
+    };
+
+    const fieldClass = `w-full bg-transparent border rounded px-2 py-1 text-sm ${isDark ? 'border-slate-600 text-slate-200' : 'border-gray-300 text-gray-800'} focus:outline-none focus:border-indigo-500`;
+
+    const renderField = (key: string, schema: SchemaProperty) => {
+        const value = values[key];
+        if (schema.enum) {
+            return (
+                <select
+                    value={value === undefined ? '' : String(value)}
+                    onChange={(e) => setValue(key, e.target.value === '' ? undefined : e.target.value)}
+                    disabled={disabled}
+                    className={fieldClass}
+                >
+                    <option value="">—</option>
+                    {schema.enum.map(option => <option key={option} value={option}>{option}</option>)}
+                </select>
+            );
+        }
+        switch (schema.type) {
+            case 'boolean':
+                return (
+                    <input
+                        type="checkbox"
+                        checked={value === true}
+                        onChange={(e) => setValue(key, e.target.checked)}
+                        disabled={disabled}
+                        className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500 h-4 w-4"
+                    />
+                );
+            case 'number':
+            case 'integer':
+                return (
+                    <input
+                        type="number"
+                        step={schema.type === 'integer' ? 1 : 'any'}
+                        value={typeof value === 'number' ? value : ''}
+                        onChange={(e) => setValue(key, e.target.value === '' ? undefined : Number(e.target.value))}
+                        disabled={disabled}
+                        className={fieldClass}
+                    />
+                );
+            case 'object':
+            case 'array':
+                return (
+                    <JsonField
+                        value={value}
+                        onChange={(v) => setValue(key, v)}
+                        disabled={disabled}
+                        className={`${fieldClass} font-mono text-xs h-20`}
+                    />
+                );
+            default:
+                return (
+                    <input
+                        type={schema.format === 'password' ? 'password' : 'text'}
+                        value={value === undefined ? '' : String(value)}
+                        onChange={(e) => setValue(key, e.target.value)}
+                        placeholder={schema.example !== undefined ? String(schema.example) : undefined}
+                        disabled={disabled}
+                        className={fieldClass}
+                    />
+                );
+        }
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="flex gap-2">
+                <button
+                    onClick={() => setMode('form')}
+                    className={`px-2 py-1 text-xs rounded ${mode === 'form'
+                        ? (isDark ? 'bg-indigo-900 text-indigo-200' : 'bg-indigo-100 text-indigo-700')
+                        : (isDark ? 'text-slate-400 hover:text-slate-200' : 'text-gray-500 hover:text-gray-700')
+                        }`}
+                >
+                    Form
+                </button>
+                <button
+                    onClick={() => setMode('json')}
+                    className={`px-2 py-1 text-xs rounded ${mode === 'json'
+                        ? (isDark ? 'bg-indigo-900 text-indigo-200' : 'bg-indigo-100 text-indigo-700')
+                        : (isDark ? 'text-slate-400 hover:text-slate-200' : 'text-gray-500 hover:text-gray-700')
+                        }`}
+                >
+                    JSON
+                </button>
+            </div>
+
+            {mode === 'form' ? (
+                <div className="space-y-2">
+                    {Object.entries(properties).map(([key, schema]) => (
+                        <div key={key} className={`p-3 rounded border ${isDark ? 'border-slate-700 bg-slate-800/50' : 'border-gray-200 bg-gray-50'}`}>
+                            <div className="flex items-center gap-2 mb-1">
+                                <span className={`text-sm font-medium font-mono ${isDark ? 'text-white' : 'text-gray-900'}`}>{key}</span>
+                                <span className={`text-xs font-mono ${isDark ? 'text-slate-400' : 'text-gray-500'}`}>{schema.type}</span>
+                                {required.includes(key) && (
+                                    <span className={`text-[10px] uppercase font-bold ${isDark ? 'text-red-400' : 'text-red-600'}`}>Required</span>
+                                )}
+                            </div>
+                            {schema.description && (
+                                <p className={`text-xs mb-2 ${isDark ? 'text-slate-400' : 'text-gray-500'}`}>{schema.description}</p>
+                            )}
+                            {renderField(key, schema)}
+                        </div>
+                    ))}
+                    {Object.keys(properties).length === 0 && (
+                        <p className={`text-sm italic text-center py-4 ${isDark ? 'text-slate-500' : 'text-gray-400'}`}>
+                            This workflow declares no inputs.
+                        </p>
+                    )}
+                </div>
+            ) : (
+                <SchemaEditor
+                    schema={values}
+                    onChange={onChange}
+                    isDark={isDark}
+                    label="Inputs"
+                />
+            )}
+        </div>
+    );
+}
+
+/**
+ * Textarea for a JSON value, keeping the text while it does not parse
+ */
+function JsonField({ value, onChange, disabled, className }: {
+    value: unknown;
+    onChange: (value: unknown) => void;
+    disabled: boolean;
+    className: string;
+}) {
+    const [text, setText] = useState(value === undefined ? '' : JSON.stringify(value, null, 2));
+    const [error, setError] = useState<string | null>(null);
+
+    const handleChange = (newText: string) => {
+        setText(newText);
+        if (newText.trim() === '') {
+            setError(null);
+            onChange(undefined);
+            return;
+        }
+        try {
+            onChange(JSON.parse(newText));
+            setError(null);
+        } catch (e) {
+            setError((e as Error).message);
+        }
+    };
+
+    return (
+        <div>
+            <textarea value={text} onChange={(e) => handleChange(e.target.value)} disabled={disabled} className={className} />
+            {error && <span className="text-xs text-red-500">{error}</span>}
+        </div>
+    );
+}
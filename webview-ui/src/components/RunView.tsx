@@ -0,0 +1,155 @@
+import { useMemo } from 'react';
+import type { ArazzoSpec } from '../types/arazzo';
+import type { RunHttpRequest, RunHttpResponse, RunMode, RunStepResult } from '../types/run';
+import type { RunState } from '../lib/run-state';
+import MermaidDiagram from './MermaidDiagram';
+import RunInputsForm from './RunInputsForm';
+import { Badge, CodeBlock, CollapsibleSection } from './primitives';
+import { workflowToMermaidFlowchart } from '../lib/mermaid-converter';
+import { getThemeClasses } from '../hooks/useThemeClasses';
+
+interface RunViewProps {
+    spec: ArazzoSpec;
+    workflowId: string;
+    isDark: boolean;
+    mode: RunMode;
+    inputs: Record<string, unknown>;
+    onInputsChange: (inputs: Record<string, unknown>) => void;
+    run: RunState;
+    onRun: () => void;
+    onCancel: () => void;
+}
+
+/**
+ * Runs a workflow: its inputs, its flowchart coloured as steps pass, fail or get skipped, and
+ * the request, response, criteria and action of every step executed.
+ */
+export default function RunView({ spec, workflowId, isDark, mode, inputs, onInputsChange, run, onRun, onCancel }: RunViewProps) {
+    const theme = getThemeClasses(isDark);
+    const workflow = spec.workflows.find(w => w.workflowId === workflowId);
+    const statuses = run.statuses[workflowId];
+
+    const chart = useMemo(() => {
+        try {
+            return workflowToMermaidFlowchart(spec, workflowId, { direction: 'TB', stepStatuses: statuses });
+        } catch (e) {
+            console.error('Failed to generate flowchart', e);
+            return '';
+        }
+    }, [spec, workflowId, statuses]);
+
+    if (!workflow) {
+        return <div className="p-8 opacity-50">Workflow not found: {workflowId}</div>;
+    }
+
+    return (
+        <div className={`min-h-screen ${theme.bg} ${theme.text}`}>
+            <div className={`p-4 border-b ${theme.border} flex items-center justify-between sticky top-0 z-10 ${theme.bg}`}>
+                <div className="flex items-center gap-3">
+                    <h2 className="font-semibold text-lg">Run {workflowId}</h2>
+                    {mode === 'record' && <Badge variant="warning" size="sm" isDark={isDark}>Recording</Badge>}
+                    {mode === 'replay' && <Badge variant="info" size="sm" isDark={isDark}>Replay</Badge>}
+                    {run.running && <Badge variant="info" size="sm" isDark={isDark}>Running</Badge>}
+                    {!run.running && run.result && (
+                        <Badge variant={run.result.status === 'passed' ? 'success' : 'failure'} size="sm" isDark={isDark}>
+                            {run.result.status === 'passed' ? 'Passed' : 'Failed'}
+                        </Badge>
+                    )}
+                </div>
+                {run.running ? (
+                    <button onClick={onCancel} className="px-3 py-1.5 rounded-md text-sm font-medium bg-red-600 hover:bg-red-500 text-white">
+                        Stop
+                    </button>
+                ) : (
+                    <button onClick={onRun} className="px-3 py-1.5 rounded-md text-sm font-medium bg-indigo-600 hover:bg-indigo-500 text-white">
+                        {run.result ? 'Run Again' : 'Run'}
+                    </button>
+                )}
+            </div>
+
+            <div className="p-4 space-y-4">
+                <CollapsibleSection header={<span className="font-medium">Inputs</span>} isDark={isDark} defaultOpen={!run.result} variant="card">
+                    <RunInputsForm inputs={workflow.inputs} values={inputs} onChange={onInputsChange} isDark={isDark} disabled={run.running} />
+                </CollapsibleSection>
+
+                <div className={`h-96 rounded-lg border ${theme.border} overflow-hidden relative`}>
+                    <MermaidDiagram chart={chart} isDark={isDark} />
+                </div>
+
+                <div className="space-y-2">
+                    {run.steps.map((step, index) => (
+                        <StepResultCard key={index} step={step} isDark={isDark} showWorkflow={step.workflowId !== workflowId} />
+                    ))}
+                </div>
+
+                {run.result && !run.running && (
+                    run.result.status === 'passed' ? (
+                        <CodeBlock title="Outputs" language="json" code={JSON.stringify(run.result.outputs, null, 2)} isDark={isDark} />
+                    ) : (
+                        <div className={`p-3 rounded border text-sm ${isDark ? 'border-red-800 bg-red-900/30 text-red-300' : 'border-red-200 bg-red-50 text-red-700'}`}>
+                            {run.result.error ?? 'The workflow failed'}
+                        </div>
+                    )
+                )}
+            </div>
+        </div>
+    );
+}
+
+function StepResultCard({ step, isDark, showWorkflow }: { step: RunStepResult; isDark: boolean; showWorkflow: boolean }) {
+    const header = (
+        <div className="flex items-center gap-2 text-sm min-w-0">
+            <span className={step.status === 'passed' ? 'text-emerald-500' : 'text-red-500'}>{step.status === 'passed' ? '✓' : '✗'}</span>
+            <span className="font-mono font-medium">{showWorkflow ? `${step.workflowId} › ` : ''}{step.stepId}</span>
+            {step.attempt > 1 && <span className="text-xs opacity-60">attempt {step.attempt}</span>}
+            {step.request && <span className="text-xs font-mono opacity-70 truncate">{step.request.method} {step.request.url}</span>}
+            {step.response && <Badge variant={step.response.statusCode < 400 ? 'success' : 'failure'} size="xs" isDark={isDark}>{step.response.statusCode}</Badge>}
+            {step.action && (
+                <Badge variant="info" size="xs" isDark={isDark}>
+                    {step.action.type}{step.action.stepId ? ` → ${step.action.stepId}` : ''}{step.action.workflowId ? ` → ${step.action.workflowId}` : ''}
+                </Badge>
+            )}
+        </div>
+    );
+
+    return (
+        <CollapsibleSection header={header} isDark={isDark} variant="card" defaultOpen={step.status !== 'passed'}>
+            <div className="space-y-3">
+                {step.error && <p className="text-sm text-red-500">{step.error}</p>}
+                {step.request && <CodeBlock title="Request" language="http" code={formatRequest(step.request)} isDark={isDark} />}
+                {step.response && <CodeBlock title="Response" language="http" code={formatResponse(step.response)} isDark={isDark} />}
+                {step.criteria.length > 0 && (
+                    <ul className="space-y-1">
+                        {step.criteria.map((criterion, index) => (
+                            <li key={index} className="flex items-center gap-2 text-sm">
+                                <span className={criterion.passed ? 'text-emerald-500' : 'text-red-500'}>{criterion.passed ? '✓' : '✗'}</span>
+                                <Badge variant={`type-${criterion.type}`} size="xs" isDark={isDark}>{criterion.type}</Badge>
+                                <code className="font-mono text-xs">{criterion.condition}</code>
+                                {criterion.explanation && criterion.explanation !== criterion.condition && (
+                                    <span className={`text-xs ${criterion.passed ? 'opacity-60' : 'text-red-500'}`}>{criterion.explanation}</span>
+                                )}
+                            </li>
+                        ))}
+                    </ul>
+                )}
+                {Object.keys(step.outputs).length > 0 && (
+                    <CodeBlock title="Outputs" language="json" code={JSON.stringify(step.outputs, null, 2)} isDark={isDark} />
+                )}
+            </div>
+        </CollapsibleSection>
+    );
+}
+
+function formatHeaders(headers: Record<string, string>): string {
+    return Object.entries(headers).map(([name, value]) => `${name}: ${value}`).join('\n');
+}
+
+function formatRequest(request: RunHttpRequest): string {
+    const body = request.bodyText ? `\n\n${request.bodyText}` : '';
+    return `${request.method} ${request.url}\n${formatHeaders(request.headers)}${body}`;
+}
+
+function formatResponse(response: RunHttpResponse): string {
+    const body = typeof response.body === 'string' ? response.body : JSON.stringify(response.body, null, 2);
+    return `${response.statusCode}\n${formatHeaders(response.headers)}${body ? `\n\n${body}` : ''}`;
+}
@@ -5,9 +5,11 @@ interface SchemaEditorProps {
     schema: any;
     onChange: (newSchema: any) => void;
     isDark?: boolean;
+    /** Badge above the editor, for JSON documents other than schemas */
+    label?: string;
 }
 
-export default function SchemaEditor({ schema, onChange, isDark = false }: SchemaEditorProps) {
+export default function SchemaEditor({ schema, onChange, isDark = false, label = 'JSON Schema' }: SchemaEditorProps) {
     const [jsonText, setJsonText] = useState('');
     const [error, setError] = useState<string | null>(null);
 
@@ -29,7 +31,7 @@ export default function SchemaEditor({ schema, onChange, isDark = false }: Schem
     return (
         <div className="space-y-2">
             <div className="flex items-center justify-between">
-                <Badge variant="info" size="xs" isDark={isDark}>JSON Schema</Badge>
+                <Badge variant="info" size="xs" isDark={isDark}>{label}</Badge>
                 {error && <span className="text-xs text-red-500">{error}</span>}
             </div>
             <textarea
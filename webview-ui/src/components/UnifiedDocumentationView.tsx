@@ -46,9 +46,10 @@ function UnifiedDocumentationView({
   }, [spec.workflows, selectedWorkflowId]);
 
   // Helper to find source for a step
-  const getSourceForStep = (stepOperationId?: string) => {
-    if (!stepOperationId || !stepOperationId.includes('.')) return undefined;
-    const sourceName = stepOperationId.split('.')[0];
+  const getSourceForStep = (step: Step) => {
+    const sourceName = step.resolvedOperation?.sourceName
+      ?? (step.operationId?.includes('.') ? step.operationId.split('.')[0] : undefined);
+    if (!sourceName) return undefined;
     return spec.sourceDescriptions?.find((s: SourceDescription) => s.name === sourceName);
   };
 
@@ -169,7 +170,7 @@ function UnifiedDocumentationView({
                     step={step}
                     workflowId={workflow.workflowId}
                     index={stepIndex}
-                    sourceForStep={getSourceForStep(step.operationId)}
+                    sourceForStep={getSourceForStep(step)}
                     isDark={isDark}
                     onStepClick={onStepClick}
                     onWorkflowClick={onWorkflowSelect}
@@ -1,7 +1,7 @@
 import { useMemo } from 'react';
 import type { Step } from '../../types/arazzo';
 import { Badge, EditableField } from '@/components/primitives';
-import { extractHttpMethod, getMethodBadgeVariant, type HttpMethod } from '../../lib/arazzo-utils';
+import { getStepHttpMethod, getMethodBadgeVariant, type HttpMethod } from '../../lib/arazzo-utils';
 
 export type StepHeaderVariant = 'node' | 'card' | 'inspector';
 
@@ -35,7 +35,8 @@ export default function StepHeader({
     style,
     onClick
 }: StepHeaderProps) {
-    const method = useMemo(() => extractHttpMethod(step.operationId), [step.operationId]);
+    const method = useMemo(() => getStepHttpMethod(step), [step]);
+    const operationPath = step.resolvedOperation?.path;
 
     const operationName = useMemo(() => {
         if (!step.operationId) return null;
@@ -46,11 +47,12 @@ export default function StepHeader({
 
     const resolvedSourceName = useMemo(() => {
         if (sourceName) return sourceName;
+        if (step.resolvedOperation) return step.resolvedOperation.sourceName;
         if (step.operationId?.includes('.')) {
             return step.operationId.split('.')[0];
         }
         return null;
-    }, [sourceName, step.operationId]);
+    }, [sourceName, step.operationId, step.resolvedOperation]);
 
     // View specific styles
     const containerClasses = useMemo(() => {
@@ -110,6 +112,16 @@ export default function StepHeader({
                         </Badge>
                     )}
 
+                    {/* Path of the resolved OpenAPI operation */}
+                    {operationPath && (
+                        <code
+                            className={`font-mono text-xs truncate ${isDark ? 'text-slate-300' : 'text-gray-700'}`}
+                            title={step.resolvedOperation?.summary}
+                        >
+                            {operationPath}
+                        </code>
+                    )}
+
                     {/* Operation Path/ID or Workflow ID */}
                     {(operationName || step.workflowId) && variant !== 'node' && (
                         <div className="flex items-center">
@@ -1,12 +1,24 @@
 import type { BadgeVariant } from '../components/primitives/Badge';
+import type { Step } from '../types/arazzo';
 
 /**
  * HTTP methods supported in Arazzo workflows
  */
-export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH';
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH' | 'HEAD' | 'OPTIONS' | 'TRACE';
+
+/**
+ * Gets the HTTP method of a step: the one of its resolved OpenAPI operation, or a guess from its operationId.
+ */
+export function getStepHttpMethod(step: Step): HttpMethod | null {
+  if (step.resolvedOperation) {
+    return step.resolvedOperation.method.toUpperCase() as HttpMethod;
+  }
+  return extractHttpMethod(step.operationId);
+}
 
 /**
  * Extracts HTTP method from an operationId string using common naming conventions.
+ * Only a fallback for steps whose operation could not be resolved, see `getStepHttpMethod`.
  * 
  * @param operationId - The operation identifier (e.g., "findPetsByStatus", "createUser")
  * @returns The inferred HTTP method or null if not determinable
@@ -51,6 +63,9 @@ export const METHOD_BADGE_VARIANTS: Record<HttpMethod, BadgeVariant> = {
   PUT: 'method-put',
   DELETE: 'method-delete',
   PATCH: 'method-patch',
+  HEAD: 'method-get',
+  OPTIONS: 'method-get',
+  TRACE: 'method-get',
 };
 
 /**
@@ -69,6 +84,9 @@ export const METHOD_STYLES: Record<HttpMethod, string> = {
   PUT: 'bg-amber-100 text-amber-700 border-amber-200',
   DELETE: 'bg-red-100 text-red-700 border-red-200',
   PATCH: 'bg-purple-100 text-purple-700 border-purple-200',
+  HEAD: 'bg-gray-100 text-gray-600 border-gray-200',
+  OPTIONS: 'bg-gray-100 text-gray-600 border-gray-200',
+  TRACE: 'bg-gray-100 text-gray-600 border-gray-200',
 };
 
 /**
@@ -5,10 +5,14 @@ import { isReusableObject } from '../types/arazzo';
 // Mermaid Flowchart Generator
 // ═══════════════════════════════════════════════════════════════════════════════
 
+export type StepRunStatus = 'running' | 'passed' | 'failed' | 'skipped';
+
 export interface MermaidOptions {
   hideErrorFlows?: boolean;
   hideOutputs?: boolean;
   direction?: 'TB' | 'LR' | 'BT' | 'RL';
+  /** Colours the steps of a workflow run by their status */
+  stepStatuses?: Record<string, StepRunStatus>;
 }
 
 export function workflowToMermaidFlowchart(
@@ -16,7 +20,7 @@ export function workflowToMermaidFlowchart(
   workflowId: string,
   options: MermaidOptions = {}
 ): string {
-  const { hideErrorFlows = false, direction = 'TB' } = options;
+  const { hideErrorFlows = false, direction = 'TB', stepStatuses = {} } = options;
   const workflow = spec.workflows.find(w => w.workflowId === workflowId);
   if (!workflow) throw new Error(`Workflow not found: ${workflowId}`);
 
@@ -30,6 +34,11 @@ export function workflowToMermaidFlowchart(
   lines.push('  classDef stepNode fill:#e0e7ff,stroke:#6366f1,stroke-width:2px,color:#3730a3');
   lines.push('  classDef outputNode fill:#fef3c7,stroke:#f59e0b,stroke-width:2px,color:#92400e');
   lines.push('  classDef errorNode fill:#fee2e2,stroke:#ef4444,stroke-width:2px,color:#991b1b');
+  // Run statuses - Sky while running, Green passed, Red failed, Gray skipped
+  lines.push('  classDef runningNode fill:#e0f2fe,stroke:#0ea5e9,stroke-width:3px,color:#075985');
+  lines.push('  classDef passedNode fill:#dcfce7,stroke:#22c55e,stroke-width:2px,color:#166534');
+  lines.push('  classDef failedNode fill:#fee2e2,stroke:#ef4444,stroke-width:2px,color:#991b1b');
+  lines.push('  classDef skippedNode fill:#f3f4f6,stroke:#9ca3af,stroke-width:1px,color:#6b7280,stroke-dasharray:4');
   lines.push('');
 
   // Input node
@@ -44,10 +53,12 @@ export function workflowToMermaidFlowchart(
   lines.push('  %% Steps');
   workflow.steps.forEach((step, index) => {
     const stepNumber = index + 1;
-    const method = extractHttpMethod(step.operationId);
+    const method = getStepMethod(step);
     const methodBadge = method ? `[${method}] ` : '';
-    const label = `${stepNumber}. ${methodBadge}${sanitizeLabel(step.stepId)}`;
-    lines.push(`  ${sanitizeId(step.stepId)}["${label}"]:::stepNode`);
+    const path = step.resolvedOperation ? `<br/>${sanitizeLabel(step.resolvedOperation.path)}` : '';
+    const label = `${stepNumber}. ${methodBadge}${sanitizeLabel(step.stepId)}${path}`;
+    const status = stepStatuses[step.stepId];
+    lines.push(`  ${sanitizeId(step.stepId)}["${label}"]:::${status ? `${status}Node` : 'stepNode'}`);
   });
   lines.push('');
 
@@ -170,8 +181,8 @@ export function workflowToMermaidSequence(
   // Step interactions
   workflow.steps.forEach((step, index) => {
     const source = extractSourceFromStep(step, spec) || 'API';
-    const method = extractHttpMethod(step.operationId);
-    const operation = getOperationLabel(step);
+    const method = getStepMethod(step);
+    const operation = step.resolvedOperation?.path ?? getOperationLabel(step);
     const stepNumber = index + 1;
     
     lines.push(`  %% Step ${stepNumber}: ${step.stepId}`);
@@ -273,6 +284,13 @@ function sanitizeLabel(label: string): string {
     .trim();
 }
 
+/**
+ * HTTP method of the step's resolved OpenAPI operation, guessed from the operationId when it did not resolve
+ */
+function getStepMethod(step: Step): string | null {
+  return step.resolvedOperation?.method ?? extractHttpMethod(step.operationId);
+}
+
 function extractHttpMethod(operationId?: string): string | null {
   if (!operationId) return null;
   // Remove source prefix if present (e.g., "magentoApi.searchCustomers" -> "searchCustomers")
@@ -287,6 +305,10 @@ function extractHttpMethod(operationId?: string): string | null {
 }
 
 function extractSourceFromStep(step: Step, spec: ArazzoSpec): string | null {
+  if (step.resolvedOperation) {
+    return step.resolvedOperation.sourceName;
+  }
+
   // 1. Check operationId for source prefix (e.g., "magentoApi.searchCustomers")
   if (step.operationId && step.operationId.includes('.')) {
     const sourceName = step.operationId.split('.')[0];
@@ -0,0 +1,50 @@
+import type { StepRunStatus } from './mermaid-converter';
+import type { RunEvent, RunStepResult, RunWorkflowResult } from '../types/run';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Workflow Run State
+// Accumulates the events streamed by the extension into what the run view shows
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export interface RunState {
+  running: boolean;
+  /** Status of each step, by workflowId then stepId */
+  statuses: Record<string, Record<string, StepRunStatus>>;
+  /** Every step execution, in order, including those of other workflows the run triggered */
+  steps: RunStepResult[];
+  /** Result of the workflow that was run, once it completed */
+  result?: RunWorkflowResult;
+}
+
+export const initialRunState: RunState = { running: false, statuses: {}, steps: [] };
+
+export function applyRunEvent(state: RunState, event: RunEvent): RunState {
+  const setStatus = (workflowId: string, stepId: string, status: StepRunStatus) => ({
+    ...state.statuses,
+    [workflowId]: { ...state.statuses[workflowId], [stepId]: status }
+  });
+
+  switch (event.kind) {
+    case 'workflow-start':
+      // Runs of the same workflow start over, e.g. one retried through a failure action
+      return { ...state, running: true, statuses: { ...state.statuses, [event.workflowId]: {} } };
+    case 'step-start':
+      return { ...state, statuses: setStatus(event.workflowId, event.stepId, 'running') };
+    case 'step-end': {
+      const { workflowId, stepId, status } = event.result;
+      return {
+        ...state,
+        statuses: setStatus(workflowId, stepId, status === 'passed' ? 'passed' : 'failed'),
+        steps: [...state.steps, event.result]
+      };
+    }
+    case 'workflow-end': {
+      const { workflowId, skipped } = event.result;
+      const statuses = { ...state.statuses[workflowId] };
+      skipped.forEach(stepId => statuses[stepId] = 'skipped');
+      return { ...state, statuses: { ...state.statuses, [workflowId]: statuses } };
+    }
+    case 'run-end':
+      return { ...state, running: false, result: event.result };
+  }
+}
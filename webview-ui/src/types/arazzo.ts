@@ -129,6 +129,19 @@ export interface Step {
   outputs?: Record<string, string>;
   /** Extension: Condition to skip this step */
   'x-skip'?: string;
+  /** Not part of the specification: set by the extension host when the step resolves to an OpenAPI operation */
+  resolvedOperation?: ResolvedOperation;
+}
+
+/** OpenAPI operation a step calls, as resolved by the extension host from the source description */
+export interface ResolvedOperation {
+  /** HTTP method in upper case, e.g. "GET" */
+  method: string;
+  /** Path template, e.g. "/pets/{petId}" */
+  path: string;
+  /** Name of the source description defining the operation */
+  sourceName: string;
+  summary?: string;
 }
 
 // ─────────────────────────────────────────────────────────────────────────────────
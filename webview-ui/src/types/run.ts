@@ -0,0 +1,75 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// Workflow Run Types
+// Results streamed by the extension while it runs a workflow (see src/runner.ts)
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export interface RunHttpRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  query: Record<string, string>;
+  path: Record<string, string>;
+  body?: unknown;
+  bodyText?: string;
+}
+
+export interface RunHttpResponse {
+  statusCode: number;
+  headers: Record<string, string>;
+  body: unknown;
+  bodyText: string;
+}
+
+export interface RunCriterionResult {
+  condition: string;
+  type: 'simple' | 'regex' | 'jsonpath' | 'xpath';
+  version?: string;
+  passed: boolean;
+  /** Why the criterion passed or failed, the error when it could not be evaluated */
+  explanation?: string;
+  context?: unknown;
+  matches?: unknown[];
+  error?: string;
+}
+
+export interface RunActionResult {
+  type: 'end' | 'goto' | 'retry';
+  name?: string;
+  stepId?: string;
+  workflowId?: string;
+}
+
+export interface RunStepResult {
+  workflowId: string;
+  stepId: string;
+  attempt: number;
+  status: 'passed' | 'failed' | 'error';
+  request?: RunHttpRequest;
+  response?: RunHttpResponse;
+  criteria: RunCriterionResult[];
+  action?: RunActionResult;
+  outputs: Record<string, unknown>;
+  workflow?: RunWorkflowResult;
+  error?: string;
+}
+
+export interface RunWorkflowResult {
+  workflowId: string;
+  status: 'passed' | 'failed';
+  inputs: Record<string, unknown>;
+  outputs: Record<string, unknown>;
+  steps: RunStepResult[];
+  skipped: string[];
+  error?: string;
+}
+
+export type RunEvent =
+  | { kind: 'workflow-start'; workflowId: string; inputs: Record<string, unknown> }
+  | { kind: 'step-start'; workflowId: string; stepId: string }
+  | { kind: 'step-end'; result: RunStepResult }
+  | { kind: 'workflow-end'; result: RunWorkflowResult }
+  /** The workflow that was run has completed, along with everything it triggered */
+  | { kind: 'run-end'; result: RunWorkflowResult };
+
+/** Where the requests of a run go: to the servers, to the servers while recording a fixture, or to a fixture */
+export type RunMode = 'run' | 'record' | 'replay';